@@ -2,30 +2,36 @@
 import React, { useEffect, useState, lazy, Suspense } from 'react';
 import MapView from './components/MapView';
 import AuthButton from './components/AuthButton';
+import OrgSwitcher from './components/OrgSwitcher';
 import { auth } from './lib/firebase';
 import { onAuthStateChanged, type User } from 'firebase/auth';
 import { initOutboxAutoFlush, flushOutbox } from './lib/outbox';
+import { ensureMembership, type OrgClaims } from './lib/membership';
 
 // 遅延読み込み（最上部で定義）
 const Plans = lazy(() => import('./components/Plans'));
 const Reports = lazy(() => import('./components/Reports'));
+const Members = lazy(() => import('./components/Members'));
 
-type Tab = 'map' | 'plans' | 'reports';
+type Tab = 'map' | 'plans' | 'reports' | 'members';
 
 export default function App() {
   const [user, setUser] = useState<User | null>(auth.currentUser);
   const [tab, setTab] = useState<Tab>('map');
   const [authReady, setAuthReady] = useState(false);
+  // 所属組織とロール（招待の引き換えも含む）。未所属なら null
+  const [claims, setClaims] = useState<OrgClaims | null>(null);
 
   // アウトボックス：起動時に監視開始（オンライン復帰で自動フラッシュ）
   useEffect(() => {
     initOutboxAutoFlush();
   }, []);
 
-  // 認証状態の購読（ログイン成立時にキュー再送も試行）
+  // 認証状態の購読（ログイン成立時に所属の確認・招待の引き換えとキュー再送も試行）
   useEffect(() => {
     const off = onAuthStateChanged(auth, async (u) => {
       setUser(u);
+      setClaims(u ? await ensureMembership(u).catch(() => null) : null);
       setAuthReady(true);
       if (u) {
         try { await flushOutbox(); } catch { /* 未ログインやネット不通なら次回 */ }
@@ -76,8 +82,10 @@ export default function App() {
           <TabButton id="map" label="地図" />
           <TabButton id="plans" label="施業計画" needLogin />
           <TabButton id="reports" label="日報" needLogin />
+          {claims?.role === 'admin' && <TabButton id="members" label="メンバー" needLogin />}
         </nav>
-        <div style={{ marginLeft: 'auto' }}>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: 8, alignItems: 'center' }}>
+          {user && <OrgSwitcher claims={claims} onSwitched={setClaims} />}
           <AuthButton />
         </div>
       </header>
@@ -85,8 +93,9 @@ export default function App() {
       {!authReady ? (
         <div style={{ padding: 16 }}>読み込み中…</div>
       ) : (
-        <>
-          {tab === 'map' && <MapView />}
+        // 組織を切り替えたら各画面を作り直す（org_id をクレームから読み直し、地図のキャッシュも捨てる）
+        <React.Fragment key={claims?.org_id ?? ''}>
+          {tab === 'map' && <MapView canManageLayers={claims?.role === 'admin'} />}
 
           {tab === 'plans' && (
             user ? (
@@ -113,7 +122,19 @@ export default function App() {
               </div>
             )
           )}
-        </>
+
+          {tab === 'members' && (
+            claims?.role === 'admin' ? (
+              <Suspense fallback={<div style={{ padding: 16 }}>読み込み中…</div>}>
+                <Members />
+              </Suspense>
+            ) : (
+              <div style={{ padding: 16 }}>
+                <p>メンバー管理は組織の管理者のみ利用できます。</p>
+              </div>
+            )
+          )}
+        </React.Fragment>
       )}
     </div>
   );
@@ -8,16 +8,22 @@ import "leaflet-draw";
 import { createRoot } from "react-dom/client";
 
 import { authFetch } from "../lib/authFetch";
+import { fetchLayers, isRasterLayer, type LayerConfig } from "../lib/layers";
+import { OFFLINE_DATA_EVENT, type OfflineDataEventDetail, markOnlineData, offlineTrees } from "../lib/offlineData";
 
 import TreeDetail from "./TreeDetail";
 import LayerSwitcher from "./map/LayerSwitcher";
 import OpacitySlider from "./map/OpacitySlider";
 import TreePopup from "./map/TreePopup";
 import LayerManager from "./map/LayerManager";
+import CapabilitiesImport from "./map/CapabilitiesImport";
+import AuthTileLayer from "./map/AuthTileLayer";
+import TreeTileLayer, { type TreeTilePoint } from "./map/TreeTileLayer";
 import SearchDrawer, { type Filters } from "./search/SearchDrawer";
 import LegendDock from "./map/LegendDock";
 import MapToolbar from "./MapToolbar";
-import RangeStatsDrawer from "./map/RangeStatsDrawer";
+import RangeStatsDrawer, { type RangeStatItem } from "./map/RangeStatsDrawer";
+import OfflineManager from "./map/OfflineManager";
 
 // ↓ マーカークラスタを使う場合は依存を入れてください（npm i leaflet.markercluster）
 import "leaflet.markercluster/dist/MarkerCluster.css";
@@ -118,6 +124,14 @@ function StatusBar() {
   const [latlng, setLatlng] = useState<{ lat: number; lng: number }>({ lat: 0, lng: 0 });
   const [zoom, setZoom] = useState(map.getZoom());
   const [online, setOnline] = useState<boolean>(navigator.onLine);
+  // 表示中のデータが保存済みスナップショットならその時刻
+  const [offlineAt, setOfflineAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    const onData = (e: Event) => setOfflineAt((e as CustomEvent<OfflineDataEventDetail>).detail.saved_at);
+    window.addEventListener(OFFLINE_DATA_EVENT, onData);
+    return () => window.removeEventListener(OFFLINE_DATA_EVENT, onData);
+  }, []);
 
   useEffect(() => {
     const onMove = (e: L.LeafletMouseEvent) => setLatlng(e.latlng);
@@ -155,6 +169,11 @@ function StatusBar() {
       <span>📍 {latlng.lat.toFixed(5)}, {latlng.lng.toFixed(5)}</span>
       <span>🔎 z{zoom}</span>
       <span>● {online ? "オンライン" : "オフライン"}</span>
+      {offlineAt != null && (
+        <span style={{ color: "#b45309" }}>
+          オフラインデータ（{new Date(offlineAt).toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" })} 時点）
+        </span>
+      )}
     </div>
   );
 }
@@ -176,16 +195,53 @@ function MapReady({ onReady }: { onReady: (map: L.Map) => void }) {
 }
 
 /* --------------------------- API --------------------------- */
-async function fetchTreesByApi(f: Filters): Promise<Tree[]> {
+/** 表示範囲 [minLng, minLat, maxLng, maxLat] */
+type BBox = [number, number, number, number];
+
+/** 1ページの件数と、next_cursor をたどって取得する総数の上限 */
+const PAGE_SIZE = 1000;
+const MAX_FETCH = 20000;
+
+/** 属性条件 → クエリ（/trees/search と /tiles/trees 共通） */
+function filterParams(f: Filters) {
   const qs = new URLSearchParams();
   if (f.species?.length) qs.set("species", f.species.join(","));
   if (f.minHeight != null) qs.set("height_min", String(f.minHeight));
   if (f.maxHeight != null) qs.set("height_max", String(f.maxHeight));
   if (f.minDbh != null) qs.set("dbh_min", String(f.minDbh));
   if (f.maxDbh != null) qs.set("dbh_max", String(f.maxDbh));
-  qs.set("limit", String(f.limit ?? 1000));
+  return qs;
+}
+
+async function fetchTreePages(f: Filters, bbox?: BBox): Promise<ApiTree[]> {
+  const qs = filterParams(f);
+  if (bbox) qs.set("bbox", bbox.map((v) => v.toFixed(6)).join(","));
+  qs.set("limit", String(PAGE_SIZE));
+
+  // next_cursor が尽きるか上限に達するまでページング
+  const items: ApiTree[] = [];
+  let cursor: string | null = null;
+  do {
+    if (cursor) qs.set("cursor", cursor);
+    const page: { items: ApiTree[]; next_cursor?: string | null } = await authFetch(
+      `/api/trees/search?${qs.toString()}`
+    );
+    items.push(...(page.items || []));
+    cursor = page.next_cursor ?? null;
+  } while (cursor && items.length < MAX_FETCH);
+  return items;
+}
 
-  const { items } = await authFetch<{ items: ApiTree[] }>(`/api/trees/search?${qs.toString()}`);
+async function fetchTreesByApi(f: Filters, bbox?: BBox): Promise<Tree[]> {
+  // 圏外では保存済みのスナップショット（lib/offlineData）から返す
+  const items: ApiTree[] = [];
+  if (!navigator.onLine) {
+    const snap = await offlineTrees(bbox, f);
+    items.push(...(snap?.items ?? []));
+  } else {
+    items.push(...(await fetchTreePages(f, bbox)));
+    markOnlineData();
+  }
 
   const norm = (p: ApiTree): Tree | null => {
     let lat = p.lat, lng = p.lng;
@@ -210,7 +266,55 @@ async function fetchTreesByApi(f: Filters): Promise<Tree[]> {
   return items.map(norm).filter((t): t is Tree => !!t);
 }
 
+type AreaStatsResponse = {
+  area_ha: number | null;
+  count: number;
+  height_m: { mean: number | null; p50: number | null };
+  dbh_cm: { mean: number | null; p50: number | null };
+  volume_m3: number | null;
+  per_ha: { stems: number | null; volume_m3: number | null; basal_area_m2: number | null };
+  by_species: Array<{ species: string; count: number; volume_m3: number | null }>;
+};
+
+/** 範囲内の全単木を対象にした集計（サーバ側） */
+function fetchAreaStats(geometry: any): Promise<AreaStatsResponse> {
+  return authFetch<AreaStatsResponse>("/api/trees/stats", {
+    method: "POST",
+    body: JSON.stringify({ geom: geometry }),
+  });
+}
+
 /* --------------------------- TreesLayer --------------------------- */
+// 単木 → 一覧・CSV・範囲集計で使う GeoJSON Feature
+const treeFeature = (t: Tree) => ({
+  type: "Feature" as const,
+  geometry: { type: "Point" as const, coordinates: [t.lng, t.lat] },
+  properties: {
+    tree_id: t.id,
+    species: t.species,
+    dbh_cm: t.dbh,
+    height_m: t.height,
+    volume_m3: t.volume,
+    lon: t.lng,
+    lat: t.lat,
+  },
+});
+
+const fromTilePoint = (p: TreeTilePoint): Tree => ({
+  id: p.id,
+  lat: p.lat,
+  lng: p.lng,
+  species: p.species,
+  dbh: p.dbh_cm ?? null,
+  height: p.height_m ?? null,
+  volume: p.volume_m3 ?? null,
+});
+
+/**
+ * 樹木の表示。オンラインは樹木のベクタタイル（TreeTileLayer。低ズームはサーバ集計の格子）で
+ * 間引かずに描き、圏外は保存済みのスナップショットを GeoJSON（クラスタ）で描く。
+ * 一覧・CSV・範囲集計の手元代替は、表示範囲で読み込んだ単木（featuresRef）を使う。
+ */
 function TreesLayer({
   filters,
   onFeaturesChange,
@@ -222,31 +326,96 @@ function TreesLayer({
   filters: Filters;
   onFeaturesChange: (features: any[]) => void;
   onLoadingChange: (loading: boolean) => void;
-  onDrawComputed: (payload: { geom: any; stats: { count: number; avgDbh: number | null; avgHeight: number | null } }) => void;
+  onDrawComputed: (payload: RangeStatItem) => void;
   detailMode: "panel" | "popup";
   registerExport: (fn: () => void) => void;
 }) {
   const map = useMap();
 
-  const layerRef = useRef<L.Layer | null>(null); // cluster or geojson を入れる
+  const layerRef = useRef<L.Layer | null>(null); // 圏外時の cluster or geojson を入れる
+  const featuresRef = useRef<any[]>([]);
   const canvasRendererRef = useRef<L.Canvas>(L.canvas());
   const [selected, setSelected] = useState<Tree | null>(null);
   const selectedId = selected?.id ?? null;
 
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  useEffect(() => {
+    const onl = () => setOnline(true), off = () => setOnline(false);
+    window.addEventListener("online", onl);
+    window.addEventListener("offline", off);
+    return () => {
+      window.removeEventListener("online", onl);
+      window.removeEventListener("offline", off);
+    };
+  }, []);
+
+  const setFeatures = useCallback(
+    (features: any[]) => {
+      featuresRef.current = features;
+      onFeaturesChange(features);
+    },
+    [onFeaturesChange]
+  );
+
+  // ---- オンライン：ベクタタイル ----
+  const tileQuery = useMemo(() => filterParams(filters).toString(), [filters]);
+  const onTileTrees = useCallback(
+    (pts: TreeTilePoint[]) => {
+      markOnlineData();
+      setFeatures(pts.map((p) => treeFeature(fromTilePoint(p))));
+    },
+    [setFeatures]
+  );
+  const onTilePick = useCallback(
+    (p: TreeTilePoint) => {
+      if (detailMode === "panel") return setSelected(fromTilePoint(p));
+      const div = L.DomUtil.create("div");
+      createRoot(div).render(
+        <TreePopup
+          data={{
+            tree_id: p.id,
+            species: p.species,
+            height_m: p.height_m,
+            dbh_cm: p.dbh_cm,
+            volume_m3: p.volume_m3,
+            lon: p.lng,
+            lat: p.lat,
+          }}
+        />
+      );
+      L.popup().setLatLng([p.lat, p.lng]).setContent(div).openOn(map);
+    },
+    [detailMode, map]
+  );
+
+  // 選択中の単木の強調（タイルは描き直さず上に重ねる）
+  useEffect(() => {
+    if (!online || !selected) return;
+    const m = L.circleMarker([selected.lat, selected.lng], {
+      radius: 7,
+      color: "#e91e63",
+      weight: 2,
+      fill: false,
+      interactive: false,
+    }).addTo(map);
+    return () => {
+      m.remove();
+    };
+  }, [online, selected, map]);
+
+  // ---- 圏外：保存済みのスナップショット ----
   const reload = useCallback(async () => {
+    if (navigator.onLine) return;
     onLoadingChange(true);
     setSelected(null);
     try {
       const b = map.getBounds();
-      const [minLng, minLat, maxLng, maxLat] = [b.getWest(), b.getSouth(), b.getEast(), b.getNorth()];
-      const fetched = await fetchTreesByApi(filters);
-      const filtered = fetched.filter(
-        (t) => t.lng >= minLng && t.lng <= maxLng && t.lat >= minLat && t.lat <= maxLat
-      );
-
-      const MAX_DRAW = 3000;
-      const step = filtered.length > MAX_DRAW ? Math.ceil(filtered.length / MAX_DRAW) : 1;
-      const draw = filtered.filter((_, i) => i % step === 0);
+      const draw = await fetchTreesByApi(filters, [
+        Math.max(-180, b.getWest()),
+        Math.max(-90, b.getSouth()),
+        Math.min(180, b.getEast()),
+        Math.min(90, b.getNorth()),
+      ]);
 
       if (layerRef.current) {
         map.removeLayer(layerRef.current);
@@ -255,19 +424,7 @@ function TreesLayer({
 
       const fc = {
         type: "FeatureCollection" as const,
-        features: draw.map((t) => ({
-          type: "Feature" as const,
-          geometry: { type: "Point" as const, coordinates: [t.lng, t.lat] },
-          properties: {
-            tree_id: t.id,
-            species: t.species,
-            dbh_cm: t.dbh,
-            height_m: t.height,
-            volume_m3: t.volume,
-            lon: t.lng,
-            lat: t.lat,
-          },
-        })),
+        features: draw.map(treeFeature),
       };
 
       // クラスタ対応（存在すれば使う）
@@ -328,11 +485,11 @@ function TreesLayer({
       groupLayer.addTo(map);
       layerRef.current = groupLayer;
 
-      onFeaturesChange((fc as any).features);
+      setFeatures((fc as any).features);
     } finally {
       onLoadingChange(false);
     }
-  }, [filters, map, detailMode, onFeaturesChange, onLoadingChange, selectedId]);
+  }, [filters, map, detailMode, setFeatures, onLoadingChange, selectedId]);
 
   // 選択ハイライト更新（panelモード時のみ意味あり）
   useEffect(() => {
@@ -364,14 +521,8 @@ function TreesLayer({
       drawnItems.clearLayers();
       drawnItems.addLayer(shape);
 
-      // 現在描画中のFeaturesを取得
-      const features: any[] = ((): any[] => {
-        const l: any = layerRef.current;
-        if (!l) return [];
-        if (l.toGeoJSON) return (l.toGeoJSON() as any)?.features ?? [];
-        // cluster の場合も内部geojsonに対して toGeoJSON が生えるので上でOK
-        return [];
-      })();
+      // 表示範囲で読み込んだ単木
+      const features = featuresRef.current;
 
       const inside = (lat: number, lng: number) => {
         if (shape.getBounds) return shape.getBounds().contains(L.latLng(lat, lng));
@@ -402,14 +553,38 @@ function TreesLayer({
       const avg = (xs: number[]) =>
         xs.length ? Math.round(((xs.reduce((a, b) => a + b, 0) / xs.length) + Number.EPSILON) * 10) / 10 : null;
 
-      onDrawComputed({
-        geom: shape.toGeoJSON ? shape.toGeoJSON() : null,
-        stats: {
-          count: props.length,
-          avgDbh: avg(num(props.map((p: any) => p.dbh_cm))),
-          avgHeight: avg(num(props.map((p: any) => p.height_m))),
-        },
-      });
+      const geom = shape.toGeoJSON ? shape.toGeoJSON() : null;
+      const clientStats = {
+        count: props.length,
+        avgDbh: avg(num(props.map((p: any) => p.dbh_cm))),
+        avgHeight: avg(num(props.map((p: any) => p.height_m))),
+        source: "client" as const,
+      };
+
+      // 全件の正確な集計はサーバ（/trees/stats）に任せ、失敗時のみ表示中の点で代替
+      if (!geom?.geometry) return onDrawComputed({ geom, stats: clientStats });
+      fetchAreaStats(geom.geometry)
+        .then((r) =>
+          onDrawComputed({
+            geom,
+            stats: {
+              count: r.count,
+              avgDbh: r.dbh_cm.mean,
+              avgHeight: r.height_m.mean,
+              source: "server",
+              areaHa: r.area_ha,
+              medianHeight: r.height_m.p50,
+              sumVolume: r.volume_m3,
+              stemsPerHa: r.per_ha.stems,
+              volumePerHa: r.per_ha.volume_m3,
+              bySpecies: r.by_species,
+            },
+          })
+        )
+        .catch((e) => {
+          console.error(e);
+          onDrawComputed({ geom, stats: clientStats });
+        });
     };
 
     map.addLayer(drawnItems);
@@ -423,8 +598,9 @@ function TreesLayer({
     };
   }, [map, onDrawComputed]);
 
-  // 初回＋パン/ズームで再構築（デバウンス）
+  // 圏外の間は初回＋パン/ズームで再構築（デバウンス）
   useEffect(() => {
+    if (online) return;
     let t: any;
     const debounced = () => {
       clearTimeout(t);
@@ -442,14 +618,11 @@ function TreesLayer({
         layerRef.current = null;
       }
     };
-  }, [reload, map]);
+  }, [reload, map, online]);
 
-  // CSV出力（現在のGeoJSONをそのままCSV化）
+  // CSV出力（表示範囲で読み込んだ単木）
   const exportCsv = useCallback(() => {
-    const layer: any = layerRef.current;
-    if (!layer || !layer.toGeoJSON) return;
-    const gj = layer.toGeoJSON() as any;
-    const rows = (gj.features || []).map((f: any) => {
+    const rows = featuresRef.current.map((f: any) => {
       const p = f.properties || {};
       const [lng, lat] = f.geometry?.coordinates || [null, null];
       return {
@@ -483,6 +656,15 @@ function TreesLayer({
 
   return (
     <>
+      {online && (
+        <TreeTileLayer
+          query={tileQuery}
+          colors={SPECIES_COLORS}
+          onTrees={onTileTrees}
+          onPick={onTilePick}
+          onLoadingChange={onLoadingChange}
+        />
+      )}
       {/* 詳細パネルは panel モードのときだけ */}
       {detailMode === "panel" && <TreeDetail tree={selected} onClose={() => setSelected(null)} />}
     </>
@@ -490,31 +672,62 @@ function TreesLayer({
 }
 
 /* --------------------------- 親コンポーネント --------------------------- */
-export default function MapView() {
+export default function MapView({ canManageLayers = false }: { canManageLayers?: boolean }) {
   const winW = useWindowSize();
   const mapRef = useRef<L.Map | null>(null);
 
-  // ベース/オーバーレイ
-  const [opacity, setOpacity] = useState<number>(() => Number(localStorage.getItem("overlayOpacity") ?? 0.7));
+  // 全体の透過（各オーバーレイの不透明度に掛ける）
+  const [opacity, setOpacity] = useState<number>(() => Number(localStorage.getItem("overlayOpacity") ?? 1));
   useEffect(() => localStorage.setItem("overlayOpacity", String(opacity)), [opacity]);
 
-  const [base, setBase] = useState([
-    { id: "std", label: "標準地図", active: true },
-    { id: "photo", label: "航空写真", active: false },
-  ]);
+  // 組織のレイヤ登録簿（/config/layers。URL は認証付きプロキシ、契約済みのレイヤのみ）
+  const [layers, setLayers] = useState<LayerConfig[]>([]);
+  useEffect(() => {
+    fetchLayers()
+      .then(setLayers)
+      .catch(() => setLayers([]));
+  }, []);
 
-  const [overlays, setOverlays] = useState([
-    { id: "slope", label: "傾斜", visible: false },
-    { id: "dem", label: "DEM", visible: false },
-    { id: "contour", label: "等高線", visible: false },
-    { id: "canopy_surface", label: "樹冠表面", visible: false },
-  ]);
+  const [activeBase, setActiveBase] = useState("std");
+  const [visible, setVisible] = useState<Record<string, boolean>>({});
+  const [layerOpacity, setLayerOpacity] = useState<Record<string, number>>({});
+  // LayerManager で並べ替えた順（上ほど手前）。並べ替える前は登録簿の順
+  const [order, setOrder] = useState<string[]>([]);
+
+  // 背景: 地理院地図 + 登録簿の base レイヤ（写真の背景が無い組織は地理院の写真）
+  const bases = useMemo(() => {
+    const reg = layers.filter((l) => l.base && isRasterLayer(l));
+    return [
+      { id: "std", label: "標準地図" },
+      ...reg.map((l) => ({ id: l.id, label: l.label })),
+      ...(reg.some((l) => l.id === "orthophoto") ? [] : [{ id: "gsi_photo", label: "航空写真" }]),
+    ].map((b) => ({ ...b, active: b.id === activeBase }));
+  }, [layers, activeBase]);
+
+  // オーバーレイ（mvt は地図に描けないため出さない。事前DL の対象にはなる）
+  const overlays = useMemo(() => {
+    const list = layers.filter((l) => !l.base && isRasterLayer(l));
+    const rank = (id: string) => {
+      const i = order.indexOf(id);
+      return i < 0 ? order.length + list.findIndex((l) => l.id === id) : i;
+    };
+    return list.sort((a, b) => rank(a.id) - rank(b.id));
+  }, [layers, order]);
+
+  const moveOverlay = (id: string, dir: "up" | "down") => {
+    const ids = overlays.map((l) => l.id);
+    const i = ids.indexOf(id);
+    const j = dir === "up" ? i - 1 : i + 1;
+    if (i < 0 || j < 0 || j >= ids.length) return;
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+    setOrder(ids);
+  };
 
   const [showLayerManager, setShowLayerManager] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showOffline, setShowOffline] = useState(false);
   const [detailMode, setDetailMode] = useState<"panel" | "popup">("panel");
 
-  const activeBase = base.find((b) => b.active)?.id ?? "std";
-
   // ドロワー/検索
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [features, setFeatures] = useState<any[]>([]);
@@ -523,7 +736,7 @@ export default function MapView() {
 
   // RangeStatsDrawer
   const [rangeOpen, setRangeOpen] = useState(false);
-  const [rangeStats, setRangeStats] = useState<any[]>([]);
+  const [rangeStats, setRangeStats] = useState<RangeStatItem[]>([]);
 
   // ローディング表示用
   const [loading, setLoading] = useState(false);
@@ -573,13 +786,18 @@ export default function MapView() {
     .leaflet-top.leaflet-left .leaflet-draw-toolbar { margin-top: ${HEADER_OFFSET + 8}px; }
   `;
 
-  // タイルレイヤURLを API から取得（/config/layers）
-  const [layerConf, setLayerConf] = useState<any>(null);
-  useEffect(() => {
-    authFetch<{ layers: any }>("/api/config/layers")
-      .then((r) => setLayerConf(r.layers || {}))
-      .catch(() => setLayerConf({}));
-  }, []);
+  // 登録簿のレイヤ（認証付きプロキシ）
+  const registryLayer = (l: LayerConfig, o: number, zIndex?: number) => (
+    <AuthTileLayer
+      key={l.id}
+      url={l.url}
+      opacity={o}
+      attribution={l.attribution}
+      minZoom={l.min_zoom}
+      maxZoom={l.max_zoom}
+      zIndex={zIndex}
+    />
+  );
 
   // 集計関数（Toolbarから呼ぶ）
   const handleAggregate = useCallback(() => {
@@ -608,25 +826,16 @@ export default function MapView() {
         {activeBase === "std" && (
           <TileLayer url="https://cyberjapandata.gsi.go.jp/xyz/std/{z}/{x}/{y}.png" attribution="&copy; 国土地理院" />
         )}
-        {activeBase === "photo" && (
-          <TileLayer
-            url={layerConf?.orthophoto || "https://cyberjapandata.gsi.go.jp/xyz/ort/{z}/{x}/{y}.jpg"}
-            attribution="&copy; 航空写真"
-          />
+        {activeBase === "gsi_photo" && (
+          <TileLayer url="https://cyberjapandata.gsi.go.jp/xyz/ort/{z}/{x}/{y}.jpg" attribution="&copy; 航空写真" />
         )}
+        {layers.filter((l) => l.base && l.id === activeBase).map((l) => registryLayer(l, l.opacity, 0))}
 
-        {/* オーバーレイ */}
-        {overlays.find((o) => o.id === "slope")?.visible && layerConf?.slope && (
-          <TileLayer url={layerConf.slope} opacity={opacity} attribution="Slope" />
-        )}
-        {overlays.find((o) => o.id === "dem")?.visible && layerConf?.dem && (
-          <TileLayer url={layerConf.dem} opacity={opacity} attribution="DEM" />
-        )}
-        {overlays.find((o) => o.id === "contour")?.visible && layerConf?.contour && (
-          <TileLayer url={layerConf.contour} opacity={opacity} attribution="Contour" />
-        )}
-        {overlays.find((o) => o.id === "canopy_surface")?.visible && layerConf?.canopy_surface && (
-          <TileLayer url={layerConf.canopy_surface} opacity={opacity} attribution="Canopy surface" />
+        {/* オーバーレイ（一覧の上ほど手前） */}
+        {overlays.map(
+          (l, i) =>
+            visible[l.id] &&
+            registryLayer(l, (layerOpacity[l.id] ?? l.opacity) * opacity, 10 + overlays.length - i)
         )}
 
         <TreesLayer
@@ -670,10 +879,10 @@ export default function MapView() {
 
       {/* 右上：レイヤ切替（ヘッダー分下げ） */}
       <LayerSwitcher
-        bases={base}
-        overlays={overlays}
-        onChangeBase={(id) => setBase((bs) => bs.map((b) => ({ ...b, active: b.id === id })))}
-        onToggleOverlay={(id, next) => setOverlays((os) => os.map((o) => (o.id === id ? { ...o, visible: next } : o)))}
+        bases={bases}
+        overlays={overlays.map((l) => ({ id: l.id, label: l.label, group: l.group, visible: !!visible[l.id] }))}
+        onChangeBase={setActiveBase}
+        onToggleOverlay={(id, next) => setVisible((v) => ({ ...v, [id]: next }))}
         position="top-right"
         topOffset={HEADER_OFFSET + 8}
         footer={
@@ -707,6 +916,13 @@ export default function MapView() {
             >
               詳細
             </button>
+            <button
+              onClick={() => setShowOffline(true)}
+              style={{ padding: "6px 10px", border: "1px solid #e5e7eb", background: "#fff", borderRadius: 8 }}
+              title="オフライン地図"
+            >
+              オフライン
+            </button>
           </div>
         }
       />
@@ -714,11 +930,58 @@ export default function MapView() {
       {/* レイヤ詳細パネル（LayerManager） */}
       {showLayerManager && (
         <LayerManager
-          overlays={overlays}
-          onChange={(next: typeof overlays) => setOverlays(next)}
-          opacity={opacity}
-          onOpacity={(v: number) => setOpacity(v)}
+          layers={overlays.map((l) => ({
+            id: l.id,
+            name: l.label,
+            group: l.group,
+            visible: !!visible[l.id],
+            opacity: layerOpacity[l.id] ?? l.opacity,
+            legend: l.legend,
+          }))}
+          onToggle={(id, next) => setVisible((v) => ({ ...v, [id]: next }))}
+          onOpacity={(id, o) => setLayerOpacity((m) => ({ ...m, [id]: o }))}
+          onMove={moveOverlay}
           onClose={() => setShowLayerManager(false)}
+          onImport={
+            canManageLayers
+              ? () => {
+                  setShowLayerManager(false);
+                  setShowImport(true);
+                }
+              : undefined
+          }
+          topOffset={HEADER_OFFSET + 8}
+        />
+      )}
+
+      {/* 外部レイヤの取り込み（管理者のみ。追加したレイヤはそのまま表示する） */}
+      {showImport && (
+        <CapabilitiesImport
+          onImported={(l) => {
+            setLayers((ls) => [...ls.filter((x) => x.id !== l.id), l]);
+            if (l.base) setActiveBase(l.id);
+            else setVisible((v) => ({ ...v, [l.id]: true }));
+          }}
+          onClose={() => setShowImport(false)}
+          topOffset={HEADER_OFFSET + 8}
+        />
+      )}
+
+      {/* オフライン地図（タイルの端末保存） */}
+      {showOffline && (
+        <OfflineManager
+          getView={() => {
+            const m = mapRef.current;
+            if (!m) return null;
+            const b = m.getBounds();
+            return {
+              bbox: { minLng: b.getWest(), minLat: b.getSouth(), maxLng: b.getEast(), maxLat: b.getNorth() },
+              zoom: m.getZoom(),
+            };
+          }}
+          drawn={rangeStats[0]?.geom ?? null}
+          layers={layers.map((l) => l.id)}
+          onClose={() => setShowOffline(false)}
           topOffset={HEADER_OFFSET + 8}
         />
       )}
@@ -0,0 +1,202 @@
+// frontend/src/components/Members.tsx
+import React, { useEffect, useState } from "react";
+import { auth } from "../lib/firebase";
+import { authFetch } from "../lib/authFetch";
+import { ROLE_LABELS, type Role } from "../lib/membership";
+
+/* ----------------------------- 型 ----------------------------- */
+type Ts = { _seconds?: number; seconds?: number } | null | undefined;
+
+type Member = {
+  uid: string;
+  email: string;
+  display_name?: string | null;
+  role: Role;
+  status: "active" | "suspended";
+  joined_at?: Ts;
+};
+
+type Invitation = {
+  id: string;
+  email: string;
+  role: Role;
+  created_at?: Ts;
+  expires_at?: Ts;
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+// Timestamp は JSON で { _seconds } になる
+const fmtTs = (t: Ts) => {
+  const sec = t?._seconds ?? t?.seconds;
+  return sec != null ? new Date(sec * 1000).toLocaleDateString("ja-JP") : "—";
+};
+
+const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #eee", textAlign: "left" };
+
+export default function Members() {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invites, setInvites] = useState<Invitation[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // 招待フォーム
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("staff");
+
+  const me = auth.currentUser?.uid;
+
+  async function reload() {
+    setErr(null);
+    try {
+      const [m, i] = await Promise.all([
+        authFetch<{ items: Member[] }>("/api/admin/members"),
+        authFetch<{ items: Invitation[] }>("/api/admin/invitations"),
+      ]);
+      setMembers(m.items ?? []);
+      setInvites(i.items ?? []);
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    }
+  }
+
+  useEffect(() => { reload(); }, []);
+
+  // 失敗時はメッセージを出して最新を取り直す
+  async function run(fn: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e: any) {
+      alert("操作に失敗しました: " + (e?.message || e));
+    } finally {
+      setBusy(false);
+      await reload();
+    }
+  }
+
+  const invite = () =>
+    run(async () => {
+      await authFetch("/api/admin/invitations", { method: "POST", body: JSON.stringify({ email, role }) });
+      setEmail("");
+    });
+
+  const cancelInvite = (id: string) =>
+    run(() => authFetch(`/api/admin/invitations/${id}`, { method: "DELETE" }));
+
+  const patchMember = (uid: string, body: Partial<Pick<Member, "role" | "status">>) =>
+    run(() => authFetch(`/api/admin/members/${uid}`, { method: "PATCH", body: JSON.stringify(body) }));
+
+  const suspend = (m: Member) => {
+    if (!confirm(`${m.email} の利用を停止します。ログイン中の端末からも締め出されます。よろしいですか？`)) return;
+    patchMember(m.uid, { status: "suspended" });
+  };
+
+  const revoke = (m: Member) => {
+    if (!confirm(`${m.email} のログインをすべて無効にします（再ログインが必要になります）。よろしいですか？`)) return;
+    run(() => authFetch(`/api/admin/members/${m.uid}/revoke`, { method: "POST" }));
+  };
+
+  return (
+    <div style={{ padding: 16 }}>
+      <h2 style={{ fontSize: 26, fontWeight: 700, marginBottom: 12 }}>メンバー管理</h2>
+      {err && <div style={{ color: "#b91c1c", marginBottom: 8 }}>{err}</div>}
+
+      {/* 招待 */}
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 16 }}>
+        <input
+          type="email"
+          placeholder="招待するメールアドレス（Google アカウント）"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          style={{ width: 320 }}
+        />
+        <select value={role} onChange={(e) => setRole(e.target.value as Role)}>
+          {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <button onClick={invite} disabled={busy || !email.trim()}>招待</button>
+        <span style={{ fontSize: 12, color: "#6b7280" }}>招待したアドレスで初めてログインすると組織に参加します（14 日間有効）</span>
+      </div>
+
+      {invites.length > 0 && (
+        <>
+          <h3 style={{ fontWeight: 700, margin: "8px 0" }}>招待中（{invites.length}）</h3>
+          <table style={{ borderCollapse: "collapse", width: "100%", marginBottom: 16 }}>
+            <thead>
+              <tr>
+                <th style={cell}>メール</th>
+                <th style={cell}>ロール</th>
+                <th style={cell}>招待日</th>
+                <th style={cell}>期限</th>
+                <th style={cell} />
+              </tr>
+            </thead>
+            <tbody>
+              {invites.map((i) => (
+                <tr key={i.id}>
+                  <td style={cell}>{i.email}</td>
+                  <td style={cell}>{ROLE_LABELS[i.role] ?? i.role}</td>
+                  <td style={cell}>{fmtTs(i.created_at)}</td>
+                  <td style={cell}>{fmtTs(i.expires_at)}</td>
+                  <td style={cell}>
+                    <button onClick={() => cancelInvite(i.id)} disabled={busy}>取消</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <h3 style={{ fontWeight: 700, margin: "8px 0" }}>メンバー（{members.length}）</h3>
+      <table style={{ borderCollapse: "collapse", width: "100%" }}>
+        <thead>
+          <tr>
+            <th style={cell}>名前</th>
+            <th style={cell}>メール</th>
+            <th style={cell}>ロール</th>
+            <th style={cell}>状態</th>
+            <th style={cell}>参加日</th>
+            <th style={cell} />
+          </tr>
+        </thead>
+        <tbody>
+          {members.map((m) => {
+            const self = m.uid === me;
+            const suspended = m.status === "suspended";
+            return (
+              <tr key={m.uid} style={{ opacity: suspended ? 0.6 : 1 }}>
+                <td style={cell}>{m.display_name || "—"}{self && "（自分）"}</td>
+                <td style={cell}>{m.email}</td>
+                <td style={cell}>
+                  <select
+                    value={m.role}
+                    disabled={busy || self}
+                    onChange={(e) => patchMember(m.uid, { role: e.target.value as Role })}
+                  >
+                    {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                </td>
+                <td style={cell}>{suspended ? "停止中" : "有効"}</td>
+                <td style={cell}>{fmtTs(m.joined_at)}</td>
+                <td style={{ ...cell, display: "flex", gap: 6 }}>
+                  {suspended ? (
+                    <button onClick={() => patchMember(m.uid, { status: "active" })} disabled={busy || self}>再開</button>
+                  ) : (
+                    <button onClick={() => suspend(m)} disabled={busy || self}>停止</button>
+                  )}
+                  <button onClick={() => revoke(m)} disabled={busy || self} title="発行済みのログインを無効化">
+                    ログイン無効化
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p style={{ fontSize: 12, color: "#6b7280", marginTop: 8 }}>
+        ロールの変更は対象ユーザーの次回トークン更新（最長 1 時間）から有効になります。
+      </p>
+    </div>
+  );
+}
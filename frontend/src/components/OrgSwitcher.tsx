@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { auth } from '../lib/firebase';
+import { flushOutbox, pendingCount } from '../lib/outbox';
+import { listOrgs, ROLE_LABELS, switchOrg, type OrgClaims, type OrgSummary } from '../lib/membership';
+
+type Props = {
+  claims: OrgClaims | null;
+  onSwitched: (c: OrgClaims | null) => void;
+};
+
+/** ヘッダーの組織切り替え（所属が 1 つなら組織名の表示のみ） */
+export default function OrgSwitcher({ claims, onSwitched }: Props) {
+  const [orgs, setOrgs] = useState<OrgSummary[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // 所属が変わったら（招待の引き換え・切り替え後）一覧を取り直す
+  const orgKey = claims ? Object.keys(claims.orgs).sort().join(',') : '';
+  useEffect(() => {
+    if (!orgKey || !navigator.onLine) return;
+    listOrgs().then(setOrgs).catch(() => setOrgs([]));
+  }, [orgKey]);
+
+  if (!claims) return null;
+  const current = orgs.find(o => o.org_id === claims.org_id);
+  const label = (o: OrgSummary) => `${o.name}（${ROLE_LABELS[o.role] ?? o.role}）`;
+
+  if (orgs.length < 2) {
+    return current ? <span style={{ fontSize: 13, color: '#4b5563' }}>🏢 {label(current)}</span> : null;
+  }
+
+  async function handleChange(orgId: string) {
+    const user = auth.currentUser;
+    if (!user || orgId === claims!.org_id) return;
+    setBusy(true);
+    try {
+      // 前の組織の未送信分は切り替え前に送る（切り替え後のトークンでは送れない）
+      await flushOutbox().catch(() => 0);
+      const left = await pendingCount(claims!.org_id);
+      const msg = left
+        ? `未送信の日報が ${left} 件あります。切り替えると破棄されます。切り替えますか？`
+        : '組織を切り替えます。この端末に保存した地図・データは削除されます。よろしいですか？';
+      if (!confirm(msg)) return;
+      onSwitched(await switchOrg(user, orgId));
+    } catch (e: any) {
+      alert('組織の切り替えに失敗しました: ' + (e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <select
+      value={claims.org_id}
+      onChange={e => handleChange(e.target.value)}
+      disabled={busy || !navigator.onLine}
+      title={navigator.onLine ? '組織の切り替え' : 'オフライン中は切り替えできません'}
+    >
+      {orgs.map(o => <option key={o.org_id} value={o.org_id}>{label(o)}</option>)}
+    </select>
+  );
+}
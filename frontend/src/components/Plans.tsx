@@ -2,6 +2,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { auth } from "../lib/firebase";
 import { authFetch } from "../lib/authFetch";
+import { markOnlineData, offlinePlans } from "../lib/offlineData";
 
 // サーバーの Plan スキーマに合わせた型
 type Plan = {
@@ -31,6 +32,9 @@ export default function Plans() {
   const [busy, setBusy] = useState(false);
   const [orgId, setOrgId] = useState<string | undefined>(undefined);
   const [limit, setLimit] = useState<number>(200);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // 圏外で保存済みスナップショットを表示しているときの保存時刻
+  const [offlineAt, setOfflineAt] = useState<number | null>(null);
 
   // 追加フォーム
   const [f, setF] = useState<Partial<Plan> & { task_type?: string; assignee?: string }>({
@@ -50,8 +54,20 @@ export default function Plans() {
   // limit 変更時に再取得
   useEffect(() => { reload(limit); /* eslint-disable-next-line react-hooks/exhaustive-deps */ }, [limit]);
 
-  async function reload(lim = 200) {
-    const res = await authFetch<{ items: any[] }>(`/api/plans?limit=${encodeURIComponent(lim)}`);
+  async function fetchPage(lim: number, cursor?: string | null) {
+    let res: { items: any[]; next_cursor?: string | null };
+    if (!navigator.onLine) {
+      // 圏外：保存済みスナップショット（lib/offlineData）を一括で返す
+      const snap = await offlinePlans();
+      res = { items: snap?.items ?? [], next_cursor: null };
+      setOfflineAt(snap?.saved_at ?? null);
+    } else {
+      const qs = new URLSearchParams({ limit: String(lim) });
+      if (cursor) qs.set("cursor", cursor);
+      res = await authFetch<{ items: any[]; next_cursor?: string | null }>(`/api/plans?${qs.toString()}`);
+      markOnlineData();
+      setOfflineAt(null);
+    }
     const rows: Plan[] = (res.items || []).map((x) => ({
       id: String(x.id),
       name: String(x.name ?? ""),
@@ -62,8 +78,32 @@ export default function Plans() {
       status_pct: typeof x.status_pct === "number" ? x.status_pct : 0,
       created_at: x.created_at,
     }));
+    return { rows, next: res.next_cursor ?? null };
+  }
+
+  async function reload(lim = 200) {
+    const { rows, next } = await fetchPage(lim);
     rows.sort((a, b) => (b.created_at?.seconds || 0) - (a.created_at?.seconds || 0));
     setItems(rows);
+    setNextCursor(next);
+  }
+
+  // 続きを取得（next_cursor）
+  const [loadingMore, setLoadingMore] = useState(false);
+  async function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const { rows, next } = await fetchPage(limit, nextCursor);
+      setItems((arr) => {
+        const seen = new Set(arr.map((p) => p.id));
+        return [...arr, ...rows.filter((p) => !seen.has(p.id))];
+      });
+      setNextCursor(next);
+    } catch (e: any) {
+      alert("読み込みに失敗しました: " + (e?.message || e));
+      console.error(e);
+    } finally { setLoadingMore(false); }
   }
 
   // 追加
@@ -159,6 +199,11 @@ export default function Plans() {
   return (
     <div style={{ padding: 16 }}>
       <h2 style={{ fontSize: 26, fontWeight: 700, marginBottom: 12 }}>施業計画</h2>
+      {offlineAt != null && (
+        <div style={{ color: "#b45309", marginBottom: 8 }}>
+          オフラインデータ（{new Date(offlineAt).toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" })} 時点）を表示しています
+        </div>
+      )}
 
       {/* 追加フォーム */}
       <div style={{ display: "grid", gridTemplateColumns: "1.2fr 1.6fr 1fr 1fr 1fr 120px 92px", gap: 8, marginBottom: 12 }}>
@@ -203,6 +248,14 @@ export default function Plans() {
       {view === "table" && <TableView rows={filtered} onUpdate={patchPlan} onRemove={remove} />}
       {view === "kanban" && <KanbanView rows={filtered} onUpdate={patchPlan} />}
       {view === "gantt" && <GanttMini rows={filtered} />}
+
+      {nextCursor && (
+        <div style={{ marginTop: 12, textAlign: "center" }}>
+          <button onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? "読み込み中..." : `さらに読み込む（${items.length} 件表示中）`}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,17 +1,8 @@
 // frontend/src/components/Reports.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { auth, db, storage } from "../lib/firebase";
-import { authFetch } from "../lib/authFetch";
-import {
-  addDoc,
-  collection,
-  onSnapshot,
-  serverTimestamp,
-  query,
-  where,
-  orderBy,
-  limit,
-} from "firebase/firestore";
+import { authFetch, authFetchRaw } from "../lib/authFetch";
+import { addDoc, collection, serverTimestamp } from "firebase/firestore";
 import { ref as sref, uploadBytesResumable, getDownloadURL } from "firebase/storage";
 import { toast } from "react-hot-toast";
 
@@ -20,27 +11,38 @@ import { MapContainer, TileLayer, Polyline } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 
 // ★ submitToOutbox ではなく submitReport を使う（オフラインキュー）
-import { submitReport } from "../lib/outbox";
+import {
+  discardItem,
+  listRejected,
+  OUTBOX_EVENT,
+  submitReport,
+  type RejectedReport,
+} from "../lib/outbox";
+import { parseTrackFile, simplifyTrack } from "../lib/trackImport";
 
 /* ----------------------------- 型 ----------------------------- */
 type LatLng = { lat: number; lng: number; t: number };
 type Photo = { name: string; path: string; url: string; size: number; type: string };
-type ReportDoc = {
+/** GET /api/reports の 1 件（Timestamp は JSON で { _seconds } になる） */
+type ReportItem = {
   id: string;
-  body: string;
-  points: LatLng[];
-  photos: Photo[];
-  created_at?: any;
-  started_at?: any;
-  ended_at?: any;
-  duration_ms?: number | null;
-  author?: string | null;
-  report_id?: string;
+  work_date: string;
+  task_code: string;
+  output_value?: number | null;
+  unit?: string | null;
+  note?: string | null;
+  created_at?: { _seconds?: number; seconds?: number } | null;
 };
 
 /* ------------------------- ユーティリティ ------------------------- */
 const toYMD = (d: Date) => d.toISOString().slice(0, 10);
 
+/** 送信する JSON の上限（API の本文 1MB・Firestore の文書 1MiB より余裕を見て） */
+const MAX_PAYLOAD_BYTES = 900 * 1024;
+/** 一覧の 1 ページの件数 */
+const REPORTS_PAGE = 20;
+const byteLength = (s: string) => new TextEncoder().encode(s).length;
+
 /** Haversine による折れ線距離（km） */
 function distanceKmOf(poly: LatLng[]): number {
   if (poly.length < 2) return 0;
@@ -94,6 +96,99 @@ function MiniRouteMap({ pts }: { pts: LatLng[] }) {
   );
 }
 
+/* ------------------------ 軌跡の書き出し ------------------------ */
+type TrackFormat = "gpx" | "kml" | "geojson";
+
+/** /api/tracks/export を取得してファイルとして保存 */
+async function downloadTrack(reportId: string, format: TrackFormat) {
+  try {
+    const qs = new URLSearchParams({ report_id: reportId, format });
+    const res = await authFetchRaw(`/api/tracks/export?${qs}`);
+    if (res.status === 404) return toast.error("この日報には軌跡がありません。");
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `report_${reportId}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  } catch (e: any) {
+    toast.error("軌跡の取得に失敗しました: " + (e?.message ?? e));
+  }
+}
+
+/* ------------------------ サブ：変更履歴 ------------------------ */
+type Revision = {
+  rev: number;
+  action: "create" | "update" | "delete";
+  changes: Record<string, { before: any; after: any }>;
+  by: string;
+  at?: { _seconds?: number; seconds?: number } | null;
+};
+
+const ACTION_LABEL: Record<Revision["action"], string> = { create: "作成", update: "修正", delete: "削除" };
+
+/** 変更前後の値の表示（Timestamp は JSON で { _seconds } になる） */
+function fmtValue(v: any) {
+  if (v == null) return "—";
+  if (typeof v !== "object") return String(v);
+  if (v._seconds != null) return new Date(v._seconds * 1000).toLocaleString();
+  return JSON.stringify(v);
+}
+
+function ReportHistory({ reportId }: { reportId: string }) {
+  const [items, setItems] = useState<Revision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    authFetch<{ items: Revision[] }>(`/api/reports/${encodeURIComponent(reportId)}/revisions`)
+      .then((r) => alive && setItems(r.items))
+      .catch((e) => alive && setError(e?.message ?? String(e)));
+    return () => {
+      alive = false;
+    };
+  }, [reportId]);
+
+  if (error) return <div style={{ color: "#b91c1c", fontSize: 12 }}>履歴を取得できません: {error}</div>;
+  if (!items) return <div style={{ color: "#888", fontSize: 12 }}>読み込み中…</div>;
+  if (!items.length) return <div style={{ color: "#888", fontSize: 12 }}>履歴はありません</div>;
+
+  return (
+    <div style={{ display: "grid", gap: 8, marginTop: 8 }}>
+      {items.map((r) => {
+        const sec = r.at?._seconds ?? r.at?.seconds;
+        return (
+          <div key={r.rev} style={{ borderLeft: "3px solid #e5e7eb", paddingLeft: 8, fontSize: 12 }}>
+            <div style={{ color: "#555" }}>
+              <b>#{r.rev} {ACTION_LABEL[r.action] ?? r.action}</b>
+              {" ・ "}
+              {sec ? new Date(sec * 1000).toLocaleString() : "—"}
+              {" ・ "}
+              {r.by}
+            </div>
+            {r.action !== "create" && (
+              <table style={{ borderCollapse: "collapse", marginTop: 4 }}>
+                <tbody>
+                  {Object.entries(r.changes ?? {}).map(([k, c]) => (
+                    <tr key={k}>
+                      <td style={{ padding: "2px 8px 2px 0", color: "#666" }}>{k}</td>
+                      <td style={{ padding: "2px 8px", textDecoration: "line-through", color: "#999" }}>
+                        {fmtValue(c.before)}
+                      </td>
+                      <td style={{ padding: "2px 0" }}>→ {fmtValue(c.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 /* ------------------------------ 本体 ------------------------------ */
 export default function Reports() {
   // 入力
@@ -106,6 +201,8 @@ export default function Reports() {
   const [watching, setWatching] = useState(false);
   const watchIdRef = useRef<number | null>(null);
   const [startedAt, setStartedAt] = useState<number | null>(null);
+  // GPX/KML から読み込んだ軌跡のファイル名（GPS 記録中は null）
+  const [importedFrom, setImportedFrom] = useState<string | null>(null);
 
   // org_id（購読/保存）
   const [orgId, setOrgId] = useState<string | null>(null);
@@ -146,6 +243,12 @@ export default function Reports() {
 
   const startGPS = () => {
     if (watchIdRef.current != null) return;
+    if (importedFrom) {
+      // 読み込んだ軌跡に GPS の点を継ぎ足さない
+      setPoints([]);
+      setStartedAt(null);
+      setImportedFrom(null);
+    }
     if (!navigator.geolocation) return toast.error("この端末では位置情報が使えません。");
     const id = navigator.geolocation.watchPosition(
       (p) =>
@@ -169,6 +272,23 @@ export default function Reports() {
   };
   useEffect(() => () => stopGPS(), []);
 
+  // GPS 機の GPX / KML を読み込み（記録中の点列は置き換える）
+  const importTrack = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const tr = await parseTrackFile(file);
+      if (points.length && !confirm("記録中の GPS ルートを読み込んだ軌跡で置き換えます。よろしいですか？")) return;
+      stopGPS();
+      setPoints(tr.points);
+      setStartedAt(tr.points[0].t);
+      setImportedFrom(file.name);
+      const thinned = tr.raw_count > tr.points.length ? `（${tr.raw_count} 点から間引き）` : "";
+      toast.success(`${tr.points.length} 点を読み込みました${thinned}${tr.timed ? "" : "（時刻なし：開始・終了は推定）"}`);
+    } catch (e: any) {
+      toast.error("軌跡ファイルを読み込めません: " + (e?.message ?? e));
+    }
+  };
+
   // 下書き自動保存
   useEffect(() => {
     const tick = setInterval(() => {
@@ -201,25 +321,65 @@ export default function Reports() {
   // 直線合計距離
   const distanceKm = useMemo(() => distanceKmOf(points), [points]);
 
-  // 一覧（同一 org のみ）
-  const [items, setItems] = useState<ReportDoc[]>([]);
+  // 一覧（GET /api/reports。選択中の組織の日報を work_date の新しい順に next_cursor でたどる）
+  const [items, setItems] = useState<ReportItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // 履歴を開いているカード（report_id）
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const fetchReports = (cursor?: string | null) => {
+    const qs = new URLSearchParams({ limit: String(REPORTS_PAGE) });
+    if (cursor) qs.set("cursor", cursor);
+    return authFetch<{ items: ReportItem[]; next_cursor?: string | null }>(`/api/reports?${qs}`);
+  };
+
+  const reloadReports = async () => {
+    try {
+      const res = await fetchReports();
+      setItems(res.items ?? []);
+      setNextCursor(res.next_cursor ?? null);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const loadMoreReports = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetchReports(nextCursor);
+      setItems((arr) => {
+        const seen = new Set(arr.map((r) => r.id));
+        return [...arr, ...(res.items ?? []).filter((r) => !seen.has(r.id))];
+      });
+      setNextCursor(res.next_cursor ?? null);
+    } catch (e: any) {
+      toast.error("読み込みに失敗しました: " + (e?.message ?? e));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   useEffect(() => {
     if (!orgId) {
       setItems([]);
+      setNextCursor(null);
       return;
     }
-    const qy = query(
-      collection(db, "work_reports"),
-      where("org_id", "==", orgId),
-      orderBy("created_at", "desc"),
-      limit(50)
-    );
-    const unsub = onSnapshot(qy, (snap) =>
-      setItems(snap.docs.map((d) => ({ id: d.id, ...(d.data() as any) })))
-    );
-    return () => unsub();
+    reloadReports();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [orgId]);
 
+  // 差し戻された未送信分（自動では再送されないため理由を見せて破棄してもらう）
+  const [rejected, setRejected] = useState<RejectedReport[]>([]);
+  useEffect(() => {
+    const load = () => listRejected().then(setRejected).catch(() => setRejected([]));
+    load();
+    window.addEventListener(OUTBOX_EVENT, load);
+    return () => window.removeEventListener(OUTBOX_EVENT, load);
+  }, []);
+
   // 送信
   const [busy, setBusy] = useState(false);
   const onSubmit = async () => {
@@ -241,6 +401,7 @@ export default function Reports() {
       }
       try {
         await submitReport({
+          org_id: orgId,
           work_date: workDate,
           task_code: "現地確認",
           output_value: distance,
@@ -251,6 +412,7 @@ export default function Reports() {
         setFiles([]);
         setPoints([]);
         setStartedAt(null);
+        setImportedFrom(null);
         localStorage.removeItem("report_draft");
         toast.success("送信キューに登録しました。オンラインで自動送信します。");
       } catch (e: any) {
@@ -260,6 +422,24 @@ export default function Reports() {
       return;
     }
 
+    // ---- 軌跡（GPS 記録も上限まで間引く）。日報を作る前に送れる大きさか確かめる ----
+    const track = simplifyTrack(points);
+    const trackBody = (report_id: string) =>
+      JSON.stringify({
+        report_id,
+        geom: { type: "LineString", coordinates: track.map((p) => [p.lng, p.lat]) },
+        start: new Date(startMs).toISOString(),
+        end: new Date(endMs).toISOString(),
+        length_m: Math.round(distance * 1000),
+        times: track.map((p) => new Date(p.t).toISOString()),
+      });
+    if (
+      (track.length >= 2 && byteLength(trackBody("x".repeat(40))) > MAX_PAYLOAD_BYTES) ||
+      byteLength(JSON.stringify({ body: body.trim(), points: track })) > MAX_PAYLOAD_BYTES
+    ) {
+      return toast.error("本文または軌跡が大きすぎて送信できません。本文を短くするか、軌跡を分けてください。");
+    }
+
     // ---- オンライン送信（写真アップロード対応）----
     try {
       setBusy(true);
@@ -322,21 +502,11 @@ export default function Reports() {
       });
 
       // 3) /api/tracks（2点以上のとき）
-      if (points.length >= 2) {
-        const geom = {
-          type: "LineString" as const,
-          coordinates: points.map((p) => [p.lng, p.lat] as [number, number]),
-        };
+      if (track.length >= 2) {
         await authFetch("/api/tracks", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            report_id,
-            geom,
-            start: new Date(startMs).toISOString(),
-            end: new Date(endMs).toISOString(),
-            length_m: Math.round(distance * 1000),
-          }),
+          body: trackBody(report_id),
         });
       }
 
@@ -344,12 +514,12 @@ export default function Reports() {
       await addDoc(collection(db, "work_reports"), {
         body: body.trim(),
         photos,
-        points,
+        points: track,
         author: user.uid,
         org_id: orgIdToken,
         started_at: startedAt ? new Date(startedAt) : null,
-        ended_at: new Date(),
-        duration_ms: startedAt ? Date.now() - startedAt : null,
+        ended_at: importedFrom ? new Date(endMs) : new Date(),
+        duration_ms: importedFrom ? endMs - startMs : startedAt ? Date.now() - startedAt : null,
         created_at: serverTimestamp(),
         report_id,
       });
@@ -359,9 +529,11 @@ export default function Reports() {
       setFiles([]);
       setPoints([]);
       setStartedAt(null);
+      setImportedFrom(null);
       setUploadPct(0);
       localStorage.removeItem("report_draft");
       toast.success("送信しました");
+      reloadReports();
     } catch (e: any) {
       console.error(e);
       toast.error(e?.message ?? "送信に失敗しました。");
@@ -416,6 +588,30 @@ export default function Reports() {
             {files.length ? `${files.length} 件選択` : "ファイルが選択されていません"}
           </span>
 
+          <label>
+            <span
+              style={{
+                padding: "6px 10px",
+                border: "1px solid #ddd",
+                borderRadius: 8,
+                background: "#fff",
+                cursor: "pointer",
+              }}
+            >
+              GPX/KML読込
+            </span>
+            <input
+              type="file"
+              accept=".gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                importTrack(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {importedFrom && <span style={{ color: "#666" }}>{importedFrom}</span>}
+
           {!watching && <button onClick={startGPS}>GPS開始</button>}
           {watching && <button onClick={stopGPS}>GPS停止</button>}
           <span>記録点: {points.length}（約 {distanceKm.toFixed(2)} km）</span>
@@ -440,52 +636,79 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* 差し戻し */}
+      {rejected.length > 0 && (
+        <div style={{ border: "1px solid #fecaca", background: "#fef2f2", borderRadius: 12, padding: 12, marginBottom: 16 }}>
+          <div style={{ fontWeight: 700, color: "#b91c1c", marginBottom: 6 }}>
+            送信できなかった日報 {rejected.length} 件（内容に誤りがあるため再送しません）
+          </div>
+          <div style={{ display: "grid", gap: 6 }}>
+            {rejected.map((r) => (
+              <div key={r.key} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                <span style={{ flex: 1 }}>
+                  {r.data?.work_date ?? "—"} {r.data?.note ? `「${String(r.data.note).slice(0, 30)}」` : ""}
+                  <span style={{ color: "#b91c1c" }}> … {r.error}</span>
+                </span>
+                <button
+                  onClick={() => confirm("この日報を破棄しますか？") && discardItem(r.key)}
+                  style={{ fontSize: 12 }}
+                >
+                  破棄
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* 一覧 */}
       <h3 style={{ fontSize: 18, fontWeight: 700, margin: "12px 0 8px" }}>直近の投稿</h3>
       <div style={{ display: "grid", gap: 12 }}>
-        {items.map((r) => (
-          <div key={r.id} style={{ border: "1px solid #eee", borderRadius: 10, padding: 10 }}>
-            <div style={{ fontSize: 12, color: "#666" }}>
-              {r.created_at?.toDate ? r.created_at.toDate().toLocaleString() : "—"}
-            </div>
-            <div style={{ whiteSpace: "pre-wrap", margin: "6px 0" }}>
-              {r.body || "（本文なし）"}
-            </div>
-
-            {/* 写真プレビュー */}
-            {r.photos?.length ? (
-              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                {r.photos.slice(0, 4).map((p, i) => (
-                  <img
-                    key={i}
-                    src={p.url}
-                    alt={p.name}
-                    style={{
-                      width: 120,
-                      height: 80,
-                      objectFit: "cover",
-                      borderRadius: 6,
-                      border: "1px solid #eee",
-                    }}
-                  />
-                ))}
+        {items.map((r) => {
+          const sec = r.created_at?._seconds ?? r.created_at?.seconds;
+          return (
+            <div key={r.id} style={{ border: "1px solid #eee", borderRadius: 10, padding: 10 }}>
+              <div style={{ fontSize: 12, color: "#666", display: "flex", gap: 8 }}>
+                <span style={{ fontWeight: 600, color: "#333" }}>{r.work_date}</span>
+                <span>{r.task_code}</span>
+                {r.output_value != null && (
+                  <span>
+                    {r.output_value} {r.unit ?? ""}
+                  </span>
+                )}
+                <span style={{ marginLeft: "auto" }}>{sec != null ? new Date(sec * 1000).toLocaleString() : "—"}</span>
               </div>
-            ) : null}
-
-            {/* ルートプレビュー */}
-            {r.points?.length ? (
-              <div style={{ marginTop: 8 }}>
-                <MiniRouteMap pts={r.points} />
+              <div style={{ whiteSpace: "pre-wrap", margin: "6px 0" }}>
+                {r.note || "（本文なし）"}
               </div>
-            ) : null}
 
-            <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
-              位置点 {r.points?.length ?? 0}・写真 {r.photos?.length ?? 0}
-              {r.report_id ? ` ／ report_id: ${r.report_id}` : ""}
+              <div style={{ fontSize: 12, color: "#666", marginTop: 6, display: "flex", gap: 8, alignItems: "center" }}>
+                <span>report_id: {r.id}</span>
+                <span style={{ marginLeft: "auto", display: "flex", gap: 4 }}>
+                  軌跡
+                  {(["gpx", "kml", "geojson"] as const).map((fmt) => (
+                    <button key={fmt} onClick={() => downloadTrack(r.id, fmt)} style={{ fontSize: 12 }}>
+                      {fmt === "geojson" ? "GeoJSON" : fmt.toUpperCase()}
+                    </button>
+                  ))}
+                </span>
+                <button
+                  onClick={() => setHistoryFor((v) => (v === r.id ? null : r.id))}
+                  style={{ fontSize: 12 }}
+                >
+                  {historyFor === r.id ? "履歴を閉じる" : "変更履歴"}
+                </button>
+              </div>
+              {historyFor === r.id && <ReportHistory reportId={r.id} />}
             </div>
-          </div>
-        ))}
+          );
+        })}
         {!items.length && <div style={{ color: "#888" }}>まだ投稿がありません</div>}
+        {nextCursor && (
+          <button onClick={loadMoreReports} disabled={loadingMore}>
+            {loadingMore ? "読み込み中..." : `さらに読み込む（${items.length} 件表示中）`}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,81 @@
+// frontend/src/components/map/AuthTileLayer.tsx
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import { authFetchRaw } from "../../lib/authFetch";
+
+/**
+ * 認証付きタイルプロキシ（/api/tiles/...）用のタイルレイヤ。
+ * <img src> では Authorization ヘッダを送れないため、fetch → blob URL で表示する。
+ */
+const AuthTile = L.TileLayer.extend({
+  createTile(coords: L.Coords, done: L.DoneCallback) {
+    const img = document.createElement("img");
+    img.alt = "";
+    img.setAttribute("role", "presentation");
+    const ctrl = new AbortController();
+    (img as any)._abort = ctrl;
+
+    authFetchRaw((this as L.TileLayer).getTileUrl(coords), { signal: ctrl.signal })
+      .then(async (r) => {
+        if (!r.ok) throw new Error(`${r.status}`);
+        const url = URL.createObjectURL(await r.blob());
+        img.onload = () => {
+          URL.revokeObjectURL(url);
+          done(undefined, img);
+        };
+        img.onerror = () => done(new Error("tile decode error"), img);
+        img.src = url;
+      })
+      .catch((e) => {
+        if (e?.name !== "AbortError") done(e, img);
+      });
+    return img;
+  },
+});
+
+type Props = {
+  url: string;
+  opacity?: number;
+  attribution?: string;
+  minZoom?: number;
+  maxZoom?: number;
+  /** 重ね順（大きいほど手前） */
+  zIndex?: number;
+};
+
+export default function AuthTileLayer({ url, opacity = 1, attribution, minZoom, maxZoom, zIndex }: Props) {
+  const map = useMap();
+  const ref = useRef<L.TileLayer | null>(null);
+
+  useEffect(() => {
+    const layer: L.TileLayer = new (AuthTile as any)(url, {
+      attribution,
+      // プロキシのズーム範囲外はリクエストしない（maxNativeZoom 以降は拡大表示）
+      minZoom: minZoom ?? 0,
+      maxNativeZoom: maxZoom,
+      maxZoom: 22,
+      // 作り直したとき（url の変更など）も現在の値で描く
+      opacity,
+      ...(zIndex !== undefined ? { zIndex } : {}),
+    });
+    // 画面外に出たタイルの取得は中断
+    layer.on("tileunload", (e: L.TileEvent) => (e.tile as any)._abort?.abort());
+    layer.addTo(map);
+    ref.current = layer;
+    return () => {
+      layer.remove();
+      ref.current = null;
+    };
+  }, [map, url, attribution, minZoom, maxZoom]);
+
+  useEffect(() => {
+    ref.current?.setOpacity(opacity);
+  }, [opacity]);
+
+  useEffect(() => {
+    if (zIndex !== undefined) ref.current?.setZIndex(zIndex);
+  }, [zIndex]);
+
+  return null;
+}
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  fetchCapabilities,
+  importLayer,
+  type Capabilities,
+  type CapLayer,
+  type LayerConfig,
+} from '../../lib/layers';
+
+
+type Props = {
+  /** 取り込んだレイヤ（/config/layers と同じ形） */
+  onImported: (layer: LayerConfig) => void;
+  onClose?: () => void;
+  /** ヘッダと重ならないよう上方向のオフセット（px）。既定: 12 */
+  topOffset?: number;
+};
+
+// レイヤ名から登録簿の id の候補を作る（英小文字で始まる英小文字・数字・_ の 2〜40 文字）
+const suggestId = (name: string) => {
+  const s = name.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return (/^[a-z]/.test(s) ? s : `ext_${s}`).slice(0, 40);
+};
+
+
+/** 外部レイヤの取り込み（GetCapabilities の URL から WMS / WMTS のレイヤを選んで登録簿に追加） */
+export default function CapabilitiesImport({ onImported, onClose, topOffset = 12 }: Props) {
+  const [url, setUrl] = useState('');
+  const [caps, setCaps] = useState<Capabilities | null>(null);
+  const [picked, setPicked] = useState<CapLayer | null>(null);
+  const [style, setStyle] = useState('');
+  const [matrixSet, setMatrixSet] = useState('');
+  const [format, setFormat] = useState('');
+  const [id, setId] = useState('');
+  const [label, setLabel] = useState('');
+  const [group, setGroup] = useState('外部');
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await fn();
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const load = () =>
+    run(async () => {
+      setCaps(null);
+      setPicked(null);
+      setCaps(await fetchCapabilities(url.trim()));
+    });
+
+  const pick = (l: CapLayer) => {
+    setPicked(l);
+    setStyle(caps?.service === 'WMTS' ? (l.styles.find(s => s.default) ?? l.styles[0])?.name ?? '' : '');
+    // Web メルカトルのマトリクスセットを優先
+    const sets = caps?.tile_matrix_sets ?? [];
+    const links = l.tile_matrix_sets ?? [];
+    setMatrixSet(links.find(s => sets.find(x => x.id === s)?.web_mercator) ?? links[0] ?? '');
+    setFormat(l.formats.find(f => f === 'image/png') ?? l.formats[0] ?? '');
+    setId(suggestId(l.name));
+    setLabel(l.title);
+  };
+
+  const submit = () =>
+    run(async () => {
+      const created = await importLayer({
+        url: url.trim(),
+        layer: picked!.name,
+        ...(style ? { style } : {}),
+        ...(matrixSet ? { tile_matrix_set: matrixSet } : {}),
+        ...(format ? { format } : {}),
+        id,
+        ...(label.trim() ? { label: label.trim() } : {}),
+        ...(group.trim() ? { group: group.trim() } : {}),
+      });
+      onImported(created);
+      setPicked(null);
+    });
+
+  const linkedSets = (caps?.tile_matrix_sets ?? []).filter(s => picked?.tile_matrix_sets?.includes(s.id));
+
+  return (
+    <div style={{ ...panelStyle, top: topOffset }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <h3 style={{ fontWeight: 600, margin: 0, flex: 1 }}>外部レイヤの取り込み</h3>
+        {onClose && <button onClick={onClose} title="閉じる">×</button>}
+      </div>
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        <input
+          type="url"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          placeholder="GetCapabilities の URL（https://…）"
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <button onClick={load} disabled={busy || !url.trim()}>読込</button>
+      </div>
+      {err && <div style={{ color: '#b91c1c', fontSize: 12, marginBottom: 8 }}>{err}</div>}
+
+      {caps && !picked && (
+        <div>
+          <div style={{ fontSize: 12, color: '#666', marginBottom: 6 }}>
+            {caps.service} {caps.version}{caps.title ? ` ・ ${caps.title}` : ''}
+          </div>
+          {!caps.layers.length && <div style={{ fontSize: 13, color: '#666' }}>レイヤがありません</div>}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            {caps.layers.map(l => (
+              <button
+                key={l.name}
+                onClick={() => pick(l)}
+                disabled={!l.supported}
+                title={l.abstract ?? l.name}
+                style={{ textAlign: 'left', padding: '6px 8px' }}
+              >
+                <div>{l.title}</div>
+                <div style={{ fontSize: 11, color: '#666' }}>
+                  {l.name}
+                  {l.note ? ` ・ ${l.note}` : ''}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {caps && picked && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8, fontSize: 13 }}>
+          <div style={{ fontWeight: 600 }}>{picked.title}</div>
+          {picked.styles.length > 0 && (
+            <label style={fieldStyle}>
+              スタイル
+              <select value={style} onChange={e => setStyle(e.target.value)}>
+                {caps.service === 'WMS' && <option value="">（既定）</option>}
+                {picked.styles.map(s => <option key={s.name} value={s.name}>{s.title}</option>)}
+              </select>
+            </label>
+          )}
+          {caps.service === 'WMTS' && (
+            <label style={fieldStyle}>
+              タイルマトリクスセット
+              <select value={matrixSet} onChange={e => setMatrixSet(e.target.value)}>
+                {linkedSets.map(s => (
+                  <option key={s.id} value={s.id} disabled={!s.web_mercator}>
+                    {s.id}
+                    {s.web_mercator ? ` (z${s.web_mercator.min_zoom}–${s.web_mercator.max_zoom})` : '（非対応）'}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {picked.formats.length > 1 && (
+            <label style={fieldStyle}>
+              形式
+              <select value={format} onChange={e => setFormat(e.target.value)}>
+                {picked.formats.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </label>
+          )}
+          <label style={fieldStyle}>
+            id
+            <input value={id} onChange={e => setId(e.target.value)} />
+          </label>
+          <label style={fieldStyle}>
+            表示名
+            <input value={label} onChange={e => setLabel(e.target.value)} />
+          </label>
+          <label style={fieldStyle}>
+            グループ
+            <input value={group} onChange={e => setGroup(e.target.value)} />
+          </label>
+          <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+            <button onClick={() => setPicked(null)} disabled={busy}>戻る</button>
+            <button onClick={submit} disabled={busy || !id}>追加</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const fieldStyle: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: 2 };
+
+const panelStyle: React.CSSProperties = {
+  position: 'absolute',
+  right: 12,
+  zIndex: 1050,
+  width: 320,
+  maxHeight: '70vh',
+  overflowY: 'auto',
+  padding: 12,
+  background: '#fff',
+  border: '1px solid #e5e7eb',
+  borderRadius: 10,
+  boxShadow: '0 6px 18px rgba(0,0,0,.08)',
+};
@@ -3,43 +3,85 @@ import type { MapLayer } from '../../types/map';
 
 
 type Props = {
-layers: MapLayer[];
-onToggle: (id: string, visible: boolean) => void;
-onOpacity: (id: string, opacity: number) => void;
-onMove: (id: string, dir: 'up' | 'down') => void;
+  /** 上から順に手前に描く */
+  layers: MapLayer[];
+  onToggle: (id: string, visible: boolean) => void;
+  onOpacity: (id: string, opacity: number) => void;
+  onMove: (id: string, dir: 'up' | 'down') => void;
+  onClose?: () => void;
+  /** 指定時のみ「外部レイヤを追加」を出す（管理者） */
+  onImport?: () => void;
+  /** ヘッダと重ならないよう上方向のオフセット（px）。既定: 12 */
+  topOffset?: number;
 };
 
 
-export default function LayerManager({ layers, onToggle, onOpacity, onMove }: Props) {
-const groups: Record<string, MapLayer[]> = { '基図': [], 'ラスタ': [], 'ベクタ': [] };
-for (const l of layers) groups[l.group].push(l);
+/** レイヤ詳細（グループはレイヤ登録簿の group。出現順に並べる） */
+export default function LayerManager({
+  layers, onToggle, onOpacity, onMove, onClose, onImport, topOffset = 12,
+}: Props) {
+  const groups = new Map<string, MapLayer[]>();
+  for (const l of layers) groups.set(l.group, [...(groups.get(l.group) ?? []), l]);
 
+  return (
+    <div style={{ ...panelStyle, top: topOffset }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <h3 style={{ fontWeight: 600, margin: 0, flex: 1 }}>レイヤ</h3>
+        {onImport && <button onClick={onImport} title="WMS / WMTS のレイヤを追加">外部レイヤを追加</button>}
+        {onClose && <button onClick={onClose} title="閉じる">×</button>}
+      </div>
+      {!layers.length && <div style={{ fontSize: 13, color: '#666' }}>利用できるレイヤがありません</div>}
+      {[...groups].map(([group, arr]) => (
+        <div key={group} style={{ marginBottom: 12 }}>
+          <div style={{ fontSize: 12, color: '#666', marginBottom: 6 }}>{group}</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+            {arr.map(l => (
+              <div key={l.id}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <input type="checkbox" checked={l.visible} onChange={e => onToggle(l.id, e.target.checked)} />
+                  <div style={{ flex: 1 }}>{l.name}</div>
+                  <button title="上へ" onClick={() => onMove(l.id, 'up')}>↑</button>
+                  <button title="下へ" onClick={() => onMove(l.id, 'down')}>↓</button>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginLeft: 24 }}>
+                  <input type="range" min={0} max={1} step={0.05} value={l.opacity}
+                    onChange={e => onOpacity(l.id, Number(e.target.value))} />
+                  <span style={{ width: 36, textAlign: 'right' }}>{Math.round(l.opacity * 100)}%</span>
+                </div>
+                {l.visible && l.legend && <LayerLegendView legend={l.legend} />}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
 
-return (
-<div style={{ width: 280, padding: 12 }}>
-<h3 style={{ fontWeight: 600, marginBottom: 8 }}>レイヤ</h3>
-{Object.entries(groups).map(([group, arr]) => (
-<div key={group} style={{ marginBottom: 12 }}>
-<div style={{ fontSize: 12, color: '#666', marginBottom: 6 }}>{group}</div>
-<div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-{arr.map(l => (
-<div key={l.id} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-<input type="checkbox" checked={l.visible} onChange={e => onToggle(l.id, e.target.checked)} />
-<div style={{ flex: 1 }}>{l.name}</div>
-<button title="上へ" onClick={() => onMove(l.id, 'up')}>↑</button>
-<button title="下へ" onClick={() => onMove(l.id, 'down')}>↓</button>
-</div>
-))}
-</div>
-{arr.map(l => (
-<div key={l.id+':op'} style={{ display: 'flex', alignItems: 'center', gap: 8, marginLeft: 24 }}>
-<input type="range" min={0} max={1} step={0.05} value={l.opacity}
-onChange={e => onOpacity(l.id, Number(e.target.value))} />
-<span style={{ width: 36, textAlign: 'right' }}>{Math.round(l.opacity * 100)}%</span>
-</div>
-))}
-</div>
-))}
-</div>
-);
+function LayerLegendView({ legend }: { legend: NonNullable<MapLayer['legend']> }) {
+  return (
+    <div style={{ marginLeft: 24, marginTop: 4 }}>
+      {legend.image_url && <img src={legend.image_url} alt="凡例" style={{ maxWidth: '100%' }} />}
+      {legend.items?.map(it => (
+        <div key={it.label} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+          <span style={{ width: 14, height: 10, background: it.color, border: '1px solid #999' }} />
+          <span>{it.label}</span>
+        </div>
+      ))}
+    </div>
+  );
 }
+
+const panelStyle: React.CSSProperties = {
+  position: 'absolute',
+  right: 12,
+  zIndex: 1050,
+  width: 280,
+  maxHeight: '70vh',
+  overflowY: 'auto',
+  padding: 12,
+  background: '#fff',
+  border: '1px solid #e5e7eb',
+  borderRadius: 10,
+  boxShadow: '0 6px 18px rgba(0,0,0,.08)',
+};
@@ -1,7 +1,8 @@
 import React from "react";
 
 export type BaseLayer = { id: string; label: string; active: boolean };
-export type OverlayLayer = { id: string; label: string; visible: boolean };
+/** group があれば、前の行と group が変わるところに見出しを付ける */
+export type OverlayLayer = { id: string; label: string; visible: boolean; group?: string };
 
 type Position = "top-left" | "top-right" | "bottom-left" | "bottom-right";
 
@@ -51,15 +52,18 @@ export default function LayerSwitcher({
 
       <div style={sectionStyle}>
         <div style={titleStyle}>オーバーレイ</div>
-        {overlays.map(o => (
-          <label key={o.id} style={rowStyle}>
-            <input
-              type="checkbox"
-              checked={o.visible}
-              onChange={e => onToggleOverlay(o.id, e.target.checked)}
-            />
-            <span>{o.label}</span>
-          </label>
+        {overlays.map((o, i) => (
+          <React.Fragment key={o.id}>
+            {o.group && o.group !== overlays[i - 1]?.group && <div style={groupStyle}>{o.group}</div>}
+            <label style={rowStyle}>
+              <input
+                type="checkbox"
+                checked={o.visible}
+                onChange={e => onToggleOverlay(o.id, e.target.checked)}
+              />
+              <span>{o.label}</span>
+            </label>
+          </React.Fragment>
         ))}
       </div>
 
@@ -81,4 +85,5 @@ const panelStyle: React.CSSProperties = {
 };
 const sectionStyle: React.CSSProperties = { marginBottom: 8 };
 const titleStyle: React.CSSProperties = { fontWeight: 700, marginBottom: 6 };
+const groupStyle: React.CSSProperties = { fontSize: 12, color: "#6b7280", marginTop: 4 };
 const rowStyle: React.CSSProperties = { display: "flex", gap: 8, alignItems: "center", padding: "3px 0" };
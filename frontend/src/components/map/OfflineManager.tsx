@@ -0,0 +1,338 @@
+// frontend/src/components/map/OfflineManager.tsx
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type BBox,
+  type BundleEstimate,
+  type OfflineArea,
+  type OfflineAreaRequest,
+  type Progress,
+  deleteArea,
+  downloadArea,
+  estimateArea,
+  listAreas,
+  refreshArea,
+  requestPersistentStorage,
+  storageQuota,
+} from "../../lib/offlineTiles";
+import { type DataPackMeta, deleteDataPack, listDataPacks, saveDataPack } from "../../lib/offlineData";
+
+type Props = {
+  /** 現在の表示範囲とズーム */
+  getView: () => { bbox: BBox; zoom: number } | null;
+  /** 直近に描いた図形（GeoJSON Feature）。Polygon / LineString のみ使う */
+  drawn?: any | null;
+  /** 保存できるレイヤ（/config/layers のキー） */
+  layers: string[];
+  onClose: () => void;
+  /** ヘッダー分のオフセット(px)。未指定なら 72 */
+  topOffset?: number;
+};
+
+const LAYER_LABELS: Record<string, string> = {
+  orthophoto: "航空写真",
+  dem: "DEM",
+  slope: "傾斜",
+  contour: "等高線",
+  canopy_surface: "樹冠高",
+  relative_stem_distance_ratio: "相対幹距比",
+  species_polygon: "樹種ポリゴン",
+};
+
+const fmtBytes = (n: number) =>
+  n >= 1024 ** 3 ? `${(n / 1024 ** 3).toFixed(2)} GB` : n >= 1024 ** 2 ? `${(n / 1024 ** 2).toFixed(1)} MB` : `${Math.round(n / 1024)} KB`;
+
+const fmtDate = (t: number) => new Date(t).toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+
+export default function OfflineManager({ getView, drawn, layers, onClose, topOffset = 72 }: Props) {
+  const [areas, setAreas] = useState<OfflineArea[]>([]);
+  const [quota, setQuota] = useState<{ usage: number; quota: number } | null>(null);
+  const [source, setSource] = useState<"view" | "drawn">("view");
+  const [name, setName] = useState("");
+  const [zmin, setZmin] = useState(() => Math.max(0, (getView()?.zoom ?? 14) - 2));
+  const [zmax, setZmax] = useState(() => Math.min(18, getView()?.zoom ?? 16));
+  const [selected, setSelected] = useState<string[]>(() => layers.filter((l) => l !== "species_polygon"));
+  const [includeBase, setIncludeBase] = useState(true);
+  const [includeData, setIncludeData] = useState(true);
+  const [packs, setPacks] = useState<DataPackMeta[]>([]);
+  const [estimate, setEstimate] = useState<BundleEstimate | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // 実行中の範囲 id（新規は "new"）
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const drawnGeom = drawn?.geometry;
+  const drawnOk = ["Polygon", "MultiPolygon", "LineString"].includes(drawnGeom?.type);
+
+  const reload = useCallback(async () => {
+    setAreas(await listAreas());
+    setPacks(await listDataPacks());
+    setQuota(await storageQuota());
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return () => abortRef.current?.abort();
+  }, [reload]);
+
+  const buildRequest = (): OfflineAreaRequest | null => {
+    const base = { zmin, zmax, layers: selected, includeBase };
+    if (source === "drawn") {
+      if (!drawnOk) return null;
+      return {
+        ...base,
+        name: name || `描画範囲 ${fmtDate(Date.now())}`,
+        area: drawnGeom,
+        ...(drawnGeom.type === "LineString" ? { buffer_m: 50 } : {}),
+      };
+    }
+    const v = getView();
+    if (!v) return null;
+    return { ...base, name: name || `表示範囲 ${fmtDate(Date.now())}`, bbox: v.bbox };
+  };
+
+  // 条件が変わったら見積りをやり直す
+  useEffect(() => {
+    setEstimate(null);
+    const req = buildRequest();
+    if (!req || !req.layers.length || zmax < zmin) return;
+    let alive = true;
+    const t = setTimeout(() => {
+      estimateArea(req)
+        .then((e) => alive && setEstimate(e))
+        .catch((e) => alive && setError(String(e?.message ?? e)));
+    }, 300);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source, zmin, zmax, selected.join(","), drawnGeom]);
+
+  const run = async (id: string, job: (onP: (p: Progress) => void, signal: AbortSignal) => Promise<unknown>) => {
+    setError(null);
+    setBusy(id);
+    setProgress(null);
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    try {
+      await requestPersistentStorage();
+      await job(setProgress, ctrl.signal);
+      setName("");
+    } catch (e: any) {
+      if (e?.name !== "AbortError") setError(String(e?.message ?? e));
+    } finally {
+      setBusy(null);
+      abortRef.current = null;
+      await reload();
+    }
+  };
+
+  const onSave = () => {
+    const req = buildRequest();
+    if (!req) return setError("範囲を取得できません");
+    if (!req.layers.length) return setError("レイヤを 1 つ以上選んでください");
+    if (quota && estimate && quota.usage + estimate.estimated_bytes > quota.quota) {
+      if (!confirm("空き容量が不足する可能性があります。続けますか？")) return;
+    }
+    run("new", async (onP, signal) => {
+      await downloadArea(req, onP, signal);
+      // 樹木・計画は外接矩形で保存（圏外時は表示範囲で絞り込むため）
+      if (includeData) await saveDataPack(req.name, requestBBox(req), undefined, signal);
+    });
+  };
+
+  const pct = progress?.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div style={{ ...panelStyle, top: topOffset }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <div style={{ fontWeight: 700 }}>オフライン地図</div>
+        <button onClick={onClose} style={btnStyle}>閉じる</button>
+      </div>
+
+      {/* 容量 */}
+      {quota && (
+        <div style={{ fontSize: 12, color: "#555", marginBottom: 8 }}>
+          使用量 {fmtBytes(quota.usage)} / 上限 {fmtBytes(quota.quota)}
+          <div style={barOuter}>
+            <div style={{ ...barInner, width: `${Math.min(100, (quota.usage / (quota.quota || 1)) * 100)}%` }} />
+          </div>
+        </div>
+      )}
+
+      {/* 新規保存 */}
+      <div style={sectionStyle}>
+        <div style={titleStyle}>範囲を保存</div>
+        <label style={rowStyle}>
+          <input type="radio" checked={source === "view"} onChange={() => setSource("view")} />
+          表示範囲
+        </label>
+        <label style={{ ...rowStyle, opacity: drawnOk ? 1 : 0.5 }}>
+          <input type="radio" disabled={!drawnOk} checked={source === "drawn"} onChange={() => setSource("drawn")} />
+          描いた範囲{drawnGeom?.type === "LineString" ? "（線の両側 50m）" : ""}
+          {!drawnOk && <span style={{ fontSize: 11, color: "#888" }}>（図形を描くと選べます）</span>}
+        </label>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="名前（任意）"
+          style={{ width: "100%", margin: "4px 0", padding: "4px 6px", border: "1px solid #e5e7eb", borderRadius: 6 }}
+        />
+        <div style={rowStyle}>
+          ズーム
+          <input type="number" min={0} max={20} value={zmin} onChange={(e) => setZmin(Number(e.target.value))} style={numStyle} />
+          〜
+          <input type="number" min={0} max={20} value={zmax} onChange={(e) => setZmax(Number(e.target.value))} style={numStyle} />
+        </div>
+        {layers.map((l) => (
+          <label key={l} style={rowStyle}>
+            <input
+              type="checkbox"
+              checked={selected.includes(l)}
+              onChange={(e) => setSelected((s) => (e.target.checked ? [...s, l] : s.filter((x) => x !== l)))}
+            />
+            {LAYER_LABELS[l] ?? l}
+          </label>
+        ))}
+        <label style={rowStyle}>
+          <input type="checkbox" checked={includeBase} onChange={(e) => setIncludeBase(e.target.checked)} />
+          背景地図（地理院）も保存
+        </label>
+        <label style={rowStyle}>
+          <input type="checkbox" checked={includeData} onChange={(e) => setIncludeData(e.target.checked)} />
+          樹木・計画データも保存
+        </label>
+
+        {estimate && (
+          <div style={{ fontSize: 12, color: "#555", margin: "4px 0" }}>
+            {estimate.tiles.toLocaleString()} タイル × レイヤ、約 {fmtBytes(estimate.estimated_bytes)}
+            <div style={{ color: "#888" }}>
+              {Object.entries(estimate.by_zoom)
+                .map(([z, n]) => `z${z}: ${n}`)
+                .join(" / ")}
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+          <button onClick={onSave} disabled={!!busy} style={btnStyle}>保存</button>
+          {busy && <button onClick={() => abortRef.current?.abort()} style={btnStyle}>中止</button>}
+        </div>
+
+        {busy && progress && (
+          <div style={{ fontSize: 12, marginTop: 6 }}>
+            {progress.done.toLocaleString()} / {progress.total.toLocaleString()}（{pct}%）・{fmtBytes(progress.bytes)}
+            {progress.failed ? `・失敗 ${progress.failed}` : ""}
+            <div style={barOuter}>
+              <div style={{ ...barInner, width: `${pct}%` }} />
+            </div>
+          </div>
+        )}
+        {error && <div style={{ color: "#b91c1c", fontSize: 12, marginTop: 6 }}>{error}</div>}
+      </div>
+
+      {/* 保存済み */}
+      <div style={sectionStyle}>
+        <div style={titleStyle}>保存済み（{areas.length}）</div>
+        {!areas.length && <div style={{ fontSize: 12, color: "#888" }}>まだありません</div>}
+        {areas.map((a) => (
+          <div key={a.id} style={{ borderTop: "1px solid #f3f4f6", padding: "6px 0" }}>
+            <div style={{ fontWeight: 600 }}>{a.name}</div>
+            <div style={{ fontSize: 12, color: "#555" }}>
+              z{a.zmin}–{a.zmax}・{a.saved.toLocaleString()} タイル・{fmtBytes(a.bytes)}
+              {a.failed ? `・失敗 ${a.failed}` : ""}
+              <br />
+              更新 {fmtDate(a.updated_at)}
+            </div>
+            <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+              <button
+                disabled={!!busy}
+                onClick={() => run(a.id, (onP, signal) => refreshArea(a.id, onP, signal))}
+                style={btnStyle}
+              >
+                {busy === a.id ? "更新中…" : "更新"}
+              </button>
+              <button
+                disabled={!!busy}
+                onClick={async () => {
+                  if (!confirm(`「${a.name}」を削除しますか？`)) return;
+                  await deleteArea(a.id);
+                  await reload();
+                }}
+                style={btnStyle}
+              >
+                削除
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 樹木・計画データ */}
+      <div style={sectionStyle}>
+        <div style={titleStyle}>樹木・計画データ（{packs.length}）</div>
+        {!packs.length && <div style={{ fontSize: 12, color: "#888" }}>まだありません</div>}
+        {packs.map((p) => (
+          <div key={p.id} style={{ borderTop: "1px solid #f3f4f6", padding: "6px 0", display: "flex", gap: 8 }}>
+            <div style={{ flex: 1, fontSize: 12, color: "#555" }}>
+              <div style={{ fontWeight: 600, color: "#111" }}>{p.name}</div>
+              樹木 {p.tree_count.toLocaleString()}{p.truncated ? "（上限で打ち切り）" : ""}・計画 {p.plan_count}
+              <br />
+              {fmtDate(p.saved_at)} 時点
+            </div>
+            <button
+              disabled={!!busy}
+              onClick={async () => {
+                if (!confirm(`「${p.name}」のデータを削除しますか？`)) return;
+                await deleteDataPack(p.id);
+                await reload();
+              }}
+              style={{ ...btnStyle, alignSelf: "center" }}
+            >
+              削除
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** 保存範囲の外接矩形 [minLng, minLat, maxLng, maxLat] */
+function requestBBox(req: OfflineAreaRequest): [number, number, number, number] {
+  if (req.bbox) return [req.bbox.minLng, req.bbox.minLat, req.bbox.maxLng, req.bbox.maxLat];
+  const b: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  const walk = (c: any) => {
+    if (typeof c?.[0] === "number") {
+      b[0] = Math.min(b[0], c[0]); b[1] = Math.min(b[1], c[1]);
+      b[2] = Math.max(b[2], c[0]); b[3] = Math.max(b[3], c[1]);
+    } else if (Array.isArray(c)) c.forEach(walk);
+  };
+  walk(req.area?.coordinates);
+  // 線のバッファ分（緯度 1 度 ≒ 111km で概算）
+  const pad = (req.buffer_m ?? 0) / 111_000;
+  const padLng = pad / Math.cos((((b[1] + b[3]) / 2) * Math.PI) / 180);
+  return [b[0] - padLng, b[1] - pad, b[2] + padLng, b[3] + pad];
+}
+
+const panelStyle: React.CSSProperties = {
+  position: "absolute",
+  right: 12,
+  width: 320,
+  maxHeight: "75%",
+  overflow: "auto",
+  background: "#fff",
+  border: "1px solid #e5e7eb",
+  borderRadius: 10,
+  boxShadow: "0 6px 24px rgba(0,0,0,.12)",
+  zIndex: 1100,
+  padding: 12,
+  pointerEvents: "auto",
+};
+const sectionStyle: React.CSSProperties = { marginBottom: 10 };
+const titleStyle: React.CSSProperties = { fontWeight: 700, marginBottom: 6 };
+const rowStyle: React.CSSProperties = { display: "flex", gap: 8, alignItems: "center", padding: "3px 0" };
+const btnStyle: React.CSSProperties = { padding: "4px 10px", border: "1px solid #e5e7eb", background: "#fff", borderRadius: 8 };
+const numStyle: React.CSSProperties = { width: 56, padding: "2px 4px", border: "1px solid #e5e7eb", borderRadius: 6 };
+const barOuter: React.CSSProperties = { height: 6, background: "#f3f4f6", borderRadius: 3, marginTop: 4 };
+const barInner: React.CSSProperties = { height: 6, background: "#10b981", borderRadius: 3 };
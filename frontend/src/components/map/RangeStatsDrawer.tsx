@@ -4,12 +4,18 @@ import React from "react";
 export type RangeStatItem = {
   /** 選択図形（GeoJSON; Polygon/Rectangleなど） */
   geom: any | null;
-  /** 集計結果（Map側で算出済） */
+  /** 集計結果（server: /trees/stats の全件集計、client: 描画中の点から算出） */
   stats: {
     count: number;
     avgDbh: number | null;    // cm
     avgHeight: number | null; // m
-    // 必要になったら sumVolume などを追加してOK
+    source?: "server" | "client";
+    areaHa?: number | null;
+    medianHeight?: number | null; // m
+    sumVolume?: number | null;    // m³
+    stemsPerHa?: number | null;
+    volumePerHa?: number | null;  // m³/ha
+    bySpecies?: Array<{ species: string; count: number; volume_m3: number | null }>;
   };
 };
 
@@ -136,7 +142,51 @@ export default function RangeStatsDrawer({
 
                 <Label>平均樹高</Label>
                 <Value>{fmt(it.stats.avgHeight, 1)}<Unit> m</Unit></Value>
+
+                {it.stats.source === "server" && (
+                  <>
+                    <Label>樹高中央値</Label>
+                    <Value>{fmt(it.stats.medianHeight ?? null, 1)}<Unit> m</Unit></Value>
+
+                    <Label>総材積</Label>
+                    <Value>{fmt(it.stats.sumVolume ?? null, 2)}<Unit> m³</Unit></Value>
+
+                    <Label>面積</Label>
+                    <Value>{fmt(it.stats.areaHa ?? null, 2)}<Unit> ha</Unit></Value>
+
+                    <Label>本数/ha</Label>
+                    <Value>{fmt(it.stats.stemsPerHa ?? null, 0)}</Value>
+
+                    <Label>材積/ha</Label>
+                    <Value>{fmt(it.stats.volumePerHa ?? null, 1)}<Unit> m³</Unit></Value>
+                  </>
+                )}
               </div>
+
+              {it.stats.bySpecies?.length ? (
+                <table style={{ width: "100%", marginTop: 8, fontSize: 12, borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ color: "#6b7280", textAlign: "left" }}>
+                      <th>樹種</th><th style={{ textAlign: "right" }}>本数</th><th style={{ textAlign: "right" }}>材積 m³</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {it.stats.bySpecies.map((s) => (
+                      <tr key={s.species}>
+                        <td>{s.species}</td>
+                        <td style={{ textAlign: "right" }}>{s.count}</td>
+                        <td style={{ textAlign: "right" }}>{fmt(s.volume_m3, 2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : null}
+
+              {it.stats.source === "client" && (
+                <div style={{ fontSize: 11, color: "#b45309", marginTop: 6 }}>
+                  ※ サーバ集計に失敗したため、表示中（間引き後）の点から算出しています。
+                </div>
+              )}
             </li>
           ))}
         </ul>
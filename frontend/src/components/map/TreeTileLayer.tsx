@@ -0,0 +1,159 @@
+// frontend/src/components/map/TreeTileLayer.tsx
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import { PbfReader } from "pbf";
+import { VectorTile } from "@mapbox/vector-tile";
+import { authFetchRaw } from "../../lib/authFetch";
+
+/** 点のズームのタイル（layer: trees）に入っている単木 */
+export type TreeTilePoint = {
+  id: string;
+  lat: number;
+  lng: number;
+  species?: string;
+  height_m?: number;
+  dbh_cm?: number;
+  volume_m3?: number;
+};
+
+const TILE_SIZE = 256;
+const PICK_RADIUS_PX = 8;
+
+// 集計矩形の濃さ（本数の対数）
+const gridAlpha = (count: number) => Math.min(0.8, 0.15 + Math.log10(Math.max(1, count)) / 4);
+
+/**
+ * 樹木のベクタタイル（/api/tiles/trees/{z}/{x}/{y}.pbf）を canvas に描くレイヤ。
+ * 点のズームでは単木（樹種の色）、それ未満はサーバが集計した格子を本数の濃さで描く。
+ * 読み込んだ単木はタイルの canvas に持たせ、表示範囲の一覧とクリックの当たり判定に使う。
+ */
+const TreeTiles = L.GridLayer.extend({
+  createTile(coords: L.Coords, done: L.DoneCallback) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = TILE_SIZE;
+    const ctrl = new AbortController();
+    (canvas as any)._abort = ctrl;
+    (canvas as any)._trees = [] as TreeTilePoint[];
+    const { query, colors } = (this as any).options as { query: string; colors: Record<string, string> };
+    const map: L.Map = (this as any)._map;
+
+    authFetchRaw(`/api/tiles/trees/${coords.z}/${coords.x}/${coords.y}.pbf${query ? `?${query}` : ""}`, {
+      signal: ctrl.signal,
+    })
+      .then(async (r) => {
+        if (r.status === 204) return done(undefined, canvas);
+        if (!r.ok) throw new Error(`${r.status}`);
+        const tile = new VectorTile(new PbfReader(await r.arrayBuffer()));
+        const ctx = canvas.getContext("2d")!;
+
+        const grid = tile.layers.tree_grid;
+        for (let i = 0; i < (grid?.length ?? 0); i++) {
+          const f = grid.feature(i);
+          const s = TILE_SIZE / f.extent;
+          const ring = f.loadGeometry()[0] ?? [];
+          const xs = ring.map((p) => p.x * s);
+          const ys = ring.map((p) => p.y * s);
+          const x0 = Math.min(...xs), y0 = Math.min(...ys);
+          ctx.fillStyle = `rgba(34, 136, 85, ${gridAlpha(Number(f.properties.count))})`;
+          ctx.fillRect(x0, y0, Math.max(...xs) - x0, Math.max(...ys) - y0);
+        }
+
+        const trees = tile.layers.trees;
+        const origin = L.point(coords.x * TILE_SIZE, coords.y * TILE_SIZE);
+        for (let i = 0; i < (trees?.length ?? 0); i++) {
+          const f = trees.feature(i);
+          const s = TILE_SIZE / f.extent;
+          const p = f.loadGeometry()[0]?.[0];
+          if (!p) continue;
+          const props = f.properties;
+          ctx.beginPath();
+          ctx.arc(p.x * s, p.y * s, 3, 0, 2 * Math.PI);
+          ctx.fillStyle = colors[String(props.species ?? "その他")] ?? colors["その他"] ?? "#0a7";
+          ctx.fill();
+
+          const ll = map.unproject(origin.add(L.point(p.x * s, p.y * s)), coords.z);
+          (canvas as any)._trees.push({
+            id: String(props.id ?? `${ll.lat},${ll.lng}`),
+            lat: ll.lat,
+            lng: ll.lng,
+            species: props.species as string | undefined,
+            height_m: props.height_m as number | undefined,
+            dbh_cm: props.dbh_cm as number | undefined,
+            volume_m3: props.volume_m3 as number | undefined,
+          });
+        }
+        done(undefined, canvas);
+      })
+      .catch((e) => {
+        if (e?.name !== "AbortError") done(e, canvas);
+      });
+    return canvas;
+  },
+});
+
+type Props = {
+  /** 属性条件（/api/tiles/trees のクエリ文字列） */
+  query: string;
+  /** 樹種 → 色（無い樹種は「その他」） */
+  colors: Record<string, string>;
+  /** 表示範囲の単木が変わったとき（点のズーム未満は空） */
+  onTrees?: (trees: TreeTilePoint[]) => void;
+  /** 単木をクリックしたとき */
+  onPick?: (tree: TreeTilePoint) => void;
+  onLoadingChange?: (loading: boolean) => void;
+};
+
+export default function TreeTileLayer({ query, colors, onTrees, onPick, onLoadingChange }: Props) {
+  const map = useMap();
+  // 作り直さずに最新のコールバックを呼ぶ
+  const cb = useRef({ onTrees, onPick, onLoadingChange });
+  cb.current = { onTrees, onPick, onLoadingChange };
+
+  useEffect(() => {
+    const layer: L.GridLayer = new (TreeTiles as any)({ query, colors, tileSize: TILE_SIZE, maxZoom: 22 });
+
+    // 読み込み済みタイルの単木のうち表示範囲のもの（タイル境界の重複は id で除く）
+    const visibleTrees = () => {
+      const b = map.getBounds();
+      const out = new Map<string, TreeTilePoint>();
+      for (const t of Object.values((layer as any)._tiles ?? {}) as any[]) {
+        if (!t.current) continue;
+        for (const x of t.el._trees ?? []) if (b.contains([x.lat, x.lng])) out.set(x.id, x);
+      }
+      return Array.from(out.values());
+    };
+    const emit = () => cb.current.onTrees?.(visibleTrees());
+    const onClick = (e: L.LeafletMouseEvent) => {
+      let best: TreeTilePoint | null = null;
+      let bestD = PICK_RADIUS_PX;
+      for (const x of visibleTrees()) {
+        const d = map.latLngToContainerPoint([x.lat, x.lng]).distanceTo(e.containerPoint);
+        if (d <= bestD) {
+          best = x;
+          bestD = d;
+        }
+      }
+      if (best) cb.current.onPick?.(best);
+    };
+
+    layer.on("loading", () => cb.current.onLoadingChange?.(true));
+    layer.on("load", () => {
+      cb.current.onLoadingChange?.(false);
+      emit();
+    });
+    // 画面外に出たタイルの取得は中断
+    layer.on("tileunload", (e: L.TileEvent) => (e.tile as any)._abort?.abort());
+    map.on("moveend", emit);
+    map.on("click", onClick);
+    layer.addTo(map);
+    return () => {
+      map.off("moveend", emit);
+      map.off("click", onClick);
+      layer.remove();
+      cb.current.onLoadingChange?.(false);
+    };
+  }, [map, query, colors]);
+
+  return null;
+}
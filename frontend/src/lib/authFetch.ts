@@ -23,3 +23,21 @@ export async function authFetch<T = unknown>(path: string, init: RequestInit = {
   }
   try { return JSON.parse(text) as T; } catch { return text as unknown as T; }
 }
+
+/** API パス → 実際にリクエストする URL（Service Worker のキャッシュキーにも使う） */
+export const apiUrl = (path: string) => new URL(`${BASE}${path}`, location.href).href;
+
+/**
+ * バイナリ用（タイル等）。ステータスはそのまま返し、本文は呼び出し側で読む。
+ * オフライン中やトークンを更新できない（圏外で 1 時間を過ぎた）ときは Authorization を付けずに送る。
+ * トークン待ちで止めず、Service Worker（sw.ts）が保存済みのタイルを返せるようにするため。
+ */
+export async function authFetchRaw(path: string, init: RequestInit = {}): Promise<Response> {
+  const user = auth.currentUser;
+  const headers = new Headers(init.headers ?? {});
+  if (user && navigator.onLine) {
+    const token = await user.getIdToken().catch(() => null);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(apiUrl(path), { ...init, headers });
+}
@@ -0,0 +1,90 @@
+// frontend/src/lib/layers.ts
+import { authFetch } from './authFetch';
+
+/* ---------------------------------------------------------------
+ * 組織のレイヤ登録簿（GET /config/layers）
+ * url は認証付きタイルプロキシ（/api/tiles/{id}/{z}/{x}/{y}）。
+ * 並び順・グループ・既定の不透明度・凡例は管理者が /admin/layers で設定する。
+ * ------------------------------------------------------------- */
+export type LayerType = 'xyz' | 'wms' | 'wmts' | 'mvt';
+
+export type LayerLegend = {
+  image_url?: string;
+  items?: Array<{ label: string; color: string }>;
+};
+
+export type LayerConfig = {
+  id: string;
+  label: string;
+  type: LayerType;
+  url: string;
+  min_zoom: number;
+  max_zoom: number;
+  attribution: string;
+  legend: LayerLegend | null;
+  opacity: number;
+  group: string;
+  base: boolean;
+};
+
+/** 地図にラスタとして重ねられる種別（mvt は事前DL のみ） */
+export const isRasterLayer = (l: LayerConfig) => l.type !== 'mvt';
+
+export async function fetchLayers(): Promise<LayerConfig[]> {
+  const r = await authFetch<{ items?: LayerConfig[] }>('/api/config/layers');
+  return r.items ?? [];
+}
+
+/* ---------------------------------------------------------------
+ * 外部レイヤの取り込み（管理者のみ）
+ * GetCapabilities の解析はサーバ（/admin/layers/capabilities）で行い、
+ * 取り込んだレイヤも他と同じくタイルプロキシ経由の z/x/y で描く。
+ * ------------------------------------------------------------- */
+export type CapStyle = { name: string; title: string; legend_url?: string; default?: boolean };
+
+export type CapLayer = {
+  name: string;
+  title: string;
+  abstract?: string;
+  styles: CapStyle[];
+  formats: string[];
+  tile_matrix_sets?: string[];
+  supported: boolean;
+  note?: string;
+};
+
+export type CapTileMatrixSet = {
+  id: string;
+  crs: string;
+  web_mercator: { min_zoom: number; max_zoom: number; prefix: string } | null;
+};
+
+export type Capabilities = {
+  service: 'WMS' | 'WMTS';
+  version: string;
+  title: string;
+  layers: CapLayer[];
+  tile_matrix_sets: CapTileMatrixSet[];
+};
+
+export type LayerImport = {
+  url: string;
+  layer: string;
+  style?: string;
+  tile_matrix_set?: string;
+  format?: string;
+  id: string;
+  label?: string;
+  group?: string;
+};
+
+export function fetchCapabilities(url: string) {
+  return authFetch<Capabilities>('/api/admin/layers/capabilities', {
+    method: 'POST',
+    body: JSON.stringify({ url }),
+  });
+}
+
+export function importLayer(req: LayerImport) {
+  return authFetch<LayerConfig>('/api/admin/layers/import', { method: 'POST', body: JSON.stringify(req) });
+}
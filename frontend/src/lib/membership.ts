@@ -0,0 +1,69 @@
+// frontend/src/lib/membership.ts
+import type { User } from 'firebase/auth';
+import { authFetch } from './authFetch';
+import { dropOrgItems } from './outbox';
+import { clearAreas } from './offlineTiles';
+import { clearDataPacks } from './offlineData';
+
+/* ---------------------------------------------------------------
+ * 組織への所属（カスタムクレーム orgs / org_id / role）
+ * 招待されたユーザーはログイン時に招待を引き換えてクレームを得る。
+ * 複数組織に所属する場合、API・Firestore は選択中の org_id で動く。
+ * ------------------------------------------------------------- */
+export type Role = 'admin' | 'manager' | 'staff' | 'viewer';
+export type OrgClaims = { org_id: string; role: Role; orgs: Record<string, Role> };
+export type OrgSummary = { org_id: string; name: string; role: Role };
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: '管理者',
+  manager: '責任者',
+  staff: '作業者',
+  viewer: '閲覧のみ',
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+function claimsOf(c: Record<string, unknown>): OrgClaims | null {
+  if (typeof c.org_id !== 'string' || !c.org_id) return null;
+  // サーバ（mw/auth.ts）と同じく未知のロールは viewer。orgs の無い旧形式は 1 組織のみ
+  const orgs = (c.orgs as Record<string, Role> | undefined) ?? { [c.org_id]: c.role as Role };
+  const role = ROLES.includes(orgs[c.org_id]) ? orgs[c.org_id] : 'viewer';
+  return { org_id: c.org_id, role, orgs };
+}
+
+/**
+ * ログイン直後に呼ぶ。届いている招待の引き換え（POST /me/invitation/redeem）を試し、
+ * 引き換えたらトークンを取り直す。所属が無い（招待も無い）なら null。
+ * オフラインなど引き換えに失敗しても手元のクレームで続ける。
+ */
+export async function ensureMembership(user: User): Promise<OrgClaims | null> {
+  const current = claimsOf((await user.getIdTokenResult()).claims);
+  try {
+    const r = await authFetch<{ redeemed: number }>('/api/me/invitation/redeem', { method: 'POST' });
+    if (!r.redeemed) return current;
+  } catch {
+    return current;
+  }
+  return claimsOf((await user.getIdTokenResult(true)).claims);
+}
+
+/** 所属組織の一覧（名前付き） */
+export async function listOrgs(): Promise<OrgSummary[]> {
+  const r = await authFetch<{ items: OrgSummary[] }>('/api/me/orgs');
+  return r.items ?? [];
+}
+
+/**
+ * 選択中の組織を切り替えてトークンを取り直す。
+ * 前の組織のデータ（保存済みタイル・データパック・未送信の日報）は端末から消す。
+ * 未送信分は呼び出し側で先に送信を試み、残りを破棄してよいか確認しておくこと。
+ */
+export async function switchOrg(user: User, orgId: string): Promise<OrgClaims | null> {
+  const prev = claimsOf((await user.getIdTokenResult()).claims)?.org_id;
+  await authFetch('/api/me/active-org', { method: 'POST', body: JSON.stringify({ org_id: orgId }) });
+  const next = claimsOf((await user.getIdTokenResult(true)).claims);
+  if (prev && prev !== next?.org_id) {
+    await Promise.all([dropOrgItems(prev), clearAreas(), clearDataPacks()]);
+  }
+  return next;
+}
@@ -0,0 +1,229 @@
+// frontend/src/lib/offlineData.ts
+import { createStore, get, set, del, keys, clear } from "idb-keyval";
+import { authFetch } from "./authFetch";
+
+/* ---------------------------------------------------------------
+ * オフライン用の樹木・計画データ（IndexedDB）。
+ * 範囲を指定して /trees/search と /plans の結果をスナップショットとして保存し、
+ * 圏外（navigator.onLine === false）では API の代わりにここから返す。
+ * ------------------------------------------------------------- */
+const store = createStore("rinto-offline-data", "packs");
+const KEY_PREFIX = "p:";
+
+/** 1 パックに保存する樹木の上限（/trees/search の MAX_FETCH と同程度） */
+const MAX_TREES = 50_000;
+const TREE_PAGE = 1000;
+const PLAN_PAGE = 200;
+
+/** [minLng, minLat, maxLng, maxLat] */
+export type BBox = [number, number, number, number];
+
+/** /trees/search の 1 件（保存時に位置を lat/lng へ正規化） */
+export type OfflineTree = {
+  id: string;
+  lat: number;
+  lng: number;
+  species?: string;
+  dbh_cm?: number;
+  height_m?: number;
+  volume_m3?: number;
+};
+
+export type DataPack = {
+  id: string;
+  name: string;
+  bbox: BBox;
+  trees: OfflineTree[];
+  plans: any[];
+  /** 樹木が上限で打ち切られた */
+  truncated: boolean;
+  saved_at: number;
+};
+
+export type DataPackMeta = Omit<DataPack, "trees" | "plans"> & { tree_count: number; plan_count: number };
+
+export type TreeFilter = {
+  species?: string[];
+  minHeight?: number | null;
+  maxHeight?: number | null;
+  minDbh?: number | null;
+  maxDbh?: number | null;
+};
+
+/** オフラインデータを使ったときに StatusBar へ知らせるイベント */
+export const OFFLINE_DATA_EVENT = "rinto:offline-data";
+export type OfflineDataEventDetail = { saved_at: number | null };
+
+const notify = (saved_at: number | null) =>
+  window.dispatchEvent(new CustomEvent<OfflineDataEventDetail>(OFFLINE_DATA_EVENT, { detail: { saved_at } }));
+
+/** API 応答を返せたときに呼ぶ（表示を「最新」に戻す） */
+export const markOnlineData = () => notify(null);
+
+// ============ 保存 ============
+
+/** 範囲内の樹木と計画を取得して保存する */
+export async function saveDataPack(
+  name: string,
+  bbox: BBox,
+  onProgress?: (p: { trees: number; plans: number }) => void,
+  signal?: AbortSignal
+): Promise<DataPackMeta> {
+  const trees: OfflineTree[] = [];
+  const qs = new URLSearchParams({ bbox: bbox.map((v) => v.toFixed(6)).join(","), limit: String(TREE_PAGE) });
+  let cursor: string | null = null;
+  do {
+    signal?.throwIfAborted();
+    if (cursor) qs.set("cursor", cursor);
+    const page: { items: any[]; next_cursor?: string | null } = await authFetch(`/api/trees/search?${qs}`, { signal });
+    for (const x of page.items || []) {
+      const t = toOfflineTree(x);
+      if (t) trees.push(t);
+    }
+    cursor = page.next_cursor ?? null;
+    onProgress?.({ trees: trees.length, plans: 0 });
+  } while (cursor && trees.length < MAX_TREES);
+  const truncated = !!cursor || trees.length > MAX_TREES;
+
+  // 計画は位置を持たないものも現場で参照するため含める
+  const plans: any[] = [];
+  cursor = null;
+  do {
+    signal?.throwIfAborted();
+    const pq = new URLSearchParams({ limit: String(PLAN_PAGE) });
+    if (cursor) pq.set("cursor", cursor);
+    const page: { items: any[]; next_cursor?: string | null } = await authFetch(`/api/plans?${pq}`, { signal });
+    plans.push(...(page.items || []).filter((p) => !p.geom || geomHitsBBox(p.geom, bbox)));
+    cursor = page.next_cursor ?? null;
+    onProgress?.({ trees: trees.length, plans: plans.length });
+  } while (cursor);
+
+  const pack: DataPack = {
+    id: crypto.randomUUID(),
+    name,
+    bbox,
+    trees: trees.slice(0, MAX_TREES),
+    plans,
+    truncated,
+    saved_at: Date.now(),
+  };
+  await set(`${KEY_PREFIX}${pack.id}`, pack, store);
+  return toMeta(pack);
+}
+
+export async function listDataPacks(): Promise<DataPackMeta[]> {
+  const packs = await allPacks();
+  return packs.map(toMeta).sort((a, b) => b.saved_at - a.saved_at);
+}
+
+export async function deleteDataPack(id: string) {
+  await del(`${KEY_PREFIX}${id}`, store);
+}
+
+/** すべてのパックを削除（組織の切り替え時） */
+export async function clearDataPacks() {
+  await clear(store);
+  markOnlineData();
+}
+
+// ============ 読み出し（圏外時のフォールバック） ============
+
+/**
+ * 範囲に重なるパックから樹木を返す（同じ id は新しいパックを優先）。
+ * 重なるパックがなければ null。
+ */
+export async function offlineTrees(bbox: BBox | undefined, f: TreeFilter = {}) {
+  const packs = (await allPacks())
+    .filter((p) => !bbox || bboxIntersects(p.bbox, bbox))
+    .sort((a, b) => b.saved_at - a.saved_at);
+  if (!packs.length) return null;
+
+  const seen = new Set<string>();
+  const items: OfflineTree[] = [];
+  for (const p of packs) {
+    for (const t of p.trees) {
+      if (seen.has(t.id)) continue;
+      seen.add(t.id);
+      if (bbox && (t.lng < bbox[0] || t.lat < bbox[1] || t.lng > bbox[2] || t.lat > bbox[3])) continue;
+      if (!matchesFilter(t, f)) continue;
+      items.push(t);
+    }
+  }
+  // 表示は最も古いスナップショットの時点で揃う
+  const saved_at = Math.min(...packs.map((p) => p.saved_at));
+  notify(saved_at);
+  return { items, saved_at };
+}
+
+/** 全パックの計画（同じ id は新しいパックを優先）。パックがなければ null */
+export async function offlinePlans() {
+  const packs = (await allPacks()).sort((a, b) => b.saved_at - a.saved_at);
+  if (!packs.length) return null;
+  const byId = new Map<string, any>();
+  for (const p of packs) for (const x of p.plans) if (!byId.has(String(x.id))) byId.set(String(x.id), x);
+  const saved_at = Math.min(...packs.map((p) => p.saved_at));
+  notify(saved_at);
+  return { items: [...byId.values()], saved_at };
+}
+
+// ============ 内部実装 ============
+
+async function allPacks(): Promise<DataPack[]> {
+  const out: DataPack[] = [];
+  for (const k of (await keys(store)) as string[]) {
+    if (typeof k === "string" && k.startsWith(KEY_PREFIX)) {
+      const p = await get<DataPack>(k, store);
+      if (p) out.push(p);
+    }
+  }
+  return out;
+}
+
+function toMeta({ trees, plans, ...rest }: DataPack): DataPackMeta {
+  return { ...rest, tree_count: trees.length, plan_count: plans.length };
+}
+
+function toOfflineTree(p: any): OfflineTree | null {
+  let lat = p.lat, lng = p.lng;
+  if ((lat == null || lng == null) && p.location) {
+    lat = p.location.lat; lng = p.location.lng;
+  }
+  if ((lat == null || lng == null) && p.geom?.type === "Point") {
+    lng = p.geom.coordinates[0]; lat = p.geom.coordinates[1];
+  }
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return {
+    id: String(p.id ?? p.tree_id ?? `${lat},${lng}`),
+    lat: Number(lat),
+    lng: Number(lng),
+    species: p.species,
+    dbh_cm: p.dbh_cm,
+    height_m: p.height_m,
+    volume_m3: p.volume_m3,
+  };
+}
+
+function matchesFilter(t: OfflineTree, f: TreeFilter) {
+  if (f.species?.length && !f.species.includes(t.species ?? "")) return false;
+  const h = t.height_m, d = t.dbh_cm;
+  if (f.minHeight != null && !(h != null && h >= f.minHeight)) return false;
+  if (f.maxHeight != null && !(h != null && h <= f.maxHeight)) return false;
+  if (f.minDbh != null && !(d != null && d >= f.minDbh)) return false;
+  if (f.maxDbh != null && !(d != null && d <= f.maxDbh)) return false;
+  return true;
+}
+
+const bboxIntersects = (a: BBox, b: BBox) => a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+/** GeoJSON ジオメトリの外接矩形が bbox に重なるか */
+function geomHitsBBox(geom: any, bbox: BBox) {
+  const b: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  const walk = (c: any) => {
+    if (typeof c?.[0] === "number") {
+      b[0] = Math.min(b[0], c[0]); b[1] = Math.min(b[1], c[1]);
+      b[2] = Math.max(b[2], c[0]); b[3] = Math.max(b[3], c[1]);
+    } else if (Array.isArray(c)) c.forEach(walk);
+  };
+  walk(geom?.coordinates);
+  return Number.isFinite(b[0]) && bboxIntersects(b, bbox);
+}
@@ -0,0 +1,216 @@
+// frontend/src/lib/offlineTiles.ts
+import { createStore, get, set, del, keys, clear } from "idb-keyval";
+import { authFetch, authFetchRaw, apiUrl } from "./authFetch";
+
+/* ---------------------------------------------------------------
+ * オフライン用タイルの保存（Cache API）と保存範囲の管理（IndexedDB）。
+ * タイル URL は /offline/bundle（format: urls）で列挙し、ここで取得して保存する。
+ * 表示時は sw.ts が同じキャッシュから返す。
+ * ------------------------------------------------------------- */
+export const TILE_CACHE = "rinto-tiles-v1"; // sw.ts と同じ名前
+
+const store = createStore("rinto-offline", "areas");
+const AREA_PREFIX = "a:";
+const URLS_PREFIX = "u:";
+const CONCURRENCY = 6;
+
+/** 背景地図（地理院 標準地図）。プロキシ外なので直接取得する */
+const GSI_STD = "https://cyberjapandata.gsi.go.jp/xyz/std/{z}/{x}/{y}.png";
+const GSI_STD_MAX_ZOOM = 18;
+
+export type BBox = { minLng: number; minLat: number; maxLng: number; maxLat: number };
+
+export type OfflineAreaRequest = {
+  name: string;
+  /** bbox か area（Polygon / MultiPolygon / LineString）のどちらか */
+  bbox?: BBox;
+  area?: any;
+  buffer_m?: number;
+  zmin: number;
+  zmax: number;
+  layers: string[];
+  /** 背景地図も保存する */
+  includeBase: boolean;
+};
+
+export type OfflineArea = Omit<OfflineAreaRequest, "area"> & {
+  id: string;
+  areaType?: string;
+  tiles: number;
+  saved: number;
+  failed: number;
+  bytes: number;
+  created_at: number;
+  updated_at: number;
+};
+
+export type Progress = { done: number; total: number; bytes: number; failed: number };
+
+export type BundleEstimate = {
+  tiles: number;
+  by_zoom: Record<string, number>;
+  by_layer: Record<string, number>;
+  estimated_bytes: number;
+};
+
+function bundleBody(req: OfflineAreaRequest, extra: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    ...(req.area ? { area: req.area, buffer_m: req.buffer_m } : { bbox: req.bbox }),
+    zmin: req.zmin,
+    zmax: req.zmax,
+    layers: req.layers,
+    ...extra,
+  });
+}
+
+/** 保存前の見積り（タイル数・容量） */
+export function estimateArea(req: OfflineAreaRequest) {
+  return authFetch<BundleEstimate>("/api/offline/bundle", {
+    method: "POST",
+    body: bundleBody(req, { dry_run: true }),
+  });
+}
+
+// 範囲 → 保存するタイル URL（キャッシュキー＝実際にリクエストされる URL）
+async function listTileUrls(req: OfflineAreaRequest) {
+  const r = await authFetch<{ urls: string[] }>("/api/offline/bundle", {
+    method: "POST",
+    body: bundleBody(req),
+  });
+  const urls = r.urls.map(apiUrl);
+  if (req.includeBase) {
+    // プロキシ URL（.../tiles/{layer}/{z}/{x}/{y}）から座標を取り出して背景地図も加える
+    const seen = new Set<string>();
+    for (const u of r.urls) {
+      const m = u.match(/\/(\d+)\/(\d+)\/(\d+)$/);
+      if (!m || Number(m[1]) > GSI_STD_MAX_ZOOM) continue;
+      const base = GSI_STD.replace("{z}", m[1]).replace("{x}", m[2]).replace("{y}", m[3]);
+      if (!seen.has(base)) {
+        seen.add(base);
+        urls.push(base);
+      }
+    }
+  }
+  return urls;
+}
+
+// 1 タイル取得（API は認証付き、背景地図は CORS で直接）
+async function fetchTile(url: string, signal?: AbortSignal) {
+  const api = apiUrl("/");
+  if (url.startsWith(api)) {
+    return authFetchRaw(url.slice(api.length - 1), { signal });
+  }
+  return fetch(url, { mode: "cors", signal });
+}
+
+async function saveTiles(urls: string[], onProgress?: (p: Progress) => void, signal?: AbortSignal) {
+  const cache = await caches.open(TILE_CACHE);
+  const p: Progress = { done: 0, total: urls.length, bytes: 0, failed: 0 };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      if (signal?.aborted) throw new DOMException("aborted", "AbortError");
+      const url = urls[next++];
+      try {
+        const res = await fetchTile(url, signal);
+        if (!res.ok) throw new Error(`${res.status}`);
+        const blob = await res.blob();
+        await cache.put(url, new Response(blob, { headers: { "Content-Type": blob.type } }));
+        p.bytes += blob.size;
+      } catch (e: any) {
+        if (e?.name === "AbortError") throw e;
+        p.failed++;
+      }
+      p.done++;
+      onProgress?.({ ...p });
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return p;
+}
+
+/** 範囲を保存（既存 id を渡すとその範囲を更新） */
+export async function downloadArea(
+  req: OfflineAreaRequest,
+  onProgress?: (p: Progress) => void,
+  signal?: AbortSignal,
+  id: string = crypto.randomUUID()
+): Promise<OfflineArea> {
+  const urls = await listTileUrls(req);
+  const prev = await get<OfflineArea>(AREA_PREFIX + id, store);
+  const p = await saveTiles(urls, onProgress, signal);
+
+  const { area, ...rest } = req;
+  const meta: OfflineArea = {
+    ...rest,
+    id,
+    areaType: area?.type,
+    tiles: urls.length,
+    saved: p.done - p.failed,
+    failed: p.failed,
+    bytes: p.bytes,
+    created_at: prev?.created_at ?? Date.now(),
+    updated_at: Date.now(),
+  };
+  await set(URLS_PREFIX + id, { urls, area }, store);
+  await set(AREA_PREFIX + id, meta, store);
+  return meta;
+}
+
+/** 保存済みの範囲（新しい順） */
+export async function listAreas(): Promise<OfflineArea[]> {
+  const out: OfflineArea[] = [];
+  for (const k of (await keys(store)) as string[]) {
+    if (typeof k === "string" && k.startsWith(AREA_PREFIX)) {
+      const a = await get<OfflineArea>(k, store);
+      if (a) out.push(a);
+    }
+  }
+  return out.sort((a, b) => b.updated_at - a.updated_at);
+}
+
+/** 同じ範囲を取り直す（期限切れ・更新されたタイルの反映） */
+export async function refreshArea(id: string, onProgress?: (p: Progress) => void, signal?: AbortSignal) {
+  const meta = await get<OfflineArea>(AREA_PREFIX + id, store);
+  const saved = await get<{ urls: string[]; area?: any }>(URLS_PREFIX + id, store);
+  if (!meta) throw new Error("area not found");
+  const { id: _id, areaType: _t, tiles: _n, saved: _s, failed: _f, bytes: _b, created_at: _c, updated_at: _u, ...req } = meta;
+  return downloadArea({ ...req, area: saved?.area }, onProgress, signal, id);
+}
+
+/** 範囲を削除（他の範囲と共有しているタイルは残す） */
+export async function deleteArea(id: string) {
+  const saved = await get<{ urls: string[] }>(URLS_PREFIX + id, store);
+  await del(AREA_PREFIX + id, store);
+  await del(URLS_PREFIX + id, store);
+  if (!saved) return;
+
+  const keep = new Set<string>();
+  for (const k of (await keys(store)) as string[]) {
+    if (typeof k === "string" && k.startsWith(URLS_PREFIX)) {
+      for (const u of (await get<{ urls: string[] }>(k, store))?.urls ?? []) keep.add(u);
+    }
+  }
+  const cache = await caches.open(TILE_CACHE);
+  await Promise.all(saved.urls.filter((u) => !keep.has(u)).map((u) => cache.delete(u)));
+}
+
+/** 保存した範囲とタイルをすべて削除（組織の切り替え時。契約レイヤを他組織で見せない） */
+export async function clearAreas() {
+  await clear(store);
+  await caches.delete(TILE_CACHE);
+}
+
+/** ストレージ使用量・上限（ブラウザの見積り） */
+export async function storageQuota() {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/** 容量不足で勝手に消されないよう永続化を要求 */
+export async function requestPersistentStorage() {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted?.()) || navigator.storage.persist();
+}
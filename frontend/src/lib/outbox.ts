@@ -1,30 +1,61 @@
 // frontend/src/lib/outbox.ts
 import { getAuth } from "firebase/auth";
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
+import { doc, serverTimestamp, setDoc } from "firebase/firestore";
 import { createStore, get, set, del, keys } from "idb-keyval";
 import { db } from "./firebase";
 
 const store = createStore("rinto-outbox", "reports");
 const KEY_PREFIX = "r:";
 const API_URL = "/api/reports";
-const API_STATE_KEY = "rinto:api_state"; // "up" | "down"
+const BATCH_URL = "/api/reports/batch";
+const BATCH_MAX = 100; // 1 リクエストの件数（サーバ上限 200 の内側）
+// "up" | "down"（旧キー rinto:api_state は無認証の確認で誤って down を覚えていたため読まない）
+const API_STATE_KEY = "rinto:api_state:v2";
 
 type ApiState = "up" | "down" | null;
 
 export type SubmitResult = "sent" | "queued";
 
+/** キューの中身が変わった（送信・差し戻し・破棄）ときに日報画面へ知らせるイベント */
+export const OUTBOX_EVENT = "rinto:outbox";
+
+/** サーバに差し戻された（内容を直さない限り通らない）未送信の日報 */
+export type RejectedReport = { key: string; data: any; error: string; failed_at: number | null };
+
+/**
+ * キューの 1 件。idempotency_key は最初の送信前に 1 度だけ作り、再送でも同じ値を送る
+ * （サーバは同じキーなら最初の日報 ID を返すため、応答が失われても二重登録にならない）。
+ */
+type OutboxItem = {
+  /** 日報本体。org_id はキューに入れた時点で選択中の組織（切り替え時の破棄に使う） */
+  data: any;
+  idempotency_key: string;
+  /** 送信に失敗した理由（invalid / forbidden など） */
+  error?: string;
+  failed_at?: number;
+  /** 検証エラー（invalid / 400）で差し戻された。自動では再送せず、画面で理由を見せて破棄してもらう */
+  rejected?: boolean;
+};
+
+type BatchResult = { index: number; status: string; id?: string; error?: string };
+
 /** エントリポイント：オンラインなら即送信、失敗/オフラインならキュー */
 export async function submitReport(data: any): Promise<SubmitResult> {
+  const org_id = await activeOrgId(data?.org_id);
+  if (!org_id) throw new Error("org_id が取得できません。管理者に確認してください。");
+  const item: OutboxItem = { data: { ...data, org_id }, idempotency_key: crypto.randomUUID() };
   if (navigator.onLine) {
     try {
-      await retryableSend(data);
+      await retryableSend(item);
       return "sent";
-    } catch {
-      await enqueue(data);
+    } catch (e: any) {
+      // 検証エラーはキューに入れても通らないので、そのまま伝える
+      if (e?.status === 400) throw new Error(e.error ?? e.message);
+      await enqueue(item);
       return "queued";
     }
   } else {
-    await enqueue(data);
+    await enqueue(item);
     return "queued";
   }
 }
@@ -35,38 +66,184 @@ export function initOutboxAutoFlush() {
   window.addEventListener("online", () => flushOutbox());
 }
 
+/** 未送信の件数（orgId を渡すとその組織の日報のみ） */
+export async function pendingCount(orgId?: string): Promise<number> {
+  let n = 0;
+  for (const k of (await keys(store)) as string[]) {
+    if (typeof k !== "string" || !k.startsWith(KEY_PREFIX)) continue;
+    if (orgId === undefined || (await readItem(k))?.data?.org_id === orgId) n++;
+  }
+  return n;
+}
+
+/** 差し戻された未送信分（理由付き） */
+export async function listRejected(): Promise<RejectedReport[]> {
+  const out: RejectedReport[] = [];
+  for (const k of (await keys(store)) as string[]) {
+    if (typeof k !== "string" || !k.startsWith(KEY_PREFIX)) continue;
+    const item = await readItem(k);
+    if (!item?.rejected) continue;
+    out.push({ key: k, data: item.data, error: item.error ?? "invalid", failed_at: item.failed_at ?? null });
+  }
+  return out;
+}
+
+/** 未送信分を 1 件破棄する（差し戻された日報の取り下げ） */
+export async function discardItem(key: string): Promise<void> {
+  await del(key, store);
+  notify();
+}
+
+/** 指定組織の未送信分を破棄する（組織の切り替え時。別組織のトークンでは送れないため） */
+export async function dropOrgItems(orgId: string): Promise<number> {
+  let n = 0;
+  for (const k of (await keys(store)) as string[]) {
+    if (typeof k !== "string" || !k.startsWith(KEY_PREFIX)) continue;
+    if ((await readItem(k))?.data?.org_id !== orgId) continue;
+    await del(k, store);
+    n++;
+  }
+  return n;
+}
+
 // ============ 内部実装 ============
 
-async function enqueue(data: any) {
+/**
+ * 選択中の組織（トークンの org_id クレーム）。オフラインでトークンを更新できないときは
+ * 呼び出し側が渡した値を使う。
+ */
+async function activeOrgId(fallback?: string): Promise<string | undefined> {
+  try {
+    const claims = (await getAuth().currentUser?.getIdTokenResult())?.claims;
+    if (typeof claims?.org_id === "string" && claims.org_id) return claims.org_id;
+  } catch {
+    // オフラインで期限切れなど
+  }
+  return fallback || undefined;
+}
+
+const notify = () => window.dispatchEvent(new Event(OUTBOX_EVENT));
+
+async function enqueue(item: OutboxItem) {
   const id = `${KEY_PREFIX}${Date.now()}:${crypto.randomUUID()}`;
-  await set(id, data, store);
+  await set(id, item, store);
+  notify();
+}
+
+/** 差し戻しとして残す（以後の flushOutbox では送らない） */
+const reject = (k: string, item: OutboxItem, error: string) =>
+  set(k, { ...item, error, failed_at: Date.now(), rejected: true }, store);
+
+/** 保存済みの 1 件（キー導入前の形式は日報そのもの。キュー ID をキーに使う） */
+async function readItem(k: string): Promise<OutboxItem | undefined> {
+  const v = await get(k, store);
+  if (!v) return undefined;
+  if (typeof v.idempotency_key === "string" && "data" in v) return v as OutboxItem;
+  return { data: v, idempotency_key: k.slice(KEY_PREFIX.length).replace(/[^A-Za-z0-9_.:-]/g, "") };
 }
 
+/**
+ * キューを送信する。一括 API（POST /reports/batch）があれば 1 往復で送り、
+ * 失敗した項目だけ理由を付けてキューに残す。無ければ 1 件ずつ送る。
+ * 検証エラーで差し戻された項目は送らない（listRejected で理由を見せる）。
+ */
 export async function flushOutbox(): Promise<number> {
-  let sent = 0;
+  const entries: [string, OutboxItem][] = [];
+  let orgId: string | undefined;
   for (const k of (await keys(store)) as string[]) {
-    if (typeof k === "string" && k.startsWith(KEY_PREFIX)) {
-      const data = await get(k, store);
-      try {
-        await retryableSend(data);
+    if (typeof k !== "string" || !k.startsWith(KEY_PREFIX)) continue;
+    const item = await readItem(k);
+    if (!item || item.rejected) continue;
+    if (!item.data?.org_id) {
+      // org_id を入れる前にキューへ入った分は、選択中の組織の日報として送る
+      orgId ??= await activeOrgId();
+      if (!orgId) continue;
+      item.data = { ...item.data, org_id: orgId };
+    }
+    entries.push([k, item]);
+  }
+  if (!entries.length) return 0;
+  try {
+    return await flushEntries(entries);
+  } finally {
+    notify();
+  }
+}
+
+async function flushEntries(entries: [string, OutboxItem][]): Promise<number> {
+  const user = getAuth().currentUser;
+  if (user && (await isApiAvailable(user))) {
+    try {
+      return await flushViaBatch(entries, user);
+    } catch (e: any) {
+      // 一括 API の無い古いサーバだけ 1 件ずつに切り替える。それ以外は次回再挑戦
+      const status = e?.status ?? parseStatusFromMessage(e?.message);
+      if (status !== 404 && status !== 405) return 0;
+    }
+  }
+
+  let sent = 0;
+  for (const [k, item] of entries) {
+    try {
+      await retryableSend(item);
+      await del(k, store);
+      sent++;
+    } catch (e: any) {
+      // 検証エラーは差し戻し、それ以外は次回再挑戦
+      if (e?.status === 400) await reject(k, item, e.error ?? e.message);
+    }
+  }
+  return sent;
+}
+
+async function flushViaBatch(entries: [string, OutboxItem][], user: { getIdToken(): Promise<string> }) {
+  let sent = 0;
+  for (let i = 0; i < entries.length; i += BATCH_MAX) {
+    const chunk = entries.slice(i, i + BATCH_MAX);
+    const results = await withRetry(async () => sendBatch(chunk.map(([, it]) => it), await user.getIdToken()));
+    for (const r of results) {
+      const [k, item] = chunk[r.index] ?? [];
+      if (!k || !item) continue;
+      if (r.status === "created" || r.status === "replayed") {
         await del(k, store);
         sent++;
-      } catch {
-        // 次回再挑戦
+      } else if (r.status === "invalid") {
+        await reject(k, item, r.error ?? r.status);
+      } else {
+        await set(k, { ...item, error: r.error ?? r.status, failed_at: Date.now() }, store);
       }
     }
   }
+  setCachedApiState("up");
   return sent;
 }
 
-async function retryableSend(data: any, tries = 5) {
+async function sendBatch(items: OutboxItem[], idToken: string): Promise<BatchResult[]> {
+  const res = await fetch(BATCH_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify({
+      items: items.map((it) => ({ idempotency_key: it.idempotency_key, data: it.data })),
+    }),
+  });
+  if (!res.ok) {
+    const err: any = new Error(`HTTP ${res.status}`);
+    err.status = res.status;
+    throw err;
+  }
+  return ((await res.json()) as { results: BatchResult[] }).results ?? [];
+}
+
+const retryableSend = (item: OutboxItem) => withRetry(() => sendOnce(item));
+
+/** 指数バックオフで最大 tries 回。400（検証エラー）・404 / 405（API 不在）は待たずに返す */
+async function withRetry<T>(fn: () => Promise<T>, tries = 5): Promise<T> {
   let wait = 500;
-  for (let i = 0; i < tries; i++) {
+  for (let i = 1; ; i++) {
     try {
-      await sendOnce(data);
-      return;
-    } catch (e) {
-      if (i === tries - 1) throw e;
+      return await fn();
+    } catch (e: any) {
+      if (e?.status === 400 || e?.status === 404 || e?.status === 405 || i >= tries) throw e;
       await new Promise((r) => setTimeout(r, wait));
       wait = Math.min(wait * 2, 8000);
     }
@@ -86,34 +263,44 @@ function setCachedApiState(s: Exclude<ApiState, null>) {
   localStorage.setItem(API_STATE_KEY, s);
 }
 
-/** API が使えるか一度だけ確認（結果をキャッシュ） */
-async function isApiAvailable(): Promise<boolean> {
+/**
+ * API が使えるか確認する（GET /reports は認証必須のためトークンを付ける）。
+ * 404 / 405 / 501 なら down を覚えて以後は Firestore 直書き。
+ * それ以外の失敗（401・429・5xx）は API 自体はあるとみなし、覚えずに本送信で判断する。
+ * ネットワークエラーは今回だけ使えないものとする（オフライン起動で down を覚えないよう）。
+ */
+async function isApiAvailable(user: { getIdToken(): Promise<string> }): Promise<boolean> {
   const cached = getCachedApiState();
   if (cached) return cached === "up";
+  let res: Response;
   try {
-    // HEAD で軽く叩く。404/ネットエラー等なら down とみなす
-    const res = await fetch(API_URL, { method: "HEAD" });
-    const ok = res.ok;
-    setCachedApiState(ok ? "up" : "down");
-    return ok;
+    res = await fetch(`${API_URL}?limit=1`, {
+      method: "HEAD",
+      headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+    });
   } catch {
+    return false;
+  }
+  if (res.status === 404 || res.status === 405 || res.status === 501) {
     setCachedApiState("down");
     return false;
   }
+  if (res.ok) setCachedApiState("up");
+  return true;
 }
 
-async function sendOnce(data: any) {
+async function sendOnce(item: OutboxItem) {
   const user = getAuth().currentUser;
   if (!user) throw new Error("UNAUTHENTICATED");
 
   // API が無いと分かっている環境では最初から Firestore 直書き
-  if (!(await isApiAvailable())) {
-    await sendViaFirestore(data, user);
+  if (!(await isApiAvailable(user))) {
+    await sendViaFirestore(item, user);
     return;
   }
 
   try {
-    await sendViaApi(data, await user.getIdToken());
+    await sendViaApi(item, await user.getIdToken());
     // 問題なく送れたので up を覚えておく
     setCachedApiState("up");
     return;
@@ -124,7 +311,7 @@ async function sendOnce(data: any) {
       status === 404 || status === 405 || status === 501 || status === 0 || status == null;
     if (apiUnavailable) {
       setCachedApiState("down");
-      await sendViaFirestore(data, user);
+      await sendViaFirestore(item, user);
       return;
     }
     // それ以外（本当の 4xx エラーなど）は表に伝える
@@ -132,26 +319,37 @@ async function sendOnce(data: any) {
   }
 }
 
-async function sendViaApi(data: any, idToken: string) {
+async function sendViaApi(item: OutboxItem, idToken: string) {
   const res = await fetch(API_URL, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${idToken}`,
+      "Idempotency-Key": item.idempotency_key,
     },
-    body: JSON.stringify(data),
+    body: JSON.stringify(item.data),
   });
   if (!res.ok) {
     const err: any = new Error(`HTTP ${res.status}`);
     err.status = res.status;
     err.statusText = res.statusText;
+    // 検証エラーの理由（{ error }）は差し戻しの表示に使う
+    err.error = await res
+      .json()
+      .then((j: any) => (typeof j?.error === "string" ? j.error : undefined))
+      .catch(() => undefined);
     throw err;
   }
 }
 
-async function sendViaFirestore(data: any, user: { uid: string; displayName: string | null; email: string | null }) {
-  await addDoc(collection(db, "work_reports"), {
+async function sendViaFirestore(
+  { data, idempotency_key }: OutboxItem,
+  user: { uid: string; displayName: string | null; email: string | null }
+) {
+  // 文書 ID をキーにして、再送しても同じ文書を上書きするだけにする
+  await setDoc(doc(db, "work_reports", `${user.uid}_${idempotency_key}`), {
     ...data,                              // text, photoUrl(null可), track(FC) を想定
+    idempotency_key,
     author_uid: user.uid,
     author_name: user.displayName ?? null,
     author_email: user.email ?? null,
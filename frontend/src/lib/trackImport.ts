@@ -0,0 +1,151 @@
+// frontend/src/lib/trackImport.ts
+
+/* ---------------------------------------------------------------
+ * GPS 機（Garmin 等）の GPX / KML を日報の点列（lat, lng, t）に変換する。
+ * GPX: trkpt（無ければ rtept / wpt）と <time>
+ * KML: gx:Track（<when> + <gx:coord>）、無ければ LineString（時刻は TimeSpan / TimeStamp で按分）
+ * 点が TRACK_MAX_POINTS を超える軌跡は Douglas–Peucker で間引く（simplifyTrack）。
+ * ------------------------------------------------------------- */
+export type TrackPoint = { lat: number; lng: number; t: number };
+
+export type ImportedTrack = {
+  name: string | null;
+  points: TrackPoint[];
+  /** 間引く前の点の数 */
+  raw_count: number;
+  /** 点ごとの時刻がファイルにあった（false なら按分またはファイル更新時刻） */
+  timed: boolean;
+};
+
+/**
+ * 日報 1 件の軌跡の点の上限。1 秒間隔で 1 日記録した軌跡（数万点）は座標と times で
+ * API の本文上限（1MB）を、点列で work_reports の文書上限（1MiB）を超えるため。
+ */
+export const TRACK_MAX_POINTS = 3000;
+
+export async function parseTrackFile(file: File): Promise<ImportedTrack> {
+  const text = await file.text();
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("XML として読み込めません");
+
+  const root = doc.documentElement.localName.toLowerCase();
+  const track =
+    root === "gpx" ? fromGpx(doc) : root === "kml" ? fromKml(doc, file.lastModified) : null;
+  if (!track) throw new Error("GPX / KML ファイルを指定してください");
+  if (track.points.length < 2) throw new Error("2 点以上の軌跡が含まれていません");
+  return { ...track, points: simplifyTrack(track.points) };
+}
+
+/**
+ * 点が maxPoints を超えたら Douglas–Peucker で間引く（始点・終点は残す）。
+ * 許容誤差は 1m から倍々にし、maxPoints 以下に収まった最初の結果を返す。
+ */
+export function simplifyTrack(points: TrackPoint[], maxPoints = TRACK_MAX_POINTS): TrackPoint[] {
+  if (points.length <= maxPoints) return points;
+  // 始点まわりの平面（m）で近似
+  const k = Math.cos((points[0].lat * Math.PI) / 180);
+  const xy = points.map((p) => [p.lng * 111_320 * k, p.lat * 110_540] as const);
+  for (let tol = 1; ; tol *= 2) {
+    const keep = douglasPeucker(xy, tol);
+    if (keep.length <= maxPoints) return keep.map((i) => points[i]);
+  }
+}
+
+// ============ 内部実装 ============
+
+const byTag = (el: Document | Element, tag: string) => Array.from(el.getElementsByTagNameNS("*", tag));
+const textOf = (el: Element | Document, tag: string) => byTag(el, tag)[0]?.textContent?.trim() || null;
+
+function fromGpx(doc: Document): ImportedTrack {
+  let pts = byTag(doc, "trkpt");
+  if (!pts.length) pts = byTag(doc, "rtept");
+  if (!pts.length) pts = byTag(doc, "wpt");
+
+  const raw = pts.map((p) => ({
+    lat: Number(p.getAttribute("lat")),
+    lng: Number(p.getAttribute("lon")),
+    t: Date.parse(textOf(p, "time") ?? ""),
+  }));
+  const timed = raw.length > 0 && raw.every((p) => Number.isFinite(p.t));
+  const name = textOf(byTag(doc, "trk")[0] ?? doc, "name");
+  const points = fillTimes(raw, timed, null, null);
+  return { name, points, raw_count: points.length, timed };
+}
+
+function fromKml(doc: Document, fallbackMs: number): ImportedTrack {
+  const name = textOf(doc, "name");
+
+  // gx:Track：時刻付き
+  const tracks = byTag(doc, "Track");
+  if (tracks.length) {
+    const points: TrackPoint[] = [];
+    for (const tr of tracks) {
+      const whens = byTag(tr, "when").map((w) => Date.parse(w.textContent ?? ""));
+      byTag(tr, "coord").forEach((c, i) => {
+        const [lng, lat] = (c.textContent ?? "").trim().split(/\s+/).map(Number);
+        points.push({ lat, lng, t: whens[i] });
+      });
+    }
+    const timed = points.every((p) => Number.isFinite(p.t));
+    const filled = fillTimes(points, timed, null, fallbackMs);
+    return { name, points: filled, raw_count: filled.length, timed };
+  }
+
+  // LineString：座標のみ
+  const raw: TrackPoint[] = [];
+  for (const ls of byTag(doc, "LineString")) {
+    for (const tuple of (textOf(ls, "coordinates") ?? "").split(/\s+/).filter(Boolean)) {
+      const [lng, lat] = tuple.split(",").map(Number);
+      raw.push({ lat, lng, t: NaN });
+    }
+  }
+  const begin = Date.parse(textOf(doc, "begin") ?? textOf(doc, "when") ?? "");
+  const end = Date.parse(textOf(doc, "end") ?? "");
+  const points = fillTimes(raw, false, Number.isFinite(begin) ? begin : null, Number.isFinite(end) ? end : fallbackMs);
+  return { name, points, raw_count: points.length, timed: false };
+}
+
+/**
+ * 不正な座標を除き、時刻が無い場合は begin〜end を点番号で按分する
+ * （begin が無ければ全点 end の時刻）
+ */
+function fillTimes(pts: TrackPoint[], timed: boolean, begin: number | null, end: number | null): TrackPoint[] {
+  const ok = pts.filter(
+    (p) => Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180
+  );
+  if (timed) return ok;
+  const t1 = end ?? Date.now();
+  const t0 = begin ?? t1;
+  const n = Math.max(1, ok.length - 1);
+  return ok.map((p, i) => ({ ...p, t: Math.round(t0 + ((t1 - t0) * i) / n) }));
+}
+
+// 残す点の番号（昇順）。長い軌跡で再帰が深くならないようスタックで辿る
+function douglasPeucker(xy: ReadonlyArray<readonly [number, number]>, tol: number): number[] {
+  const keep = new Uint8Array(xy.length);
+  keep[0] = keep[xy.length - 1] = 1;
+  const stack: [number, number][] = [[0, xy.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    const [ax, ay] = xy[a];
+    const dx = xy[b][0] - ax, dy = xy[b][1] - ay;
+    const len2 = dx * dx + dy * dy;
+    let far = -1, farD = tol;
+    for (let i = a + 1; i < b; i++) {
+      const px = xy[i][0] - ax, py = xy[i][1] - ay;
+      // 線分 a-b への距離（a と b が同じ点なら a への距離）
+      const u = len2 ? Math.max(0, Math.min(1, (px * dx + py * dy) / len2)) : 0;
+      const d = Math.hypot(px - u * dx, py - u * dy);
+      if (d > farD) {
+        far = i;
+        farD = d;
+      }
+    }
+    if (far < 0) continue;
+    keep[far] = 1;
+    stack.push([a, far], [far, b]);
+  }
+  const out: number[] = [];
+  keep.forEach((v, i) => v && out.push(i));
+  return out;
+}
@@ -0,0 +1,47 @@
+// frontend/src/sw.ts
+/// <reference lib="webworker" />
+import { clientsClaim } from "workbox-core";
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { NavigationRoute, registerRoute } from "workbox-routing";
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: Array<{ url: string; revision: string | null }> };
+
+// registerType: 'autoUpdate' 相当（新しい SW をすぐ有効化）
+self.skipWaiting();
+clientsClaim();
+
+// アプリ本体
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+registerRoute(new NavigationRoute(createHandlerBoundToURL("index.html"), { denylist: [/^\/api\//] }));
+
+/* ---------------------------------------------------------------
+ * 地図タイル：lib/offlineTiles.ts が保存したキャッシュを使う。
+ * オンラインならネットワーク優先、オフライン／失敗時はキャッシュから返す。
+ * （通常の閲覧ではキャッシュに書き込まない。保存はダウンロード管理から）
+ * ------------------------------------------------------------- */
+const TILE_CACHE = "rinto-tiles-v1"; // lib/offlineTiles.ts と同じ名前
+
+const isTileRequest = (url: URL) =>
+  /\/tiles\/[^/]+\/\d+\/\d+\/\d+/.test(url.pathname) || url.hostname === "cyberjapandata.gsi.go.jp";
+
+async function tileFromNetworkOrCache(req: Request) {
+  const cache = await caches.open(TILE_CACHE);
+  if (!self.navigator.onLine) {
+    const hit = await cache.match(req);
+    if (hit) return hit;
+  }
+  try {
+    return await fetch(req);
+  } catch (e) {
+    const hit = await cache.match(req);
+    if (hit) return hit;
+    throw e;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  if (event.request.method !== "GET") return;
+  if (!isTileRequest(new URL(event.request.url))) return;
+  event.respondWith(tileFromNetworkOrCache(event.request));
+});
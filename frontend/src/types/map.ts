@@ -1,13 +1,13 @@
-export type LayerKind = 'basemap' | 'raster' | 'vector';
+import type { LayerLegend } from '../lib/layers';
 
 
 export type MapLayer = {
 id: string;
 name: string;
-kind: LayerKind;
-group: '基図' | 'ラスタ' | 'ベクタ';
+group: string; // レイヤ登録簿のグループ（見出し）
 visible: boolean;
 opacity: number; // 0..1
+legend?: LayerLegend | null;
 };
 
 
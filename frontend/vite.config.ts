@@ -13,7 +13,11 @@ export default defineConfig({
       disable: !ENABLE_PWA,
 
       registerType: 'autoUpdate',
-      workbox: { globPatterns: ['**/*.{js,css,html,svg,png,woff2}'] },
+      // 独自 SW（src/sw.ts）：アプリの precache に加え、保存済みタイルをオフライン時に返す
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      injectManifest: { globPatterns: ['**/*.{js,css,html,svg,png,woff2}'] },
       manifest: {
         name: 'RINTO Clone MVP',
         short_name: 'RINTO',
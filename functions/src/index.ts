@@ -4,26 +4,118 @@ import * as admin from "firebase-admin";
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import helmet from "helmet";
-import rateLimit from "express-rate-limit";
 import { z } from "zod";
+import { createHash } from "crypto";
+import { PassThrough } from "stream";
+import { pipeline } from "stream/promises";
 
 // --- 自作ミドルウェア／スキーマ ---
-import { requireAuth } from "./mw/auth";
+import { AuthUser, isRole, OrgRoles, requireAuth, requireToken, Role } from "./mw/auth";
+import { hasPermission, requirePermission } from "./mw/permissions";
 import { validateBody } from "./mw/validate";
+import { AUDIT_COLLECTION, auditItems, auditTarget, auditTrail, noAudit } from "./mw/audit";
+import { ipRateLimit, rateLimitFor } from "./mw/rateLimit";
 import {
   ReportSchema,
+  ReportPatchSchema,
   PlanSchema,
   TrackSchema,
   TreesSearchQuerySchema,
   PlansListQuerySchema,
+  OfflineBundlesListQuerySchema,
+  ReportsListQuerySchema,
+  TracksListQuerySchema,
+  TracksExportQuerySchema,
+  TreesStatsSchema,
+  TreesImportQuerySchema,
+  TreesGeohashBackfillSchema,
+  TreeImportRow,
+  ChmDetectSchema,
+  GeoJSONLineString,
+  GeoJSONMultiPolygon,
+  GeoJSONPolygon,
+  TileCoordSchema,
+  TreesTileQuerySchema,
+  InvitationSchema,
+  MemberPatchSchema,
+  ActiveOrgSchema,
+  AuditQuerySchema,
+  IdempotencyKey,
+  ReportsBatchSchema,
+  LayerSchema,
+  LayerPatchSchema,
+  CapabilitiesQuerySchema,
+  CapabilitiesImportSchema,
 } from "./schemas";
+import {
+  areaM2,
+  AreaGeom,
+  BBox,
+  bboxContains,
+  bboxOfArea,
+  bboxOfLine,
+  encodeGeohash,
+  geohashBounds,
+  geohashCover,
+  geohashUpper,
+  LineGeom,
+  pointInArea,
+  pointNearLine,
+  rectIntersectsArea,
+  rectNearLine,
+  treeLngLat,
+} from "./lib/geo";
+import { decodeCursor, encodeCursor } from "./lib/cursor";
+import { expandTemplate, fetchUpstreamTile, TileLru, TileNotFoundError } from "./lib/tileCache";
+import {
+  findOrgLayer,
+  invalidateOrgLayers,
+  isBuiltinLayer,
+  isLayerAvailable,
+  LayerDef,
+  layersCol,
+  layerTileUrl,
+  orgLayerRegistry,
+  orgLayers,
+  RESERVED_LAYER_IDS,
+} from "./lib/layers";
+import { capabilitiesLayerSource, CapabilitiesError, fetchCapabilities } from "./lib/capabilities";
+import { ZipEntry, ZipWriter } from "./lib/zip";
+import { MbtilesWriter } from "./lib/mbtiles";
+import { exportTracks, TRACK_CONTENT_TYPES, TrackRecord } from "./lib/trackExport";
+import { encodeTile, lngLatToTile, MVT_EXTENT, MvtFeature, tileBBox } from "./lib/mvt";
+import {
+  cellAgg,
+  cellSignature,
+  markCellsDirty,
+  readCells,
+  rebuildDirtyCells,
+  tileCellPrecision,
+} from "./lib/treeCells";
+import { round, summarize } from "./lib/stats";
+import {
+  ColumnMapping,
+  rowsFromCsv,
+  rowsFromGeoJSON,
+  TREE_IMPORT_KEYS,
+  validateTreeRows,
+} from "./lib/treeImport";
+import {
+  applyAllometry,
+  DEFAULT_ALLOMETRY,
+  DEFAULT_DETECT,
+  detectTreeTops,
+  makeToLngLat,
+  readChm,
+} from "./lib/chm";
 
 // --- 型拡張（requireAuth により req.user が付与される前提） ---
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace Express {
     interface Request {
-      user?: admin.auth.DecodedIdToken & { org_id?: string };
+      user?: AuthUser;
+      token?: admin.auth.DecodedIdToken;
     }
   }
 }
@@ -39,24 +131,6 @@ const ALLOWLIST = [
   "https://rinto-mvp.firebaseapp.com",
 ];
 
-// --- レイヤ設定（環境変数で上書き可） ---
-const LAYER_CONFIG = {
-  dem: process.env.TILES_DEM_URL ?? "https://tiles.example.com/dem/{z}/{x}/{y}.png",
-  slope: process.env.TILES_SLOPE_URL ?? "https://tiles.example.com/slope/{z}/{x}/{y}.png",
-  canopy_surface:
-    process.env.TILES_CANOPY_SURFACE_URL ??
-    "https://tiles.example.com/canopy_surface/{z}/{x}/{y}.png",
-  relative_stem_distance_ratio:
-    process.env.TILES_RSDR_URL ?? "https://tiles.example.com/rsdr/{z}/{x}/{y}.png",
-  orthophoto:
-    process.env.TILES_ORTHO_URL ?? "https://tiles.example.com/orthophoto/{z}/{x}/{y}.jpg",
-  contour: process.env.TILES_CONTOUR_URL ?? "https://tiles.example.com/contour/{z}/{x}/{y}.png",
-  // ベクタ（将来のMVT/PostGIS想定）
-  species_polygon:
-    process.env.MVT_SPECIES_URL ?? "https://tiles.example.com/mvt/species/{z}/{x}/{y}.pbf",
-} as const;
-type LayerKey = keyof typeof LAYER_CONFIG;
-
 // --- Express 構築 ---
 const app = express();
 app.set("trust proxy", 1);
@@ -81,16 +155,11 @@ app.use(
 );
 app.options("*", cors());
 
-// レート制限（ヘルス＆OPTIONS除外）
-app.use(
-  rateLimit({
-    windowMs: 60_000,
-    max: 60,
-    standardHeaders: true,
-    legacyHeaders: false,
-    skip: (req) => req.method === "OPTIONS" || req.path === "/healthz",
-  })
-);
+// レート制限（認証前に IP 単位。uid / org_id 単位の予算は各ルートの rateLimitFor）
+app.use(ipRateLimit);
+
+// 監査ログ（変更系リクエストを audit_logs に記録。対象文書は各ルートの auditTarget で宣言）
+app.use(auditTrail);
 
 // ヘルスチェック（認証不要）
 app.get("/healthz", (_req, res) => res.status(200).send("ok"));
@@ -102,20 +171,417 @@ const router = express.Router();
 
 /* =========================================================
  * 1) レイヤ設定
+ * 組織ごとのレイヤ登録簿（lib/layers.ts）。既定レイヤ + 組織の上書き・独自レイヤ。
  * =======================================================*/
-router.get("/config/layers", requireAuth, (_req, res) => {
-  res.json({ layers: LAYER_CONFIG });
+// ブラウザに返す項目（上流 URL ではなくプロキシ URL を渡す）
+const publicLayer = (l: LayerDef) => ({
+  id: l.id,
+  label: l.label,
+  type: l.type,
+  url: `/api/tiles/${l.id}/{z}/{x}/{y}`,
+  min_zoom: l.min_zoom,
+  max_zoom: l.max_zoom,
+  attribution: l.attribution,
+  legend: l.legend,
+  opacity: l.opacity,
+  group: l.group,
+  base: l.base,
+});
+
+// GET /config/layers（組織が使えるレイヤ。並び順どおり）
+router.get("/config/layers", requireAuth, rateLimitFor("read"), async (req, res) => {
+  try {
+    const items = (await orgLayers(req.user!.org_id)).map(publicLayer);
+    // layers / zoom は旧クライアント（キャッシュ済みの PWA）向け
+    const layers = Object.fromEntries(items.map((l) => [l.id, l.url]));
+    const zoom = Object.fromEntries(items.map((l) => [l.id, { min: l.min_zoom, max: l.max_zoom }]));
+    res.json({ items, layers, zoom });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? "internal error" });
+  }
 });
 
+/* ---------------------------- レイヤ登録簿（管理者のみ） ----------------------------
+ * orgs/{org_id}/layers/{id}。既定レイヤとの重ね方は lib/layers.ts。
+ * GET    /admin/layers      → { items }（無効・契約外も含む。上流 URL 付き）
+ * POST   /admin/layers      組織独自のレイヤを登録（id が既にあれば 409）
+ * PATCH  /admin/layers/:id  既定レイヤは表示設定のみ上書き
+ * DELETE /admin/layers/:id  独自レイヤは削除、既定レイヤは上書きを消して既定に戻す
+ * 変更は同じインスタンスでは即時、他のインスタンスでは最長 1 分で反映される。
+ * --------------------------------------------------------------------------------- */
+const layerPath = (req: Request) => `orgs/${req.user!.org_id}/layers`;
+const LAYER_SOURCE_KEYS = ["type", "url", "wms", "avg_tile_bytes"];
+// 登録簿の文書でレイヤ定義以外の項目（作成・更新の記録、取り込み元）
+const LAYER_META_KEY = /^(created|updated)_|^imported_from$/;
+
+router.get(
+  "/admin/layers",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("layers:manage"),
+  async (req, res) => {
+    try {
+      const { layers, entitled } = await orgLayerRegistry(req.user!.org_id);
+      res.json({ items: layers.map((l) => ({ ...l, available: isLayerAvailable(l, entitled) })) });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+router.post(
+  "/admin/layers",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("layers:manage"),
+  validateBody(LayerSchema),
+  auditTarget(layerPath),
+  async (req: Request, res: Response) => {
+    try {
+      const { id, ...body } = req.body as z.infer<typeof LayerSchema>;
+      if (isBuiltinLayer(id)) return res.status(409).json({ error: "layer already exists" });
+      const orgId = req.user!.org_id;
+      await layersCol(orgId)
+        .doc(id)
+        .create({
+          ...body,
+          created_by: req.user!.uid,
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      invalidateOrgLayers(orgId);
+      res.status(201).json({ id, ...body });
+    } catch (e: any) {
+      if (e?.code === 6) return res.status(409).json({ error: "layer already exists" }); // ALREADY_EXISTS
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+router.patch(
+  "/admin/layers/:id",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("layers:manage"),
+  validateBody(LayerPatchSchema),
+  auditTarget(layerPath),
+  async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id;
+      const orgId = req.user!.org_id;
+      const body = req.body as z.infer<typeof LayerPatchSchema>;
+      const ref = layersCol(orgId).doc(id);
+      const snap = await ref.get();
+
+      let update: Record<string, unknown>;
+      if (isBuiltinLayer(id)) {
+        const fixed = LAYER_SOURCE_KEYS.filter((k) => k in body);
+        if (fixed.length) {
+          return res.status(400).json({ error: `cannot change ${fixed.join(", ")} of a default layer` });
+        }
+        const merged = (await orgLayerRegistry(orgId)).layers.find((l) => l.id === id)!;
+        const { min_zoom = merged.min_zoom, max_zoom = merged.max_zoom } = body;
+        if (min_zoom > max_zoom) return res.status(400).json({ error: "min_zoom must be <= max_zoom" });
+        update = body;
+      } else {
+        if (!snap.exists) return res.status(404).json({ error: "layer not found" });
+        // 種別を変えると wms の要否も変わるため、変更後の全体を検証し直す
+        const { wms, ...rest } = body;
+        const next = { ...snap.data(), ...rest, ...(wms !== undefined ? { wms } : {}), id };
+        if (next.wms === null) delete next.wms;
+        const parsed = LayerSchema.safeParse(
+          Object.fromEntries(Object.entries(next).filter(([k]) => !LAYER_META_KEY.test(k)))
+        );
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join("; ") });
+        }
+        update = { ...body, ...(wms === null ? { wms: admin.firestore.FieldValue.delete() } : {}) };
+      }
+
+      await ref.set(
+        {
+          ...update,
+          updated_by: req.user!.uid,
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      invalidateOrgLayers(orgId);
+      const layer = (await orgLayerRegistry(orgId)).layers.find((l) => l.id === id);
+      res.json(layer);
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+router.delete(
+  "/admin/layers/:id",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("layers:manage"),
+  auditTarget(layerPath),
+  async (req: Request, res: Response) => {
+    try {
+      const orgId = req.user!.org_id;
+      const ref = layersCol(orgId).doc(req.params.id);
+      const snap = await ref.get();
+      if (!snap.exists) return res.status(404).json({ error: "layer not found" });
+      await ref.delete();
+      invalidateOrgLayers(orgId);
+      res.json({ ok: true, id: ref.id, reset: isBuiltinLayer(ref.id) });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* ---------------------------- 外部レイヤの取り込み（WMS / WMTS） ----------------------------
+ * POST /admin/layers/capabilities { url }
+ *   → GetCapabilities を取得・解析して { service, version, title, layers, tile_matrix_sets } を返す
+ *     （layers[].supported: タイルプロキシで配信できるか。できない理由は note）
+ * POST /admin/layers/import { url, layer, style?, tile_matrix_set?, format?, id, label?, group?, ... }
+ *   → 選んだレイヤを登録簿に追加し、/config/layers と同じ形で返す
+ *     （GetCapabilities は取り込み時にサーバで取り直す。URL の組み立ては lib/capabilities.ts）
+ * ------------------------------------------------------------------------------------------- */
+function capabilitiesError(res: Response, e: any) {
+  if (e instanceof CapabilitiesError) return res.status(400).json({ error: e.message });
+  // 取得の失敗（タイムアウト・名前解決など）
+  res.status(502).json({ error: `failed to fetch capabilities: ${e?.message ?? e}` });
+}
+
+router.post(
+  "/admin/layers/capabilities",
+  noAudit,
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("layers:manage"),
+  validateBody(CapabilitiesQuerySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const caps = await fetchCapabilities(req.body.url);
+      const { service, version, title, layers, tile_matrix_sets } = caps;
+      res.json({ service, version, title, layers, tile_matrix_sets });
+    } catch (e: any) {
+      capabilitiesError(res, e);
+    }
+  }
+);
+
+router.post(
+  "/admin/layers/import",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("layers:manage"),
+  validateBody(CapabilitiesImportSchema),
+  auditTarget(layerPath),
+  async (req: Request, res: Response) => {
+    const { url, layer, style, tile_matrix_set, format, id, label, group, opacity, base } =
+      req.body as z.infer<typeof CapabilitiesImportSchema>;
+    if (isBuiltinLayer(id)) return res.status(409).json({ error: "layer already exists" });
+
+    let doc: Record<string, unknown>;
+    try {
+      const caps = await fetchCapabilities(url);
+      const source = capabilitiesLayerSource(caps, { layer, style, tile_matrix_set, format });
+      const title = caps.layers.find((l) => l.name === layer)!.title;
+      const def = { label: label ?? title.slice(0, 100), ...source, group: group ?? "外部", opacity, base };
+      const parsed = LayerSchema.safeParse({ id, ...def });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join("; ") });
+      }
+      const { id: _id, ...valid } = parsed.data;
+      doc = { ...valid, imported_from: { url, service: caps.service, layer, style, tile_matrix_set } };
+    } catch (e: any) {
+      return capabilitiesError(res, e);
+    }
+
+    try {
+      const orgId = req.user!.org_id;
+      await layersCol(orgId)
+        .doc(id)
+        .create({
+          ...JSON.parse(JSON.stringify(doc)), // undefined の項目を落とす
+          created_by: req.user!.uid,
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      invalidateOrgLayers(orgId);
+      const created = (await orgLayerRegistry(orgId)).layers.find((l) => l.id === id)!;
+      res.status(201).json(publicLayer(created));
+    } catch (e: any) {
+      if (e?.code === 6) return res.status(409).json({ error: "layer already exists" }); // ALREADY_EXISTS
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* =========================================================
+ * 1-2) タイルプロキシ
+ * 認証・組織の契約・ズーム範囲を確認してから上流タイルを返す。
+ * 認証付きなので共有キャッシュには載せず（private）、ETag で再検証させる。
+ * =======================================================*/
+const tileLru = new TileLru(64 * 1024 * 1024, 10 * 60_000);
+
+// /tiles/trees/... は樹木のベクタタイル（2-3）。登録簿の id としては予約済み
+const skipReservedLayer = (req: Request, _res: Response, next: NextFunction) =>
+  RESERVED_LAYER_IDS.includes(req.params.layer) ? next("route") : next();
+
+router.get(
+  "/tiles/:layer/:z/:x/:y",
+  skipReservedLayer,
+  requireAuth,
+  rateLimitFor("tiles"),
+  async (req, res) => {
+    let tile;
+    try {
+      // 拡張子付き（.png など）でも受ける
+      tile = TileCoordSchema.parse({ ...req.params, y: req.params.y.replace(/\.\w+$/, "") });
+    } catch (e: any) {
+      return res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+
+    try {
+      const found = await findOrgLayer(req.user!.org_id, req.params.layer);
+      if (!found) return res.status(404).json({ error: "unknown layer" });
+      if (!found.entitled) {
+        return res.status(403).json({ error: "layer not licensed for this organization" });
+      }
+      const { min_zoom, max_zoom } = found.layer;
+      if (tile.z < min_zoom || tile.z > max_zoom) {
+        return res.status(404).json({ error: `zoom out of range (${min_zoom}-${max_zoom})` });
+      }
+
+      // 組織独自のレイヤは id が重なり得るため、上流 URL をキーにする
+      const url = layerTileUrl(found.layer, tile.z, tile.x, tile.y);
+      let t = tileLru.get(url);
+      if (!t) {
+        t = await fetchUpstreamTile(url);
+        tileLru.set(url, t);
+      }
+
+      res.set("Content-Type", t.contentType);
+      res.set("Cache-Control", "private, max-age=3600");
+      res.set("ETag", t.etag);
+      res.send(t.body); // If-None-Match 一致なら Express が 304 を返す
+    } catch (e: any) {
+      if (e instanceof TileNotFoundError) return res.status(404).json({ error: e.message });
+      res.status(502).json({ error: e?.message ?? "upstream error" });
+    }
+  }
+);
+
 /* =========================================================
  * 2) 樹木検索（MVP）
+ * bbox / polygon 指定時は geohash インデックスで範囲を絞り、
+ * 厳密な包含判定・属性フィルタは in-memory で行う。
  * =======================================================*/
-router.get("/trees/search", requireAuth, async (req, res) => {
+type TreeFilter = {
+  species?: string;
+  height_min?: number;
+  height_max?: number;
+  dbh_min?: number;
+  dbh_max?: number;
+};
+
+// 属性条件（in-memory）
+function matchTree(x: any, f: TreeFilter) {
+  if (f.height_min != null && !((x.height_m ?? 0) >= f.height_min)) return false;
+  if (f.height_max != null && !((x.height_m ?? 0) <= f.height_max)) return false;
+  if (f.dbh_min != null && !((x.dbh_cm ?? 0) >= f.dbh_min)) return false;
+  if (f.dbh_max != null && !((x.dbh_cm ?? 0) <= f.dbh_max)) return false;
+  if (f.species) {
+    const set = new Set(f.species.split(",").map((s) => s.trim()).filter(Boolean));
+    if (set.size && !set.has(String(x.species ?? ""))) return false;
+  }
+  return true;
+}
+
+// カーソル → startAfter 用スナップショット（存在しなければ例外）
+async function cursorSnapshot(collection: string, cursor: string) {
+  const { id } = decodeCursor<{ id?: string }>(cursor);
+  if (typeof id !== "string" || !id) throw new Error("invalid cursor");
+  const snap = await db.collection(collection).doc(id).get();
+  if (!snap.exists) throw new Error("invalid cursor");
+  return snap;
+}
+
+// 空間検索のカーソル：走査中のプレフィックス番号と最後に読んだ geohash/id
+type AreaCursor = { i: number; g?: string; id?: string };
+
+/** 1 リクエストで走査するページ数の上限（フィルタで大半が落ちる場合の読み過ぎ防止） */
+const AREA_MAX_PAGES = 5;
+
+/**
+ * 範囲内の組織の樹木を geohash プレフィックス単位で取得する。
+ * プレフィックスを順に (geohash, __name__) 順で走査し、続きがあれば next_cursor を返す。
+ * org_id はクエリで絞る（複合インデックス org_id + geohash）。読み込み後に落とすと
+ * ページの件数とカーソルが他組織の樹木に引きずられるため。
+ */
+async function findTreesInArea(
+  orgId: string,
+  area: { bbox?: BBox; polygon?: AreaGeom },
+  filter: TreeFilter,
+  limit: number,
+  cursor?: string
+) {
+  const bbox = area.bbox ?? bboxOfArea(area.polygon!);
+  const prefixes = geohashCover(bbox);
+  let pos: AreaCursor = cursor ? decodeCursor<AreaCursor>(cursor) : { i: 0 };
+  if (!Number.isInteger(pos.i) || pos.i < 0) throw new Error("invalid cursor");
+
+  const items: any[] = [];
+  let pages = 0;
+  while (pos.i < prefixes.length && items.length < limit && pages < AREA_MAX_PAGES) {
+    const p = prefixes[pos.i];
+    let q = db
+      .collection("trees")
+      .where("org_id", "==", orgId)
+      .where("geohash", ">=", p)
+      .where("geohash", "<", geohashUpper(p))
+      .orderBy("geohash")
+      .orderBy(admin.firestore.FieldPath.documentId());
+    if (pos.g != null && pos.id) q = q.startAfter(pos.g, pos.id);
+    const snap = await q.limit(limit).get();
+    pages++;
+
+    for (const d of snap.docs) {
+      const x = { id: d.id, ...d.data() } as any;
+      pos = { i: pos.i, g: x.geohash, id: d.id };
+      const ll = treeLngLat(x);
+      if (!ll) continue;
+      if (area.bbox && !bboxContains(area.bbox, ll[0], ll[1])) continue;
+      if (area.polygon && !pointInArea(ll[0], ll[1], area.polygon)) continue;
+      if (!matchTree(x, filter)) continue;
+      items.push(x);
+      if (items.length >= limit) break;
+    }
+    // このプレフィックスを読み切ったら次へ
+    if (snap.size < limit && items.length < limit) pos = { i: pos.i + 1 };
+  }
+
+  const next_cursor = pos.i < prefixes.length ? encodeCursor(pos) : null;
+  return { items, next_cursor };
+}
+
+router.get("/trees/search", requireAuth, rateLimitFor("read"), async (req, res) => {
   try {
     const qv = TreesSearchQuerySchema.parse(req.query);
-    const { species, height_min, height_max, dbh_min, dbh_max, limit } = qv;
+    const { species, height_min, height_max, dbh_min, dbh_max, limit, bbox, polygon, cursor } = qv;
+    const limitNum = limit ?? 500;
 
-    let q: FirebaseFirestore.Query = db.collection("trees");
+    if (bbox || polygon) {
+      const page = await findTreesInArea(
+        req.user!.org_id,
+        { bbox, polygon: polygon as AreaGeom | undefined },
+        { species, height_min, height_max, dbh_min, dbh_max },
+        limitNum,
+        cursor
+      );
+      return res.json(page);
+    }
+
+    let q: FirebaseFirestore.Query = db.collection("trees").where("org_id", "==", req.user!.org_id);
     if (height_min != null) q = q.where("height_m", ">=", height_min);
     if (height_max != null) q = q.where("height_m", "<=", height_max);
 
@@ -124,7 +590,8 @@ router.get("/trees/search", requireAuth, async (req, res) => {
       q = q.where("species", "==", species);
     }
 
-    q = q.limit(limit ?? 500);
+    if (cursor) q = q.startAfter(await cursorSnapshot("trees", cursor));
+    q = q.limit(limitNum);
 
     const snap = await q.get();
     let items = snap.docs.map((d) => ({ id: d.id, ...d.data() }));
@@ -136,148 +603,315 @@ router.get("/trees/search", requireAuth, async (req, res) => {
       items = items.filter((x: any) => set.has(String(x.species ?? "")));
     }
 
-    res.json({ items });
+    // カーソルは in-memory フィルタ前の最終ドキュメント
+    const last = snap.docs[snap.docs.length - 1];
+    const next_cursor = snap.size === limitNum && last ? encodeCursor({ id: last.id }) : null;
+    res.json({ items, next_cursor });
   } catch (e: any) {
     res.status(400).json({ error: e?.message ?? "bad request" });
   }
 });
 
 /* =========================================================
- * 3) 施業計画（一覧・登録・更新・削除）
+ * 2-2) 範囲集計（呼び出し元の組織の樹木をサーバ側で全件走査）
+ * 入力: { geom: Polygon|MultiPolygon, species?, height_*?, dbh_*? }
+ * 返却: { area_ha, count, height_m, dbh_cm, volume_m3, per_ha, by_species }
  * =======================================================*/
-// GET /plans
-router.get("/plans", requireAuth, async (req, res) => {
-  try {
-    const qv = PlansListQuerySchema.parse(req.query);
-    const limitNum = qv.limit ?? 50;
-
-    const orgId = req.user?.org_id;
-    let q: FirebaseFirestore.Query = db.collection("plans");
-    if (orgId) q = q.where("org_id", "==", orgId);
-    q = q.orderBy("created_at", "desc").limit(limitNum);
+/** 集計対象の上限本数（超えたら 413） */
+const STATS_MAX_TREES = 300_000;
 
-    const snap = await q.get();
-    const items = snap.docs.map((d) => ({ id: d.id, ...d.data() }));
-    res.json({ items });
-  } catch (e: any) {
-    res.status(400).json({ error: e?.message ?? "bad request" });
-  }
-});
+// 胸高断面積（m²）
+const basalAreaM2 = (dbhCm: number) => Math.PI * Math.pow(dbhCm / 200, 2);
 
-// POST /plans
 router.post(
-  "/plans",
+  "/trees/stats",
+  noAudit,
   requireAuth,
-  validateBody(PlanSchema),
+  rateLimitFor("read"),
+  validateBody(TreesStatsSchema),
   async (req: Request, res: Response) => {
     try {
-      const claimOrg = req.user?.org_id;
-      if (claimOrg && claimOrg !== req.body.org_id) {
-        return res.status(403).json({ error: "org_id mismatch" });
-      }
-      const payload = {
-        ...req.body,
-        created_by: req.user!.uid,
-        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      const { geom, ...filter } = req.body as z.infer<typeof TreesStatsSchema>;
+      const orgId = req.user!.org_id;
+      const area = geom as AreaGeom;
+      const areaHa = areaM2(area) / 10_000;
+
+      type Acc = { count: number; heights: number[]; dbhs: number[]; volume: number; basal: number };
+      const newAcc = (): Acc => ({ count: 0, heights: [], dbhs: [], volume: 0, basal: 0 });
+      const all = newAcc();
+      const bySpecies = new Map<string, Acc>();
+
+      let cursor: string | undefined;
+      do {
+        const page = await findTreesInArea(orgId, { polygon: area }, filter, 2000, cursor);
+        for (const x of page.items) {
+          const sp = String(x.species ?? "その他");
+          if (!bySpecies.has(sp)) bySpecies.set(sp, newAcc());
+          for (const acc of [all, bySpecies.get(sp)!]) {
+            acc.count++;
+            if (Number.isFinite(x.height_m)) acc.heights.push(Number(x.height_m));
+            if (Number.isFinite(x.dbh_cm)) {
+              acc.dbhs.push(Number(x.dbh_cm));
+              acc.basal += basalAreaM2(Number(x.dbh_cm));
+            }
+            if (Number.isFinite(x.volume_m3)) acc.volume += Number(x.volume_m3);
+          }
+        }
+        if (all.count > STATS_MAX_TREES) {
+          return res.status(413).json({
+            error: "too many trees",
+            note: `The area contains more than ${STATS_MAX_TREES} trees. Split the polygon.`,
+          });
+        }
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+
+      const perHa = (v: number) => (areaHa > 0 ? v / areaHa : null);
+      const summaryOf = (xs: number[], digits: number) => {
+        const s = summarize(xs);
+        return Object.fromEntries(
+          Object.entries(s).map(([k, v]) => [k, k === "n" ? v : round(v, digits)])
+        );
       };
-      const doc = await db.collection("plans").add(payload);
-      res.status(201).json({ id: doc.id });
+
+      res.json({
+        area_ha: round(areaHa, 4),
+        count: all.count,
+        height_m: summaryOf(all.heights, 2),
+        dbh_cm: summaryOf(all.dbhs, 1),
+        volume_m3: round(all.volume, 3),
+        per_ha: {
+          stems: round(perHa(all.count), 1),
+          volume_m3: round(perHa(all.volume), 3),
+          basal_area_m2: round(perHa(all.basal), 3),
+        },
+        by_species: Array.from(bySpecies.entries())
+          .map(([species, acc]) => ({
+            species,
+            count: acc.count,
+            share_pct: all.count ? round((acc.count / all.count) * 100, 1) : null,
+            mean_height_m: round(summarize(acc.heights).mean, 2),
+            mean_dbh_cm: round(summarize(acc.dbhs).mean, 1),
+            volume_m3: round(acc.volume, 3),
+            stems_per_ha: round(perHa(acc.count), 1),
+            volume_per_ha: round(perHa(acc.volume), 3),
+          }))
+          .sort((a, b) => b.count - a.count),
+      });
     } catch (e: any) {
       res.status(500).json({ error: e?.message ?? "internal error" });
     }
   }
 );
 
-// PATCH /plans/:id
-router.patch("/plans/:id", requireAuth, async (req: Request, res: Response) => {
-  try {
-    const id = req.params.id;
-
-    const ref = db.collection("plans").doc(id);
-    const snap = await ref.get();
-    if (!snap.exists) return res.status(404).json({ error: "plan not found" });
-    const docData = snap.data() as any;
-    const claimOrg = req.user?.org_id;
-    if (claimOrg && docData?.org_id && docData.org_id !== claimOrg) {
-      return res.status(403).json({ error: "forbidden" });
-    }
-
-    // 許可キーのみ
-    const ALLOWED_KEYS = new Set([
-      "name",
-      "status_pct",
-      "assignee",
-      "task_type",
-      "period_from",
-      "period_to",
-      "target_volume",
-      "geom",
-    ]);
-    const body: Record<string, any> = {};
-    for (const [k, v] of Object.entries(req.body ?? {})) {
-      if (ALLOWED_KEYS.has(k)) body[k] = v;
-    }
-    if (Object.keys(body).length === 0) {
-      return res.status(400).json({ error: "no updatable fields" });
-    }
-
-    // 進捗は 0..100 にクランプ
-    if (typeof body.status_pct === "number") {
-      body.status_pct = Math.max(0, Math.min(100, body.status_pct));
-    }
-    // 期間整合（両方あるとき）
-    if (typeof body.period_from === "string" && typeof body.period_to === "string") {
-      const from = new Date(body.period_from);
-      const to = new Date(body.period_to);
-      if (Number.isNaN(+from) || Number.isNaN(+to) || from > to) {
-        return res
-          .status(400)
-          .json({ error: "invalid period (period_from must be <= period_to)" });
+/* =========================================================
+ * 2-3) 樹木ベクタタイル（MVT）
+ * TREE_TILE_POINT_ZOOM 以上は単木の点（layer: trees）。点が多すぎる場合は
+ * 走査した樹木をタイルの格子に分けた集計（layer: tree_grid）を返す。
+ * それ未満は事前集計（lib/treeCells.ts の tree_cells）の geohash セルを
+ * 集計矩形（layer: tree_grid）として返す。事前集計は樹種別のため、
+ * 樹高・胸高直径の条件は点のズームでのみ効く（X-Tile-Filter-Partial: 1 を付ける）。
+ * 組織の樹木のみを対象とする。
+ * =======================================================*/
+const TREE_TILE_POINT_ZOOM = 16;
+const TREE_TILE_MAX_POINTS = 30_000;
+const TREE_TILE_MAX_SCAN = 200_000;
+const TREE_TILE_GRID = 64; // 集計格子の分割数（1 辺）
+const TREE_TILE_FIELDS = ["geohash", "org_id", "lat", "lng", "location", "geom", "species", "height_m", "dbh_cm", "volume_m3"];
+
+/**
+ * bbox 内の組織の樹木を geohash プレフィックスごとに全件走査する（必要なフィールドのみ）。
+ * org_id はクエリで絞る（複合インデックス org_id + geohash。findTreesInArea と同じ）。
+ * 走査件数が max に達したら truncated を返す。
+ */
+async function scanTreesInBBox(
+  orgId: string,
+  bbox: BBox,
+  max: number,
+  onTree: (x: any, ll: [number, number]) => void
+) {
+  let scanned = 0;
+  for (const p of geohashCover(bbox)) {
+    let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let q = db
+        .collection("trees")
+        .where("org_id", "==", orgId)
+        .where("geohash", ">=", p)
+        .where("geohash", "<", geohashUpper(p))
+        .orderBy("geohash")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .select(...TREE_TILE_FIELDS);
+      if (last) q = q.startAfter(last);
+      const snap = await q.limit(5000).get();
+      for (const d of snap.docs) {
+        const x = { id: d.id, ...d.data() };
+        const ll = treeLngLat(x);
+        if (ll && bboxContains(bbox, ll[0], ll[1])) onTree(x, ll);
       }
+      scanned += snap.size;
+      if (scanned >= max) return { truncated: true };
+      if (snap.size < 5000) break;
+      last = snap.docs[snap.docs.length - 1];
     }
+  }
+  return { truncated: false };
+}
 
-    body.updated_by = req.user!.uid;
-    body.updated_at = admin.firestore.FieldValue.serverTimestamp();
+/** 事前集計のセル → タイル内の集計矩形（樹種の条件のみ反映） */
+async function treeCellFeatures(orgId: string, tile: { z: number; x: number; y: number }, filter: TreeFilter) {
+  const bbox = tileBBox(tile);
+  const species = new Set((filter.species ?? "").split(",").map((s) => s.trim()).filter(Boolean));
+  const clamp = (v: number) => Math.min(MVT_EXTENT, Math.max(0, v));
+  const features: MvtFeature[] = [];
+  for (const c of await readCells(orgId, bbox, tileCellPrecision(tile.z))) {
+    const a = cellAgg(c, species);
+    if (!a.n) continue;
+    const b = geohashBounds(c.cell);
+    const p0 = lngLatToTile(b.minLng, b.maxLat, tile);
+    const p1 = lngLatToTile(b.maxLng, b.minLat, tile);
+    features.push({
+      type: "rect",
+      x0: clamp(p0.x),
+      y0: clamp(p0.y),
+      x1: clamp(p1.x),
+      y1: clamp(p1.y),
+      props: {
+        count: a.n,
+        mean_height_m: a.hn ? round(a.h / a.hn, 1) : null,
+        volume_m3: round(a.v, 2),
+      },
+    });
+  }
+  return features;
+}
 
-    await ref.set(body, { merge: true });
-    res.json({ ok: true });
+router.get("/tiles/trees/:z/:x/:y.pbf", requireAuth, rateLimitFor("tiles"), async (req, res) => {
+  let tile, filter;
+  try {
+    tile = TileCoordSchema.parse(req.params);
+    filter = TreesTileQuerySchema.parse(req.query);
   } catch (e: any) {
-    res.status(500).json({ error: e?.message ?? "internal error" });
+    return res.status(400).json({ error: e?.message ?? "bad request" });
   }
-});
 
-// DELETE /plans/:id
-router.delete("/plans/:id", requireAuth, async (req, res) => {
   try {
-    const { id } = req.params;
-    const ref = db.collection("plans").doc(id);
-    const snap = await ref.get();
-    if (!snap.exists) return res.status(404).json({ error: "plan not found" });
+    const orgId = req.user!.org_id;
 
-    const data = snap.data() as any;
-    const planOrg = data?.org_id as string | undefined;
-    if (planOrg && req.user?.org_id && planOrg !== req.user.org_id) {
-      return res.status(403).json({ error: "forbidden" });
+    res.set("Content-Type", "application/vnd.mapbox-vector-tile");
+    res.set("Cache-Control", "private, max-age=300");
+    if (tile.z < TREE_TILE_POINT_ZOOM) {
+      const layer = { name: "tree_grid", features: await treeCellFeatures(orgId, tile, filter) };
+      if (filter.height_min != null || filter.height_max != null || filter.dbh_min != null || filter.dbh_max != null) {
+        res.set("X-Tile-Filter-Partial", "1");
+      }
+      if (!layer.features.length) return res.status(204).end();
+      return res.send(encodeTile([layer]));
     }
 
-    await ref.delete();
-    res.json({ ok: true });
+    const points: MvtFeature[] = [];
+    let matched = 0;
+    const cellSize = MVT_EXTENT / TREE_TILE_GRID;
+    const cells = new Map<number, { n: number; h: number; hn: number; v: number }>();
+    const { truncated } = await scanTreesInBBox(orgId, tileBBox(tile), TREE_TILE_MAX_SCAN, (x, [lng, lat]) => {
+      if (!matchTree(x, filter)) return;
+      const pt = lngLatToTile(lng, lat, tile);
+
+      matched++;
+      if (points.length < TREE_TILE_MAX_POINTS) {
+        points.push({
+          type: "point",
+          ...pt,
+          props: {
+            id: x.id,
+            species: x.species,
+            height_m: x.height_m,
+            dbh_cm: x.dbh_cm,
+            volume_m3: x.volume_m3,
+          },
+        });
+      }
+      const gx = Math.min(TREE_TILE_GRID - 1, Math.max(0, Math.floor(pt.x / cellSize)));
+      const gy = Math.min(TREE_TILE_GRID - 1, Math.max(0, Math.floor(pt.y / cellSize)));
+      const c = cells.get(gy * TREE_TILE_GRID + gx) ?? { n: 0, h: 0, hn: 0, v: 0 };
+      c.n++;
+      if (Number.isFinite(x.height_m)) { c.h += x.height_m; c.hn++; }
+      if (Number.isFinite(x.volume_m3)) c.v += x.volume_m3;
+      cells.set(gy * TREE_TILE_GRID + gx, c);
+    });
+    if (truncated) res.set("X-Tile-Truncated", "1");
+
+    let layer;
+    if (matched <= TREE_TILE_MAX_POINTS) {
+      layer = { name: "trees", features: points };
+    } else {
+      const features: MvtFeature[] = [];
+      for (const [k, c] of cells) {
+        const gx = k % TREE_TILE_GRID;
+        const gy = Math.floor(k / TREE_TILE_GRID);
+        features.push({
+          type: "rect",
+          x0: gx * cellSize,
+          y0: gy * cellSize,
+          x1: (gx + 1) * cellSize,
+          y1: (gy + 1) * cellSize,
+          props: {
+            count: c.n,
+            mean_height_m: c.hn ? round(c.h / c.hn, 1) : null,
+            volume_m3: round(c.v, 2),
+          },
+        });
+      }
+      layer = { name: "tree_grid", features };
+    }
+    if (!layer.features.length) return res.status(204).end();
+    res.send(encodeTile([layer]));
   } catch (e: any) {
     res.status(500).json({ error: e?.message ?? "internal error" });
   }
 });
 
 /* =========================================================
- * 4) 日報／トラック
+ * 3) 施業計画（一覧・登録・更新・削除）
  * =======================================================*/
+// GET /plans
+router.get(
+  "/plans",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("plans:read"),
+  async (req, res) => {
+    try {
+      const qv = PlansListQuerySchema.parse(req.query);
+      const limitNum = qv.limit ?? 50;
+
+      let q: FirebaseFirestore.Query = db.collection("plans").where("org_id", "==", req.user!.org_id);
+      q = q.orderBy("created_at", "desc");
+      if (qv.cursor) q = q.startAfter(await cursorSnapshot("plans", qv.cursor));
+      q = q.limit(limitNum);
+
+      const snap = await q.get();
+      const items = snap.docs.map((d) => ({ id: d.id, ...d.data() }));
+      const last = snap.docs[snap.docs.length - 1];
+      const next_cursor = snap.size === limitNum && last ? encodeCursor({ id: last.id }) : null;
+      res.json({ items, next_cursor });
+    } catch (e: any) {
+      res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+  }
+);
+
+// POST /plans
 router.post(
-  "/reports",
+  "/plans",
   requireAuth,
-  validateBody(ReportSchema),
+  rateLimitFor("write"),
+  requirePermission("plans:write"),
+  validateBody(PlanSchema),
+  auditTarget("plans"),
   async (req: Request, res: Response) => {
     try {
-      const claimOrg = req.user?.org_id;
-      if (claimOrg && claimOrg !== req.body.org_id) {
+      if (req.body.org_id !== req.user!.org_id) {
         return res.status(403).json({ error: "org_id mismatch" });
       }
       const payload = {
@@ -285,7 +919,7 @@ router.post(
         created_by: req.user!.uid,
         created_at: admin.firestore.FieldValue.serverTimestamp(),
       };
-      const doc = await db.collection("reports").add(payload);
+      const doc = await db.collection("plans").add(payload);
       res.status(201).json({ id: doc.id });
     } catch (e: any) {
       res.status(500).json({ error: e?.message ?? "internal error" });
@@ -293,44 +927,92 @@ router.post(
   }
 );
 
-// 外部設計の用語に合わせた互換ルート（保存先は reports）
-router.post(
-  "/work_reports",
+// PATCH /plans/:id
+router.patch(
+  "/plans/:id",
   requireAuth,
-  validateBody(ReportSchema),
+  rateLimitFor("write"),
+  requirePermission("plans:write"),
+  auditTarget("plans"),
   async (req: Request, res: Response) => {
     try {
-      const claimOrg = req.user?.org_id;
-      if (claimOrg && claimOrg !== req.body.org_id) {
-        return res.status(403).json({ error: "org_id mismatch" });
+      const id = req.params.id;
+
+      const ref = db.collection("plans").doc(id);
+      const snap = await ref.get();
+      if (!snap.exists) return res.status(404).json({ error: "plan not found" });
+      const docData = snap.data() as any;
+      if (docData?.org_id !== req.user!.org_id) {
+        return res.status(403).json({ error: "forbidden" });
       }
-      const payload = {
-        ...req.body,
-        created_by: req.user!.uid,
-        created_at: admin.firestore.FieldValue.serverTimestamp(),
-      };
-      const doc = await db.collection("reports").add(payload);
-      res.status(201).json({ id: doc.id, alias: "work_reports" });
+
+      // 許可キーのみ
+      const ALLOWED_KEYS = new Set([
+        "name",
+        "status_pct",
+        "assignee",
+        "task_type",
+        "period_from",
+        "period_to",
+        "target_volume",
+        "geom",
+      ]);
+      const body: Record<string, any> = {};
+      for (const [k, v] of Object.entries(req.body ?? {})) {
+        if (ALLOWED_KEYS.has(k)) body[k] = v;
+      }
+      if (Object.keys(body).length === 0) {
+        return res.status(400).json({ error: "no updatable fields" });
+      }
+
+      // 進捗は 0..100 にクランプ
+      if (typeof body.status_pct === "number") {
+        body.status_pct = Math.max(0, Math.min(100, body.status_pct));
+      }
+      // 期間整合（両方あるとき）
+      if (typeof body.period_from === "string" && typeof body.period_to === "string") {
+        const from = new Date(body.period_from);
+        const to = new Date(body.period_to);
+        if (Number.isNaN(+from) || Number.isNaN(+to) || from > to) {
+          return res
+            .status(400)
+            .json({ error: "invalid period (period_from must be <= period_to)" });
+        }
+      }
+
+      body.updated_by = req.user!.uid;
+      body.updated_at = admin.firestore.FieldValue.serverTimestamp();
+
+      await ref.set(body, { merge: true });
+      res.json({ ok: true });
     } catch (e: any) {
       res.status(500).json({ error: e?.message ?? "internal error" });
     }
   }
 );
 
-// 軌跡
-router.post(
-  "/tracks",
+// DELETE /plans/:id
+router.delete(
+  "/plans/:id",
   requireAuth,
-  validateBody(TrackSchema),
-  async (req: Request, res: Response) => {
+  rateLimitFor("write"),
+  requirePermission("plans:write"),
+  auditTarget("plans"),
+  async (req, res) => {
     try {
-      const payload = {
-        ...req.body, // { report_id, geom(LineString), start, end, length_m }
-        created_by: req.user!.uid,
-        created_at: admin.firestore.FieldValue.serverTimestamp(),
-      };
-      const doc = await db.collection("tracks").add(payload);
-      res.status(201).json({ id: doc.id });
+      const { id } = req.params;
+      const ref = db.collection("plans").doc(id);
+      const snap = await ref.get();
+      if (!snap.exists) return res.status(404).json({ error: "plan not found" });
+
+      const data = snap.data() as any;
+      const planOrg = data?.org_id as string | undefined;
+      if (planOrg !== req.user!.org_id) {
+        return res.status(403).json({ error: "forbidden" });
+      }
+
+      await ref.delete();
+      res.json({ ok: true });
     } catch (e: any) {
       res.status(500).json({ error: e?.message ?? "internal error" });
     }
@@ -338,142 +1020,1928 @@ router.post(
 );
 
 /* =========================================================
- * 5) 事前DL（オフラインバンドル）
- * 入力: { bbox:{minLng,minLat,maxLng,maxLat}, zmin, zmax, layers[], limit? }
- * 返却: { urls, count, by_layer, tiles }
+ * 4) 日報／トラック
  * =======================================================*/
-const BBOX = z
-  .object({
-    minLng: z.number().gte(-180).lte(180),
-    minLat: z.number().gte(-85.0511).lte(85.0511),
-    maxLng: z.number().gte(-180).lte(180),
-    maxLat: z.number().gte(-85.0511).lte(85.0511),
-  })
-  .refine((b) => b.maxLat > b.minLat, { message: "maxLat must be > minLat" });
+/* ------------------------------ 日報の変更履歴 ------------------------------
+ * 作成・修正・論理削除のたびに reports/{id}/revisions/{rev} を 1 件書く（以後は不変）。
+ * rev は日報ごとの連番（reports.rev に最新値）。changes は項目ごとの { before, after }。
+ * ---------------------------------------------------------------------------*/
+type ReportAction = "create" | "update" | "delete";
 
-const OfflineBundleSchema = z
-  .object({
-    bbox: BBOX,
-    zmin: z.number().int().min(0).max(22),
-    zmax: z.number().int().min(0).max(22),
-    layers: z.array(z.string()).min(1),
-    limit: z.number().int().min(1).max(200_000).optional(), // 返却するURL上限（任意）
-  })
-  .refine((v) => v.zmax >= v.zmin, { message: "zmax must be >= zmin" })
-  .transform((v) => ({
-    ...v,
-    limit: v.limit ?? 30_000, // 既定上限
-  }));
+/** 履歴に載せない管理用フィールド */
+const REPORT_META_KEYS = new Set([
+  "rev",
+  "idempotency_key",
+  "created_by",
+  "created_at",
+  "updated_by",
+  "updated_at",
+]);
 
-// 経度→X タイル、緯度→Y タイル（WebMercator）
-function lngLatToTileXY(lng: number, lat: number, z: number) {
-  const latClamped = Math.max(Math.min(lat, 85.05112878), -85.05112878);
-  const n = Math.pow(2, z);
-  const x = Math.floor(((lng + 180) / 360) * n);
-  const latRad = (latClamped * Math.PI) / 180;
-  const y = Math.floor(
-    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n
-  );
+const revisionId = (rev: number) => String(rev).padStart(6, "0");
+
+function reportChanges(before: Record<string, any>, after: Record<string, any>) {
+  const changes: Record<string, { before: any; after: any }> = {};
+  for (const k of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (REPORT_META_KEYS.has(k) || !(k in after)) continue;
+    if (JSON.stringify(before[k] ?? null) !== JSON.stringify(after[k] ?? null)) {
+      changes[k] = { before: before[k] ?? null, after: after[k] ?? null };
+    }
+  }
+  return changes;
+}
+
+function writeRevision(
+  tx: FirebaseFirestore.Transaction | FirebaseFirestore.WriteBatch,
+  ref: FirebaseFirestore.DocumentReference,
+  rev: number,
+  action: ReportAction,
+  changes: Record<string, { before: any; after: any }>,
+  uid: string
+) {
+  tx.create(ref.collection("revisions").doc(revisionId(rev)), {
+    rev,
+    action,
+    changes,
+    by: uid,
+    at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/* ---- 冪等な日報登録（Idempotency-Key） ----
+ * outbox は 1 件ごとにキーを生成して保存し、再送のたびに同じキーを送る。
+ * 日報 ID を (org_id, uid, キー) から決めて create するため、応答が失われて再送されても
+ * 2 件目は ALREADY_EXISTS になり、最初の ID を返す（同時に届いた再送でも二重にならない）。
+ */
+const ALREADY_EXISTS = 6; // gRPC status
+
+/** 新しい日報の参照（キー付きは (org_id, uid, キー) から決まる ID） */
+function newReportRef(orgId: string, uid: string, idempotencyKey?: string) {
+  const reports = db.collection("reports");
+  if (!idempotencyKey) return reports.doc();
+  const hash = createHash("sha256").update(`${orgId}\n${uid}\n${idempotencyKey}`).digest("hex");
+  return reports.doc("k" + hash.slice(0, 32));
+}
+
+/** 日報（rev 1）と create の履歴を書く（batch / transaction 共通） */
+function writeNewReport(
+  w: FirebaseFirestore.Transaction | FirebaseFirestore.WriteBatch,
+  ref: FirebaseFirestore.DocumentReference,
+  body: Record<string, any>,
+  uid: string,
+  idempotencyKey?: string
+) {
+  w.create(ref, {
+    ...body,
+    rev: 1,
+    ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}),
+    created_by: uid,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  writeRevision(w, ref, 1, "create", reportChanges({}, body), uid);
+}
+
+/**
+ * 日報を作成し、rev 1（create）の履歴を同時に書く。
+ * idempotencyKey があり同じキーで作成済みなら書かずに replayed: true を返す。
+ */
+async function createReport(body: Record<string, any>, uid: string, idempotencyKey?: string) {
+  const ref = newReportRef(body.org_id, uid, idempotencyKey);
+  const batch = db.batch();
+  writeNewReport(batch, ref, body, uid, idempotencyKey);
+  try {
+    await batch.commit();
+  } catch (e: any) {
+    if (idempotencyKey && e?.code === ALREADY_EXISTS) return { ref, replayed: true };
+    throw e;
+  }
+  return { ref, replayed: false };
+}
+
+/** POST /reports・/work_reports 共通（Idempotency-Key 付きの再送は 200 で最初の ID を返す） */
+async function postReport(req: Request, res: Response, extra: Record<string, unknown> = {}) {
+  try {
+    if (req.body.org_id !== req.user!.org_id) {
+      return res.status(403).json({ error: "org_id mismatch" });
+    }
+    const key = req.get("Idempotency-Key");
+    if (key !== undefined && !IdempotencyKey.safeParse(key).success) {
+      return res.status(400).json({ error: "invalid Idempotency-Key" });
+    }
+    const { ref, replayed } = await createReport(req.body, req.user!.uid, key);
+    if (replayed) {
+      res.set("Idempotent-Replayed", "true");
+      return res.status(200).json({ id: ref.id, replayed: true, ...extra });
+    }
+    res.status(201).json({ id: ref.id, ...extra });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? "internal error" });
+  }
+}
+
+/** 修正・削除できるか（同一 org かつ 作成者本人か reports:manage を持つロール） */
+function canEditReport(req: Request, data: Record<string, any>) {
+  const u = req.user!;
+  if (data.org_id !== u.org_id) return false;
+  return data.created_by === u.uid || hasPermission(u.role, "reports:manage");
+}
+
+/** ステータスコード付きの例外（ルート側で e.status を返す） */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * 日報を修正または論理削除する（トランザクションで履歴と rev を同時に更新）。
+ * patch: 修正内容（delete のときは deleted_at / deleted_by を付ける）
+ */
+async function changeReport(req: Request, id: string, action: "update" | "delete", patch: Record<string, any>) {
+  const ref = db.collection("reports").doc(id);
+  const uid = req.user!.uid;
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, "report not found");
+    const data = snap.data() as Record<string, any>;
+    if (!canEditReport(req, data)) throw new HttpError(403, "forbidden");
+    if (data.deleted_at) throw new HttpError(409, "report already deleted");
+
+    const after =
+      action === "delete" ? { deleted_at: admin.firestore.Timestamp.now(), deleted_by: uid } : patch;
+    const changes = reportChanges(data, after);
+    if (action === "update" && !Object.keys(changes).length) return { rev: data.rev ?? 0, changed: false };
+
+    const rev = (data.rev ?? 0) + 1;
+    tx.update(ref, {
+      ...after,
+      rev,
+      updated_by: uid,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    writeRevision(tx, ref, rev, action, changes, uid);
+    return { rev, changed: true };
+  });
+}
+
+router.post(
+  "/reports",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("reports:write"),
+  validateBody(ReportSchema),
+  auditTarget("reports"),
+  (req: Request, res: Response) => postReport(req, res)
+);
+
+// 外部設計の用語に合わせた互換ルート（保存先は reports）
+router.post(
+  "/work_reports",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("reports:write"),
+  validateBody(ReportSchema),
+  auditTarget("reports"),
+  (req: Request, res: Response) => postReport(req, res, { alias: "work_reports" })
+);
+
+/* ---------------------------- 日報の一括登録 ----------------------------
+ * POST /reports/batch { items: [{ idempotency_key?, data }] }（outbox の一括送信）
+ *   → { results: [{ index, status, id?, error? }], created, replayed, failed }
+ * data は ReportSchema で 1 件ずつ検証し、REPORTS_BATCH_CHUNK 件ずつトランザクションで書く
+ * （チャンク内は全件成功か全件失敗。失敗したチャンクの項目は failed）。
+ * status: created | replayed（同じキーで登録済み）| invalid | forbidden | failed
+ * 監査ログには created / replayed の日報 ID を項目ごとに残す（auditItems）。
+ * ---------------------------------------------------------------------- */
+const REPORTS_BATCH_CHUNK = 100; // 1 件 = 日報 + 履歴の 2 書き込み（トランザクション上限 500 の内側）
+
+type ReportBatchResult = {
+  index: number;
+  status: "created" | "replayed" | "invalid" | "forbidden" | "failed";
+  id?: string;
+  error?: string;
+};
+
+router.post(
+  "/reports/batch",
+  requireAuth,
+  rateLimitFor("bulk"),
+  requirePermission("reports:write"),
+  validateBody(ReportsBatchSchema),
+  auditTarget("reports"),
+  async (req: Request, res: Response) => {
+    try {
+      const { uid, org_id: orgId } = req.user!;
+      const { items } = req.body as z.infer<typeof ReportsBatchSchema>;
+      const results: ReportBatchResult[] = new Array(items.length);
+      const pending: { index: number; ref: FirebaseFirestore.DocumentReference; body: any; key?: string }[] = [];
+      const firstByKey = new Map<string, number>(); // 同じリクエスト内で重複したキー → 最初の index
+      const dups: [number, number][] = [];
+
+      items.forEach(({ idempotency_key: key, data }, index) => {
+        const parsed = ReportSchema.safeParse(data);
+        if (!parsed.success) {
+          const error = parsed.error.issues.map((i) => i.message).join(", ");
+          results[index] = { index, status: "invalid", error };
+        } else if (parsed.data.org_id !== orgId) {
+          results[index] = { index, status: "forbidden", error: "org_id mismatch" };
+        } else if (key && firstByKey.has(key)) {
+          dups.push([index, firstByKey.get(key)!]);
+        } else {
+          if (key) firstByKey.set(key, index);
+          pending.push({ index, ref: newReportRef(orgId, uid, key), body: parsed.data, key });
+        }
+      });
+
+      for (let i = 0; i < pending.length; i += REPORTS_BATCH_CHUNK) {
+        const chunk = pending.slice(i, i + REPORTS_BATCH_CHUNK);
+        try {
+          const existing = await db.runTransaction(async (tx) => {
+            const keyed = chunk.filter((p) => p.key);
+            const snaps = keyed.length ? await tx.getAll(...keyed.map((p) => p.ref)) : [];
+            const done = new Set(snaps.filter((s) => s.exists).map((s) => s.id));
+            for (const p of chunk) if (!done.has(p.ref.id)) writeNewReport(tx, p.ref, p.body, uid, p.key);
+            return done;
+          });
+          for (const p of chunk) {
+            const status = existing.has(p.ref.id) ? "replayed" : "created";
+            results[p.index] = { index: p.index, status, id: p.ref.id };
+          }
+        } catch (e: any) {
+          for (const p of chunk) {
+            results[p.index] = { index: p.index, status: "failed", error: e?.message ?? "write failed" };
+          }
+        }
+      }
+      // 重複キーは最初の項目の結果に従う（作成済みなら replayed）
+      for (const [index, first] of dups) {
+        const r = results[first];
+        results[index] = { ...r, index, status: r.status === "created" ? "replayed" : r.status };
+      }
+
+      const count = (s: ReportBatchResult["status"]) => results.filter((r) => r.status === s).length;
+      auditItems(
+        res,
+        results.filter((r) => r.id).map((r) => ({ id: r.id!, status: r.status }))
+      );
+      res.json({
+        results,
+        created: count("created"),
+        replayed: count("replayed"),
+        failed: results.length - count("created") - count("replayed"),
+      });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* ---------------------------- 日報の一覧・集計 ----------------------------
+ * GET /reports?from&to&task_code&worker_id&team&site_id&stand_id&incident&limit&cursor
+ *   → { items, next_cursor }（work_date の新しい順）
+ * GET /reports?...&group_by=month|work_date|task_code|worker_id|team|site_id|stand_id
+ *   → { groups: [{ key, unit, count, output_value, work_time_min, machine_time_min }], scanned, truncated }
+ *   output_value は単位が混ざると意味をなさないため (key, unit) ごとに合計する。
+ * Firestore 側は org_id と work_date の範囲のみで絞り（複合インデックス org_id + work_date desc）、
+ * それ以外の条件はメモリ上で判定する。
+ * ---------------------------------------------------------------------------*/
+type ReportsListQuery = z.infer<typeof ReportsListQuerySchema>;
+
+const REPORT_EQ_FILTERS = ["task_code", "worker_id", "team", "site_id", "stand_id", "incident"] as const;
+/** 一覧 1 リクエストで走査する件数の上限（メモリ上の絞り込みで大半が落ちる場合の読み過ぎ防止） */
+const REPORTS_MAX_SCAN = 2_000;
+/** 集計で走査する件数の上限 */
+const REPORTS_AGG_MAX_SCAN = 50_000;
+const REPORTS_PAGE = 500;
+
+function reportsQuery(orgId: string, q: ReportsListQuery) {
+  let r: FirebaseFirestore.Query = db.collection("reports").where("org_id", "==", orgId);
+  if (q.from) r = r.where("work_date", ">=", q.from);
+  if (q.to) r = r.where("work_date", "<=", q.to);
+  return r.orderBy("work_date", "desc");
+}
+
+// 論理削除済み（deleted_at あり）は一覧・集計に含めない
+const reportMatches = (x: any, q: ReportsListQuery) =>
+  !x.deleted_at && REPORT_EQ_FILTERS.every((k) => q[k] == null || x[k] === q[k]);
+
+/**
+ * 条件に合う日報を順に onReport へ渡す。onReport が false を返すか max 件読んだら止める。
+ * last: 最後に読んだドキュメント（続きのカーソル用）、done: 末尾まで読んだ
+ */
+async function scanReports(
+  q: FirebaseFirestore.Query,
+  start: FirebaseFirestore.DocumentSnapshot | null,
+  max: number,
+  onReport: (doc: FirebaseFirestore.QueryDocumentSnapshot) => boolean | void
+) {
+  let last = start;
+  let scanned = 0;
+  for (;;) {
+    const want = Math.min(REPORTS_PAGE, max - scanned);
+    let page = q.limit(want);
+    if (last) page = page.startAfter(last);
+    const snap = await page.get();
+    for (const d of snap.docs) {
+      last = d;
+      scanned++;
+      if (onReport(d) === false) return { last, scanned, done: false };
+    }
+    if (snap.size < want) return { last, scanned, done: true };
+    if (scanned >= max) return { last, scanned, done: false };
+  }
+}
+
+router.get(
+  "/reports",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("reports:read"),
+  async (req, res) => {
+    let qv: ReportsListQuery;
+    try {
+      qv = ReportsListQuerySchema.parse(req.query);
+    } catch (e: any) {
+      return res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+
+    try {
+      const base = reportsQuery(req.user!.org_id, qv);
+
+      if (qv.group_by) {
+        const key = qv.group_by;
+        const groups = new Map<string, {
+          key: string | null; unit: string | null; count: number;
+          output_value: number; work_time_min: number; machine_time_min: number;
+        }>();
+        const { scanned, done } = await scanReports(base, null, REPORTS_AGG_MAX_SCAN, (d) => {
+          const x = d.data();
+          if (!reportMatches(x, qv)) return;
+          const k = key === "month" ? (x.work_date ? String(x.work_date).slice(0, 7) : null) : x[key] ?? null;
+          const unit = x.unit ?? null;
+          const id = JSON.stringify([k, unit]);
+          const g = groups.get(id) ?? {
+            key: k, unit, count: 0, output_value: 0, work_time_min: 0, machine_time_min: 0,
+          };
+          g.count++;
+          g.output_value += Number(x.output_value) || 0;
+          g.work_time_min += Number(x.work_time_min) || 0;
+          g.machine_time_min += Number(x.machine_time_min) || 0;
+          groups.set(id, g);
+        });
+        const out = [...groups.values()]
+          .sort(
+            (a, b) =>
+              String(a.key ?? "").localeCompare(String(b.key ?? "")) ||
+              String(a.unit ?? "").localeCompare(String(b.unit ?? ""))
+          )
+          .map((g) => ({ ...g, output_value: round(g.output_value, 3) }));
+        return res.json({ group_by: key, groups: out, scanned, truncated: !done });
+      }
+
+      const limitNum = qv.limit ?? 50;
+      const start = qv.cursor
+        ? await cursorSnapshot("reports", qv.cursor).catch(() => {
+            throw new HttpError(400, "invalid cursor");
+          })
+        : null;
+      const items: any[] = [];
+      const { last, done } = await scanReports(base, start, REPORTS_MAX_SCAN, (d) => {
+        const x = d.data();
+        if (reportMatches(x, qv)) items.push({ id: d.id, ...x });
+        return items.length < limitNum;
+      });
+      const next_cursor = !done && last ? encodeCursor({ id: last.id }) : null;
+      res.json({ items, next_cursor });
+    } catch (e: any) {
+      if (e instanceof HttpError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// PATCH /reports/:id（部分修正。変更がなければ rev は進まない）
+router.patch(
+  "/reports/:id",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("reports:write"),
+  validateBody(ReportPatchSchema),
+  auditTarget("reports"),
+  async (req: Request, res: Response) => {
+    try {
+      const r = await changeReport(req, req.params.id, "update", req.body);
+      res.json({ ok: true, ...r });
+    } catch (e: any) {
+      if (e instanceof HttpError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// DELETE /reports/:id（論理削除：deleted_at / deleted_by を付ける。一覧・集計から除外）
+router.delete(
+  "/reports/:id",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("reports:write"),
+  auditTarget("reports"),
+  async (req, res) => {
+    try {
+      const r = await changeReport(req, req.params.id, "delete", {});
+      res.json({ ok: true, rev: r.rev });
+    } catch (e: any) {
+      if (e instanceof HttpError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// GET /reports/:id/revisions（変更履歴。rev の古い順）
+router.get(
+  "/reports/:id/revisions",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      const ref = db.collection("reports").doc(req.params.id);
+      const snap = await ref.get();
+      if (!snap.exists) return res.status(404).json({ error: "report not found" });
+      if (snap.get("org_id") !== req.user!.org_id) return res.status(403).json({ error: "forbidden" });
+
+      const revs = await ref.collection("revisions").orderBy("rev", "asc").get();
+      res.json({ report: { id: snap.id, ...snap.data() }, items: revs.docs.map((d) => d.data()) });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// 軌跡
+router.post(
+  "/tracks",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("tracks:write"),
+  validateBody(TrackSchema),
+  auditTarget("tracks"),
+  async (req: Request, res: Response) => {
+    try {
+      // 自組織の日報にだけ紐付ける（他組織の日報 ID の存在は 404 で隠す）
+      const report = await db.collection("reports").doc(req.body.report_id).get();
+      if (!report.exists || report.get("org_id") !== req.user!.org_id) {
+        return res.status(404).json({ error: "report not found" });
+      }
+      if (report.get("deleted_at")) return res.status(409).json({ error: "report deleted" });
+
+      const payload = {
+        ...req.body, // { report_id, geom(LineString), start, end, length_m, times? }
+        org_id: req.user!.org_id,
+        created_by: req.user!.uid,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      const doc = await db.collection("tracks").add(payload);
+      res.status(201).json({ id: doc.id });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* ---------------------------- 軌跡の取得・書き出し ----------------------------
+ * GET /tracks?report_id&from&to&limit&cursor → { items, next_cursor }（start の新しい順）
+ * GET /tracks/export?report_id&from&to&format=gpx|kml|geojson → ファイル（添付）
+ * report_id 指定時は日報の org を確認して、その日報の軌跡をすべて返す（org_id を持たない旧データも対象）。
+ * それ以外は org_id と start の範囲で検索する（複合インデックス org_id + start desc）。
+ * 日付のみの from / to は日本時間のその日の始まり / 終わり。
+ * ---------------------------------------------------------------------------*/
+type TracksQuery = z.infer<typeof TracksExportQuerySchema>;
+
+/** 書き出し 1 回あたりの軌跡数の上限 */
+const TRACKS_EXPORT_MAX = 2_000;
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function dateRange(q: { from?: string; to?: string }) {
+  const at = (s: string, edge: string) => new Date(DATE_ONLY_RE.test(s) ? `${s}T${edge}+09:00` : s).toISOString();
+  return {
+    from: q.from ? at(q.from, "00:00:00.000") : null,
+    to: q.to ? at(q.to, "23:59:59.999") : null,
+  };
+}
+
+const toTrack = (d: FirebaseFirestore.QueryDocumentSnapshot) => ({ id: d.id, ...d.data() }) as TrackRecord;
+
+/** 条件に合う軌跡（start の新しい順）。cursor は report_id 未指定時のみ */
+async function findTracks(req: Request, q: TracksQuery, limit: number, cursor?: string) {
+  const { from, to } = dateRange(q);
+  const orgId = req.user!.org_id;
+
+  if (q.report_id) {
+    const report = await db.collection("reports").doc(q.report_id).get();
+    if (!report.exists) throw new HttpError(404, "report not found");
+    if (report.get("org_id") !== orgId) throw new HttpError(403, "forbidden");
+    const snap = await db.collection("tracks").where("report_id", "==", q.report_id).limit(limit).get();
+    const items = snap.docs
+      .map(toTrack)
+      .filter((t) => (!from || t.start >= from) && (!to || t.start <= to))
+      .sort((a, b) => b.start.localeCompare(a.start));
+    return { items, next_cursor: null };
+  }
+
+  let tq: FirebaseFirestore.Query = db.collection("tracks").where("org_id", "==", orgId);
+  if (from) tq = tq.where("start", ">=", from);
+  if (to) tq = tq.where("start", "<=", to);
+  tq = tq.orderBy("start", "desc");
+  if (cursor) tq = tq.startAfter(await cursorSnapshot("tracks", cursor));
+  const snap = await tq.limit(limit).get();
+  const last = snap.docs[snap.docs.length - 1];
+  return {
+    items: snap.docs.map(toTrack),
+    next_cursor: snap.size === limit && last ? encodeCursor({ id: last.id }) : null,
+  };
+}
+
+router.get(
+  "/tracks",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("tracks:read"),
+  async (req, res) => {
+    try {
+      const qv = TracksListQuerySchema.parse(req.query);
+      res.json(await findTracks(req, qv, qv.limit ?? 50, qv.cursor));
+    } catch (e: any) {
+      if (e instanceof HttpError) return res.status(e.status).json({ error: e.message });
+      res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+  }
+);
+
+router.get(
+  "/tracks/export",
+  requireAuth,
+  rateLimitFor("export"),
+  requirePermission("tracks:read"),
+  async (req, res) => {
+    try {
+      const qv = TracksExportQuerySchema.parse(req.query);
+      const format = qv.format ?? "gpx";
+      const { items } = await findTracks(req, qv, TRACKS_EXPORT_MAX);
+      if (!items.length) return res.status(404).json({ error: "no tracks" });
+
+      const name = qv.report_id ? `report_${qv.report_id}` : `tracks_${qv.from ?? ""}_${qv.to ?? ""}`;
+      const file = `${name.replace(/[^\w.-]+/g, "_")}.${format}`;
+      res.set("Content-Type", `${TRACK_CONTENT_TYPES[format]}; charset=utf-8`);
+      res.set("Content-Disposition", `attachment; filename="${file}"`);
+      res.send(exportTracks(items, format, name));
+    } catch (e: any) {
+      if (e instanceof HttpError) return res.status(e.status).json({ error: e.message });
+      res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+  }
+);
+
+/* =========================================================
+ * 5) 事前DL（オフラインバンドル）
+ * 入力: { bbox | area(+buffer_m), zmin, zmax, layers[], limit?, format?, include_data?, dry_run? }
+ *   area は Polygon / MultiPolygon（計画の geom など）か LineString（軌跡。buffer_m で幅を持たせる）。
+ *   範囲に掛かるタイルだけを列挙する。
+ * dry_run: 列挙だけ行い { tiles, by_zoom, by_layer, estimated_bytes } を返す（確定前の見積り）
+ * format=urls（既定）: { urls, count, by_layer, by_zoom, tiles, estimated_bytes } を返す（URL はタイルプロキシ）
+ * format=zip|mbtiles: ジョブを作成して 202 { id } を返す。ワーカがサーバ側でタイルを取得して
+ *   1 ファイルにまとめ、樹木・施業計画（同じ範囲）と manifest を同梱して Storage に保存する。
+ *   進捗・結果（ダウンロード URL と SHA-256）は GET /offline/bundle/:id、履歴は GET /offline/bundles。
+ *   見積り容量が PACKAGE_MAX_BYTES を超える場合は（dry_run でも）413。
+ * =======================================================*/
+const BBOX = z
+  .object({
+    minLng: z.number().gte(-180).lte(180),
+    minLat: z.number().gte(-85.0511).lte(85.0511),
+    maxLng: z.number().gte(-180).lte(180),
+    maxLat: z.number().gte(-85.0511).lte(85.0511),
+  })
+  .refine((b) => b.maxLat > b.minLat, { message: "maxLat must be > minLat" });
+
+const OfflineBundleSchema = z
+  .object({
+    bbox: BBOX.optional(),
+    area: z.union([GeoJSONPolygon, GeoJSONMultiPolygon, GeoJSONLineString]).optional(),
+    buffer_m: z.number().positive().max(5_000).optional(), // LineString の片側幅（既定 50m）
+    dry_run: z.boolean().optional(),
+    zmin: z.number().int().min(0).max(22),
+    zmax: z.number().int().min(0).max(22),
+    layers: z.array(z.string()).min(1),
+    limit: z.number().int().min(1).max(200_000).optional(), // 返却するURL上限（任意）
+    format: z.enum(["urls", "zip", "mbtiles"]).optional(),
+    include_data: z.boolean().optional(), // 樹木・計画を同梱（zip/mbtiles のみ）
+  })
+  .refine((v) => v.zmax >= v.zmin, { message: "zmax must be >= zmin" })
+  .refine((v) => (v.bbox == null) !== (v.area == null), { message: "bbox か area のどちらか一方を指定してください" })
+  .refine((v) => v.format !== "mbtiles" || v.layers.length === 1, {
+    message: "mbtiles は 1 レイヤのみ指定できます（複数は zip）",
+  })
+  .transform((v) => {
+    const shape = offlineShape(v.area as OfflineArea | undefined, v.buffer_m ?? 50);
+    return {
+      ...v,
+      bbox: v.bbox ?? shape!.bbox, // 範囲形状の外接矩形（データ抽出・manifest 用）
+      shape,
+      limit: v.limit ?? 30_000, // 既定上限
+      format: v.format ?? "urls",
+      include_data: v.include_data ?? true,
+    };
+  });
+type OfflineBundleInput = z.infer<typeof OfflineBundleSchema>;
+
+type OfflineArea = AreaGeom | LineGeom;
+
+/** 範囲形状 → 外接矩形と、矩形・点の当たり判定 */
+function offlineShape(area: OfflineArea | undefined, bufferM: number) {
+  if (!area) return null;
+  if (area.type === "LineString") {
+    return {
+      bbox: bboxOfLine(area, bufferM),
+      hitsRect: (r: BBox) => rectNearLine(r, area, bufferM),
+      hitsPoint: (lng: number, lat: number) => pointNearLine(lng, lat, area, bufferM),
+    };
+  }
+  return {
+    bbox: bboxOfArea(area),
+    hitsRect: (r: BBox) => rectIntersectsArea(r, area),
+    hitsPoint: (lng: number, lat: number) => pointInArea(lng, lat, area),
+  };
+}
+type OfflineShape = NonNullable<ReturnType<typeof offlineShape>>;
+
+/** zip/mbtiles ジョブで扱うタイル数の上限（タイル数 × レイヤ数） */
+const PACKAGE_MAX_TILES = 200_000;
+/**
+ * 見積り容量（estimated_bytes）の上限。mbtiles はワーカ（2GB）が作業中のファイルを
+ * ダウンロードした Buffer・sql.js のメモリ上の DB・書き出したバイト列の 3 つを同時に持つため、
+ * その 3 倍がメモリに収まる大きさにする。zip は部分ファイルに書くので 4GB（ZIP64 非対応）の手前まで。
+ */
+const PACKAGE_MAX_BYTES = { mbtiles: 512 * 1024 * 1024, zip: 3 * 1024 * 1024 * 1024 };
+/** 同梱する樹木の上限 */
+const PACKAGE_MAX_TREES = 100_000;
+/** 並列に取得するタイル数 */
+const PACKAGE_FETCH_CONCURRENCY = 16;
+/** ダウンロード URL の有効期間 */
+const PACKAGE_URL_TTL_MS = 7 * 24 * 3600_000;
+
+// 経度→X タイル、緯度→Y タイル（WebMercator）
+function lngLatToTileXY(lng: number, lat: number, z: number) {
+  const latClamped = Math.max(Math.min(lat, 85.05112878), -85.05112878);
+  const n = Math.pow(2, z);
+  const x = Math.floor(((lng + 180) / 360) * n);
+  const latRad = (latClamped * Math.PI) / 180;
+  const y = Math.floor(
+    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n
+  );
   // wrap X/Y
   const xWrapped = ((x % n) + n) % n;
   const yClamped = Math.max(0, Math.min(n - 1, y));
   return { x: xWrapped, y: yClamped };
 }
 
-// bbox をズーム z のタイル範囲へ
-function tilesForBBox(b: z.infer<typeof BBOX>, z: number) {
-  const splitByIDL =
-    b.minLng <= b.maxLng
-      ? [{ minLng: b.minLng, maxLng: b.maxLng }]
-      : [
-          { minLng: -180, maxLng: b.maxLng },
-          { minLng: b.minLng, maxLng: 180 },
-        ];
-  const parts: Array<{ x0: number; x1: number; y0: number; y1: number }> = [];
-  for (const part of splitByIDL) {
-    const a = lngLatToTileXY(part.minLng, b.maxLat, z); // NW
-    const c = lngLatToTileXY(part.maxLng, b.minLat, z); // SE
-    parts.push({
-      x0: Math.min(a.x, c.x),
-      x1: Math.max(a.x, c.x),
-      y0: Math.min(a.y, c.y),
-      y1: Math.max(a.y, c.y),
-    });
+// bbox をズーム z のタイル範囲へ
+function tilesForBBox(b: z.infer<typeof BBOX>, z: number) {
+  const splitByIDL =
+    b.minLng <= b.maxLng
+      ? [{ minLng: b.minLng, maxLng: b.maxLng }]
+      : [
+          { minLng: -180, maxLng: b.maxLng },
+          { minLng: b.minLng, maxLng: 180 },
+        ];
+  const parts: Array<{ x0: number; x1: number; y0: number; y1: number }> = [];
+  for (const part of splitByIDL) {
+    const a = lngLatToTileXY(part.minLng, b.maxLat, z); // NW
+    const c = lngLatToTileXY(part.maxLng, b.minLat, z); // SE
+    parts.push({
+      x0: Math.min(a.x, c.x),
+      x1: Math.max(a.x, c.x),
+      y0: Math.min(a.y, c.y),
+      y1: Math.max(a.y, c.y),
+    });
+  }
+  return parts;
+}
+
+type TileXYZ = { z: number; x: number; y: number };
+
+/**
+ * bbox × ズーム範囲のタイルを列挙。max を超えたら null。
+ * shape 指定時は形状に掛かるタイルのみ（親が外れた子は調べない）。
+ */
+function enumerateTiles(
+  bbox: z.infer<typeof BBOX>,
+  zmin: number,
+  zmax: number,
+  max: number,
+  shape?: OfflineShape | null
+) {
+  if (shape) return enumerateShapeTiles(shape, zmin, zmax, max);
+  const tiles: TileXYZ[] = [];
+  const seen = new Set<string>();
+  for (let z = zmin; z <= zmax; z++) {
+    for (const r of tilesForBBox(bbox, z)) {
+      for (let x = r.x0; x <= r.x1; x++) {
+        for (let y = r.y0; y <= r.y1; y++) {
+          const key = `${z}/${x}/${y}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          tiles.push({ z, x, y });
+          if (tiles.length > max) return null;
+        }
+      }
+    }
+  }
+  return tiles;
+}
+
+function enumerateShapeTiles(shape: OfflineShape, zmin: number, zmax: number, max: number) {
+  const tiles: TileXYZ[] = [];
+  let level: TileXYZ[] = [];
+  for (const r of tilesForBBox(shape.bbox, zmin)) {
+    for (let x = r.x0; x <= r.x1; x++) {
+      for (let y = r.y0; y <= r.y1; y++) {
+        if (shape.hitsRect(tileBBox({ z: zmin, x, y }))) level.push({ z: zmin, x, y });
+      }
+    }
+  }
+  for (let z = zmin; ; z++) {
+    tiles.push(...level);
+    if (tiles.length > max) return null;
+    if (z === zmax) return tiles;
+    const next: TileXYZ[] = [];
+    for (const t of level) {
+      for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+        const c = { z: z + 1, x: t.x * 2 + dx, y: t.y * 2 + dy };
+        if (shape.hitsRect(tileBBox(c))) next.push(c);
+      }
+    }
+    level = next;
+  }
+}
+
+/** ズーム別タイル数・レイヤ別タイル数（各レイヤの提供ズーム内のみ）・容量見積り */
+function tileSummary(tiles: TileXYZ[], layers: LayerDef[]) {
+  const by_zoom: Record<number, number> = {};
+  for (const t of tiles) by_zoom[t.z] = (by_zoom[t.z] ?? 0) + 1;
+  const by_layer: Record<string, number> = {};
+  let estimated_bytes = 0;
+  for (const layer of layers) {
+    const n = tiles.filter((t) => t.z >= layer.min_zoom && t.z <= layer.max_zoom).length;
+    by_layer[layer.id] = n;
+    estimated_bytes += n * layer.avg_tile_bytes;
+  }
+  return { tiles: tiles.length, by_zoom, by_layer, estimated_bytes };
+}
+
+// Content-Type → タイルファイルの拡張子（MBTiles の format にも使う）
+function tileExt(contentType: string) {
+  if (/png/.test(contentType)) return "png";
+  if (/jpe?g/.test(contentType)) return "jpg";
+  if (/webp/.test(contentType)) return "webp";
+  if (/protobuf|vector-tile/.test(contentType)) return "pbf";
+  return "bin";
+}
+
+// 同じ範囲の樹木（Point）と施業計画（geom の外接矩形が重なるもの）を GeoJSON に
+async function offlineData(orgId: string, bbox: z.infer<typeof BBOX>, shape?: OfflineShape | null) {
+  const trees: any[] = [];
+  const { truncated } = await scanTreesInBBox(orgId, bbox, PACKAGE_MAX_TREES, (x, ll) => {
+    if (shape && !shape.hitsPoint(ll[0], ll[1])) return;
+    const { geohash: _g, org_id: _o, location: _l, geom: _gm, ...props } = x;
+    trees.push({ type: "Feature", id: x.id, geometry: { type: "Point", coordinates: ll }, properties: props });
+  });
+
+  const plans: any[] = [];
+  const snap = await db.collection("plans").where("org_id", "==", orgId).get();
+  for (const d of snap.docs) {
+    const { geom, created_at: _c, updated_at: _u, ...props } = d.data();
+    if (!geom) continue;
+    const b = bboxOfArea(geom as AreaGeom);
+    if (b.maxLng < bbox.minLng || b.minLng > bbox.maxLng || b.maxLat < bbox.minLat || b.minLat > bbox.maxLat) {
+      continue;
+    }
+    plans.push({ type: "Feature", id: d.id, geometry: geom, properties: props });
+  }
+
+  return {
+    trees: { type: "FeatureCollection", features: trees },
+    plans: { type: "FeatureCollection", features: plans },
+    truncated,
+  };
+}
+
+/* ---------------------- バンドル生成ジョブ（分割処理） ----------------------
+ * offline_bundles/{id} がジョブ。offlineBundleWorker が 1 回の起動で
+ * OFFLINE_CHUNK_TILES 枚ずつ処理し、chunk を進めて自分を再起動させる。
+ * zip は部分ファイル（offline/tmp/{id}/）を最後に compose して 1 ファイルにする。
+ * mbtiles は作業中の SQLite を tmp に保存し、次の部分で開き直して追記する。
+ * ---------------------------------------------------------------------------*/
+/** 1 回の起動で取得するタイル数 */
+const OFFLINE_CHUNK_TILES = 2_000;
+/** 完成したバンドルの保持期間（期限後は offlineBundleCleanup が削除） */
+const OFFLINE_BUNDLE_TTL_MS = 7 * 24 * 3600_000;
+/**
+ * これ以上更新のない running ジョブは停止とみなす（タイムアウト・メモリ不足等）。
+ * offlineBundleStallSweep が failed にする。
+ */
+const OFFLINE_STALL_MS = 15 * 60_000;
+/** 記録するエラーの件数 */
+const OFFLINE_MAX_ERROR_SAMPLES = 20;
+
+type OfflineLayerInfo = { tiles: number; missing: number; format?: string; minzoom: number; maxzoom: number };
+
+// ジョブに保存した入力 → 検証済み入力（area は入れ子配列のため JSON 文字列で保存している）
+function jobInput(job: FirebaseFirestore.DocumentData) {
+  const { area_json, ...rest } = job.request;
+  return OfflineBundleSchema.parse({ ...rest, ...(area_json ? { area: JSON.parse(area_json) } : {}) });
+}
+
+/** ジョブのレイヤ定義（作成後に登録簿から外れた・契約が切れたレイヤはジョブを失敗にする） */
+async function jobLayers(orgId: string, ids: string[]) {
+  const usable = await orgLayers(orgId);
+  return ids.map((id) => {
+    const layer = usable.find((l) => l.id === id);
+    if (!layer) throw new Error(`layer is no longer available: ${id}`);
+    return layer;
+  });
+}
+
+// 処理単位（レイヤ × 提供ズーム内のタイル）を決まった順に並べる
+function jobUnits(input: OfflineBundleInput, layers: LayerDef[]) {
+  const tiles = enumerateTiles(input.bbox, input.zmin, input.zmax, Infinity, input.shape) ?? [];
+  const units: Array<TileXYZ & { layer: LayerDef }> = [];
+  for (const layer of layers) {
+    for (const t of tiles) {
+      if (t.z >= layer.min_zoom && t.z <= layer.max_zoom) units.push({ ...t, layer });
+    }
+  }
+  return units;
+}
+
+const tmpPrefix = (id: string) => `offline/tmp/${id}/`;
+const partName = (id: string, n: number) => `${tmpPrefix(id)}part-${String(n).padStart(5, "0")}`;
+
+/** 1 チャンク分のタイルを取得して部分ファイルに書く。更新内容を返す */
+async function processOfflineChunk(id: string, job: FirebaseFirestore.DocumentData) {
+  const input = jobInput(job);
+  const bucket = admin.storage().bucket();
+  const chunk: number = job.chunk ?? 0;
+  const units = jobUnits(input, await jobLayers(job.org_id, input.layers)).slice(
+    chunk * OFFLINE_CHUNK_TILES,
+    (chunk + 1) * OFFLINE_CHUNK_TILES
+  );
+
+  const layersInfo: Record<string, OfflineLayerInfo> = job.layers_info ?? {};
+  const errorSamples: string[] = job.error_samples ?? [];
+  let errors: number = job.errors ?? 0;
+
+  let zip: ZipWriter | null = null;
+  let uploaded: Promise<void> | null = null;
+  let mbt: MbtilesWriter | null = null;
+  if (input.format === "zip") {
+    const pass = new PassThrough();
+    uploaded = pipeline(pass, bucket.file(partName(id, chunk)).createWriteStream({ resumable: false }));
+    zip = new ZipWriter(pass, job.bytes ?? 0);
+  } else {
+    const work = bucket.file(`${tmpPrefix(id)}work.mbtiles`);
+    mbt = chunk === 0 ? await MbtilesWriter.create() : await MbtilesWriter.open((await work.download())[0]);
+  }
+
+  for (let i = 0; i < units.length; i += PACKAGE_FETCH_CONCURRENCY) {
+    const batch = units.slice(i, i + PACKAGE_FETCH_CONCURRENCY);
+    const got = await Promise.all(
+      batch.map((t) =>
+        fetchUpstreamTile(layerTileUrl(t.layer, t.z, t.x, t.y)).catch((e) => e as Error)
+      )
+    );
+    for (let j = 0; j < batch.length; j++) {
+      const t = batch[j];
+      const info = (layersInfo[t.layer.id] ??= {
+        tiles: 0,
+        missing: 0,
+        minzoom: Math.max(input.zmin, t.layer.min_zoom),
+        maxzoom: Math.min(input.zmax, t.layer.max_zoom),
+      });
+      const tile = got[j];
+      if (tile instanceof Error) {
+        // 上流に無いタイルは欠損、それ以外の失敗はエラーとして記録して続行
+        info.missing++;
+        if (!(tile instanceof TileNotFoundError)) {
+          errors++;
+          if (errorSamples.length < OFFLINE_MAX_ERROR_SAMPLES) {
+            errorSamples.push(`${t.layer.id}/${t.z}/${t.x}/${t.y}: ${tile.message}`);
+          }
+        }
+        continue;
+      }
+      const ext = tileExt(tile.contentType);
+      info.format ??= ext;
+      if (zip) await zip.add(`tiles/${t.layer.id}/${t.z}/${t.x}/${t.y}.${ext}`, tile.body);
+      else mbt!.addTile(t.z, t.x, t.y, tile.body);
+      info.tiles++;
+    }
+  }
+
+  let bytes: number;
+  if (zip) {
+    await zip.end();
+    await uploaded;
+    await bucket.file(`${partName(id, chunk)}.json`).save(JSON.stringify(zip.entries));
+    bytes = zip.bytes;
+  } else {
+    const out = mbt!.finish();
+    await bucket.file(`${tmpPrefix(id)}work.mbtiles`).save(out, { resumable: out.length > 5 * 1024 * 1024 });
+    bytes = out.length;
+  }
+
+  return {
+    chunk: chunk + 1,
+    done: Math.min(job.total, (chunk + 1) * OFFLINE_CHUNK_TILES),
+    bytes,
+    layers_info: layersInfo,
+    errors,
+    error_samples: errorSamples,
+  };
+}
+
+/** 範囲形状・樹木・計画・manifest を加えて 1 ファイルに仕上げる。更新内容を返す */
+async function finalizeOfflineBundle(id: string, job: FirebaseFirestore.DocumentData) {
+  const input = jobInput(job);
+  const bucket = admin.storage().bucket();
+  const path = `offline/${job.created_by}/${id}.${input.format}`;
+  const file = bucket.file(path);
+  const layersInfo: Record<string, OfflineLayerInfo> = job.layers_info ?? {};
+
+  const manifest: Record<string, any> = {
+    version: 1,
+    id,
+    format: input.format,
+    created_at: new Date().toISOString(),
+    bbox: input.bbox,
+    // 形状そのものは data/area.geojson（mbtiles は features の area）に格納
+    ...(input.area
+      ? { area: { type: input.area.type, ...(input.area.type === "LineString" ? { buffer_m: input.buffer_m ?? 50 } : {}) } }
+      : {}),
+    zoom: { min: input.zmin, max: input.zmax },
+    layers: layersInfo,
+    errors: job.errors ?? 0,
+  };
+
+  const files: Array<[string, unknown]> = [];
+  if (input.area) {
+    files.push(["area", { type: "Feature", geometry: input.area, properties: manifest.area }]);
+  }
+  if (input.include_data) {
+    const data = await offlineData(job.org_id, input.bbox, input.shape);
+    manifest.data = {
+      trees: data.trees.features.length,
+      plans: data.plans.features.length,
+      trees_truncated: data.truncated,
+    };
+    files.push(["trees", data.trees], ["plans", data.plans]);
+  }
+
+  const hash = createHash("sha256");
+  let size: number;
+  if (input.format === "zip") {
+    // 最後の部分：データ・manifest・中央ディレクトリ
+    const parts = Array.from({ length: job.chunk ?? 0 }, (_, n) => partName(id, n));
+    const prior: ZipEntry[] = [];
+    for (const p of parts) {
+      const [buf] = await bucket.file(`${p}.json`).download();
+      prior.push(...(JSON.parse(buf.toString("utf8")) as ZipEntry[]));
+    }
+    const last = partName(id, parts.length);
+    const pass = new PassThrough();
+    const uploaded = pipeline(pass, bucket.file(last).createWriteStream({ resumable: false }));
+    const zip = new ZipWriter(pass, job.bytes ?? 0);
+    for (const [name, fc] of files) {
+      await zip.add(`data/${name}.geojson`, Buffer.from(JSON.stringify(fc)), true);
+    }
+    await zip.add("manifest.json", Buffer.from(JSON.stringify(manifest, null, 2)), true);
+    await zip.finish(prior);
+    await uploaded;
+    size = zip.bytes;
+
+    // compose は 1 回 32 ファイルまでなので、結果に続きを足していく
+    const sources = [...parts, last];
+    await bucket.combine(sources.slice(0, 32), file);
+    for (let i = 32; i < sources.length; i += 31) {
+      await bucket.combine([path, ...sources.slice(i, i + 31)], file);
+    }
+    await file.setMetadata({ contentType: "application/zip" });
+    for await (const c of file.createReadStream()) hash.update(c as Buffer);
+  } else {
+    const [work] = await bucket.file(`${tmpPrefix(id)}work.mbtiles`).download();
+    const mbt = await MbtilesWriter.open(work);
+    const layer = input.layers[0];
+    const info = layersInfo[layer];
+    const def = (await orgLayers(job.org_id)).find((l) => l.id === layer);
+    const b = input.bbox;
+    for (const [name, fc] of files) mbt.addFeatures(name, fc);
+    mbt.setMetadata({
+      name: `${layer} (${id})`,
+      format: info?.format ?? "png",
+      bounds: [b.minLng, b.minLat, b.maxLng, b.maxLat].join(","),
+      minzoom: info?.minzoom ?? input.zmin,
+      maxzoom: info?.maxzoom ?? input.zmax,
+      type: def?.base ? "baselayer" : "overlay",
+      manifest: JSON.stringify(manifest),
+    });
+    const bytes = mbt.finish();
+    hash.update(bytes);
+    size = bytes.length;
+    await file.save(bytes, { contentType: "application/vnd.sqlite3", resumable: size > 5 * 1024 * 1024 });
+  }
+
+  const sha256 = hash.digest("hex");
+  await file.setMetadata({ metadata: { sha256, org_id: job.org_id } });
+  await bucket.deleteFiles({ prefix: tmpPrefix(id) });
+
+  // manifest は形状を含まない（Firestore は入れ子配列を保存できない）のでそのまま記録できる
+  return {
+    status: "done",
+    storage_path: path,
+    size,
+    sha256,
+    manifest,
+    finished_at: admin.firestore.FieldValue.serverTimestamp(),
+    expires_at: new Date(Date.now() + OFFLINE_BUNDLE_TTL_MS),
+  };
+}
+
+// ジョブの公開用表現（完了済みなら期限までの署名付き URL を付ける）
+async function offlineBundleView(d: FirebaseFirestore.DocumentSnapshot) {
+  const x = d.data()!;
+  const running = x.status === "queued" || x.status === "running";
+  const updated = x.updated_at?.toMillis?.() ?? x.created_at?.toMillis?.() ?? Date.now();
+  const stalled = running && Date.now() - updated > OFFLINE_STALL_MS;
+  const view: Record<string, any> = {
+    id: d.id,
+    status: stalled ? "failed" : x.status,
+    format: x.format,
+    progress: {
+      done: x.done ?? 0,
+      total: x.total ?? 0,
+      pct: x.total ? Math.round(((x.done ?? 0) / x.total) * 1000) / 10 : 0,
+    },
+    bytes: x.size ?? x.bytes ?? 0,
+    estimated_bytes: x.estimated_bytes ?? null,
+    errors: x.errors ?? 0,
+    error_samples: x.error_samples ?? [],
+    error: stalled ? "worker stalled (timeout?)" : x.error ?? null,
+    sha256: x.sha256 ?? null,
+    layers: x.layers_info ?? {},
+    created_at: x.created_at?.toDate?.()?.toISOString() ?? null,
+    expires_at: x.expires_at?.toDate?.()?.toISOString() ?? null,
+  };
+  if (x.status === "done" && x.storage_path) {
+    const expires = Math.min(x.expires_at?.toMillis?.() ?? Date.now(), Date.now() + PACKAGE_URL_TTL_MS);
+    const [url] = await admin.storage().bucket().file(x.storage_path).getSignedUrl({ action: "read", expires });
+    view.download_url = url;
+    view.url_expires_at = new Date(expires).toISOString();
+  }
+  return view;
+}
+
+router.post(
+  "/offline/bundle",
+  requireAuth,
+  rateLimitFor("bulk"),
+  requirePermission("offline:bundle"),
+  validateBody(OfflineBundleSchema),
+  auditTarget("offline_bundles"),
+  async (req: Request, res: Response) => {
+    try {
+      const input = req.body as OfflineBundleInput;
+      const { bbox, zmin, zmax, layers, limit, format, shape } = input;
+
+      // レイヤ検証 & 解決（組織の登録簿から。契約外のレイヤは不可）
+      const found = await Promise.all(layers.map((k) => findOrgLayer(req.user!.org_id, k)));
+      const bad = layers.filter((_k, i) => !found[i]);
+      if (bad.length) {
+        return res.status(400).json({ error: `unknown layer(s): ${bad.join(", ")}` });
+      }
+      const unlicensed = layers.filter((_k, i) => !found[i]!.entitled);
+      if (unlicensed.length) {
+        return res
+          .status(403)
+          .json({ error: `layer not licensed for this organization: ${unlicensed.join(", ")}` });
+      }
+      const lk = found.map((f) => f!.layer);
+
+      // タイル列挙
+      const max = format === "urls" ? limit : Math.min(limit, PACKAGE_MAX_TILES);
+      const tiles = enumerateTiles(bbox, zmin, zmax, Math.floor(max / lk.length), shape);
+      if (!tiles) {
+        return res.status(413).json({
+          error: "too many tiles",
+          note:
+            format === "urls"
+              ? `The request would generate more than ${limit} URLs. Shrink bbox or z-range, or raise 'limit'.`
+              : `Packaged bundles are limited to ${max} tiles. Shrink bbox or z-range.`,
+          estimated_urls: (Math.floor(max / lk.length) + 1) * lk.length,
+        });
+      }
+
+      const summary = tileSummary(tiles, lk);
+      if (format !== "urls" && summary.estimated_bytes > PACKAGE_MAX_BYTES[format]) {
+        const maxMb = PACKAGE_MAX_BYTES[format] / 1024 / 1024;
+        return res.status(413).json({
+          error: "bundle too large",
+          note: `${format} bundles are limited to about ${maxMb} MB. Shrink bbox or z-range.`,
+          ...summary,
+        });
+      }
+      if (input.dry_run) return res.json({ format, ...summary });
+
+      if (format !== "urls") {
+        const ref = await db.collection("offline_bundles").add({
+          org_id: req.user!.org_id,
+          created_by: req.user!.uid,
+          format,
+          status: "queued",
+          // 入力（ワーカで再検証・タイル再列挙する）
+          request: {
+            format,
+            zmin,
+            zmax,
+            layers,
+            limit,
+            include_data: input.include_data,
+            ...(input.area ? { area_json: JSON.stringify(input.area), buffer_m: input.buffer_m ?? 50 } : { bbox }),
+          },
+          total: Object.values(summary.by_layer).reduce((a, b) => a + b, 0),
+          done: 0,
+          chunk: 0,
+          estimated_bytes: summary.estimated_bytes,
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return res.status(202).json({ id: ref.id, status: "queued", format, ...summary });
+      }
+
+      // URL 生成（ブラウザが取得するのでタイルプロキシの URL。レイヤの提供ズーム外は除く）
+      const urls: string[] = [];
+      for (const layer of lk) {
+        const pattern = `/api/tiles/${layer.id}/{z}/{x}/{y}`;
+        for (const t of tiles) {
+          if (t.z < layer.min_zoom || t.z > layer.max_zoom) continue;
+          urls.push(expandTemplate(pattern, t.z, t.x, t.y));
+        }
+      }
+
+      res.json({
+        count: urls.length,
+        ...summary,
+        urls,
+      });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// 進捗・結果（作成者のみ。選択中の組織のバンドルに限る）。完了済みなら再ダウンロード用の署名付き URL を返す
+// 組織を切り替えた・利用停止された後に前の組織の有償タイルの URL を取り直せないよう org_id も見る。
+router.get(
+  "/offline/bundle/:id",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("offline:bundle"),
+  async (req, res) => {
+    try {
+      const d = await db.collection("offline_bundles").doc(req.params.id).get();
+      if (!d.exists || d.get("created_by") !== req.user!.uid || d.get("org_id") !== req.user!.org_id) {
+        return res.status(404).json({ error: "not found" });
+      }
+      if (d.get("status") === "expired") return res.status(410).json({ error: "bundle expired" });
+      res.json(await offlineBundleView(d));
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// 自分のバンドル履歴（選択中の組織のもの、新しい順。複合インデックス org_id + created_by + created_at desc）
+router.get(
+  "/offline/bundles",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("offline:bundle"),
+  async (req, res) => {
+    try {
+      const qv = OfflineBundlesListQuerySchema.parse(req.query);
+      const limitNum = qv.limit ?? 20;
+      let q = db
+        .collection("offline_bundles")
+        .where("org_id", "==", req.user!.org_id)
+        .where("created_by", "==", req.user!.uid)
+        .orderBy("created_at", "desc");
+      if (qv.cursor) q = q.startAfter(await cursorSnapshot("offline_bundles", qv.cursor));
+      const snap = await q.limit(limitNum).get();
+      const items = await Promise.all(snap.docs.map(offlineBundleView));
+      const last = snap.docs[snap.docs.length - 1];
+      const next_cursor = snap.size === limitNum && last ? encodeCursor({ id: last.id }) : null;
+      res.json({ items, next_cursor });
+    } catch (e: any) {
+      res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+  }
+);
+
+/* =========================================================
+ * 6) 単木インポート（管理者のみ）
+ * 本文: CSV（text/csv）または GeoJSON（application/geo+json）
+ * 各行を TreeImportRowSchema で検証し、検証済みの行を Storage（tree_imports/{org_id}/{id}.json）に置いて
+ * 202 { batch_id } を返す。書き込みは treeImportWorker がバックグラウンドで 500 件ずつ行う
+ * （大きなファイルで api 関数のタイムアウトに掛からないよう。進捗は GET /admin/trees/imports）。
+ * 取り込んだ trees には org_id / import_batch_id を付与（ロールバック用）。
+ * =======================================================*/
+const IMPORT_MAX_ROWS = 100_000;
+const IMPORT_MAX_ERRORS = 1000; // 返却するエラー行の上限
+const BATCH_SIZE = 500; // Firestore の WriteBatch 上限
+
+const importRowsPath = (orgId: string, id: string) => `tree_imports/${orgId}/${id}.json`;
+
+const importBody = express.text({
+  type: ["text/csv", "text/plain", "application/geo+json", "application/vnd.geo+json"],
+  limit: "30mb",
+});
+
+/**
+ * 検証済みの行を trees に BATCH_SIZE ずつ書き込み、tree_imports の状態を更新する。
+ * 途中で失敗したら status=failed（書けた分はロールバックで消せる）。
+ */
+async function writeImportedTrees(
+  batchRef: FirebaseFirestore.DocumentReference,
+  rows: Array<TreeImportRow & Record<string, unknown>>
+) {
+  const orgId = (await batchRef.get()).data()?.org_id;
+  let imported = 0;
+  try {
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const row of rows.slice(i, i + BATCH_SIZE)) {
+        batch.set(db.collection("trees").doc(), {
+          ...row,
+          geohash: encodeGeohash(row.lat, row.lng),
+          org_id: orgId,
+          import_batch_id: batchRef.id,
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+      imported += Math.min(BATCH_SIZE, rows.length - i);
+    }
+  } catch (e: any) {
+    await batchRef.set({ status: "failed", imported, error: String(e?.message ?? e) }, { merge: true });
+    throw e;
+  }
+
+  await batchRef.set(
+    { status: "done", imported, finished_at: admin.firestore.FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+  return imported;
+}
+
+// 条件に合うドキュメントを BATCH_SIZE ずつ削除
+async function deleteWhere(q: FirebaseFirestore.Query) {
+  let deleted = 0;
+  for (;;) {
+    const snap = await q.limit(BATCH_SIZE).get();
+    if (snap.empty) return deleted;
+    const batch = db.batch();
+    snap.docs.forEach((d) => batch.delete(d.ref));
+    await batch.commit();
+    deleted += snap.size;
   }
-  return parts;
 }
 
 router.post(
-  "/offline/bundle",
+  "/admin/trees/import",
   requireAuth,
-  validateBody(OfflineBundleSchema),
+  rateLimitFor("bulk"),
+  requirePermission("trees:import"),
+  importBody,
+  auditTarget("tree_imports"),
   async (req: Request, res: Response) => {
     try {
-      const { bbox, zmin, zmax, layers, limit } = req.body as z.infer<
-        typeof OfflineBundleSchema
-      >;
+      const orgId = req.user!.org_id;
 
-      // レイヤ検証 & 解決
-      const bad = (layers as string[]).filter((k) => !(k in LAYER_CONFIG));
-      if (bad.length) {
-        return res.status(400).json({ error: `unknown layer(s): ${bad.join(", ")}` });
+      const qv = TreesImportQuerySchema.parse(req.query);
+      // application/json は共通の JSON パーサで解析済み（1mb まで）
+      const parsedJson = req.body && typeof req.body === "object" && !Buffer.isBuffer(req.body);
+      if (!parsedJson && (typeof req.body !== "string" || !req.body.trim())) {
+        return res.status(400).json({ error: "empty body (send CSV or GeoJSON as text)" });
       }
-      const lk = layers as LayerKey[];
+      const format =
+        qv.format ?? (parsedJson || /json/i.test(req.headers["content-type"] ?? "") ? "geojson" : "csv");
 
-      // タイル列挙
-      const tiles: Array<{ z: number; x: number; y: number }> = [];
-      const seen = new Set<string>();
-      for (let z = zmin; z <= zmax; z++) {
-        for (const r of tilesForBBox(bbox, z)) {
-          for (let x = r.x0; x <= r.x1; x++) {
-            for (let y = r.y0; y <= r.y1; y++) {
-              const key = `${z}/${x}/${y}`;
-              if (!seen.has(key)) {
-                seen.add(key);
-                tiles.push({ z, x, y });
-                if (tiles.length * lk.length > limit) {
-                  return res.status(413).json({
-                    error: "too many tiles",
-                    note: `The request would generate more than ${limit} URLs. Shrink bbox or z-range, or raise 'limit'.`,
-                    estimated_urls: tiles.length * lk.length,
-                  });
-                }
-              }
-            }
-          }
+      const mapping: ColumnMapping = {};
+      for (const k of TREE_IMPORT_KEYS) {
+        const col = (qv as Record<string, unknown>)[`col_${k}`];
+        if (typeof col === "string") mapping[k] = col;
+      }
+
+      let raw: Record<string, unknown>[];
+      try {
+        if (format === "geojson") {
+          raw = rowsFromGeoJSON(parsedJson ? req.body : JSON.parse(req.body), mapping);
+        } else {
+          if (parsedJson) throw new Error("CSV must be sent as text/csv");
+          raw = rowsFromCsv(req.body, mapping);
         }
+      } catch (e: any) {
+        return res.status(400).json({ error: `parse error: ${e?.message ?? e}` });
+      }
+      if (!raw.length) return res.status(400).json({ error: "no rows" });
+      if (raw.length > IMPORT_MAX_ROWS) {
+        return res.status(413).json({ error: `too many rows (max ${IMPORT_MAX_ROWS})` });
       }
 
-      // URL 生成
-      const urls: string[] = [];
-      const by_layer: Record<string, number> = {};
-      for (const layer of lk) {
-        const pattern = LAYER_CONFIG[layer];
-        let count = 0;
-        for (const t of tiles) {
-          urls.push(
-            pattern
-              .replace("{z}", String(t.z))
-              .replace("{x}", String(t.x))
-              .replace("{y}", String(t.y))
-          );
-          count++;
+      const { valid, errors } = validateTreeRows(raw, format);
+
+      const summary = {
+        format,
+        total: raw.length,
+        valid: valid.length,
+        invalid: errors.length,
+        errors: errors.slice(0, IMPORT_MAX_ERRORS),
+      };
+      if (qv.dry_run) return res.json({ dry_run: true, ...summary });
+      if (errors.length && !qv.skip_invalid) {
+        return res.status(422).json({ error: "invalid rows", ...summary });
+      }
+
+      // 検証済みの行を置いてからジョブを作る（treeImportWorker が書き込む）
+      const batchRef = db.collection("tree_imports").doc();
+      const rowsPath = importRowsPath(orgId, batchRef.id);
+      await admin
+        .storage()
+        .bucket()
+        .file(rowsPath)
+        .save(JSON.stringify(valid), { contentType: "application/json", resumable: false });
+      await batchRef.set({
+        org_id: orgId,
+        format,
+        status: "queued",
+        source_path: rowsPath,
+        total: raw.length,
+        invalid: errors.length,
+        imported: 0,
+        created_by: req.user!.uid,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      res.status(202).json({ batch_id: batchRef.id, status: "queued", ...summary });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// GET /admin/trees/imports（自組織の直近インポート）
+router.get(
+  "/admin/trees/imports",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("trees:import"),
+  async (req, res) => {
+    try {
+      const orgId = req.user!.org_id;
+
+      const snap = await db
+        .collection("tree_imports")
+        .where("org_id", "==", orgId)
+        .orderBy("created_at", "desc")
+        .limit(50)
+        .get();
+      res.json({ items: snap.docs.map((d) => ({ id: d.id, ...d.data() })) });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* ---------------------------------------------------------------
+ * POST /admin/trees/geohash-backfill { limit?, cursor? }
+ *   → { scanned, updated, next_cursor }
+ * 既存の樹木（treesGeoIndex の導入前に登録したもの）に geohash を付ける一度きりの移行。
+ * geohash が無いと空間検索・範囲集計・樹木タイル・オフラインバンドルに載らない。
+ * next_cursor が null になるまで繰り返し呼ぶ（途中で止めても続きから再開できる）。
+ * geohash を付けた樹木は treesGeoIndex が格子集計の再集計待ちにする。付いていた樹木も
+ * 集計の導入前なら集計に載っていないため、そのセルを再集計待ちにする。
+ * ------------------------------------------------------------- */
+const GEOHASH_BACKFILL_PAGE = 500;
+
+router.post(
+  "/admin/trees/geohash-backfill",
+  requireAuth,
+  rateLimitFor("bulk"),
+  requirePermission("trees:import"),
+  validateBody(TreesGeohashBackfillSchema),
+  auditTarget("trees"),
+  async (req: Request, res: Response) => {
+    try {
+      const orgId = req.user!.org_id;
+      const { limit = 2000, cursor } = req.body as z.infer<typeof TreesGeohashBackfillSchema>;
+      let last = cursor ? await cursorSnapshot("trees", cursor) : undefined;
+      if (last && last.get("org_id") !== orgId) return res.status(400).json({ error: "invalid cursor" });
+
+      let scanned = 0;
+      let updated = 0;
+      let done = false;
+      while (scanned < limit) {
+        let q = db
+          .collection("trees")
+          .where("org_id", "==", orgId)
+          .orderBy(admin.firestore.FieldPath.documentId())
+          .select("geohash", "org_id", "lat", "lng", "location", "geom", "species", "height_m", "volume_m3");
+        if (last) q = q.startAfter(last);
+        const want = Math.min(GEOHASH_BACKFILL_PAGE, limit - scanned);
+        const snap = await q.limit(want).get();
+
+        const batch = db.batch();
+        const indexed: any[] = [];
+        for (const d of snap.docs) {
+          const x = d.data();
+          const ll = treeLngLat(x);
+          const geohash = ll ? encodeGeohash(ll[1], ll[0]) : null;
+          if ((x.geohash ?? null) !== geohash) {
+            batch.update(d.ref, { geohash });
+            updated++;
+          } else if (geohash) {
+            indexed.push(x);
+          }
+        }
+        await batch.commit();
+        await markCellsDirty(indexed);
+
+        scanned += snap.size;
+        if (snap.size) last = snap.docs[snap.docs.length - 1];
+        if (snap.size < want) {
+          done = true;
+          break;
         }
-        by_layer[layer] = count;
       }
+      res.json({ scanned, updated, next_cursor: !done && last ? encodeCursor({ id: last.id }) : null });
+    } catch (e: any) {
+      const status = e?.message === "invalid cursor" ? 400 : 500;
+      res.status(status).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
 
-      res.json({
-        count: urls.length,
-        by_layer,
-        tiles: tiles.length,
-        urls,
+// DELETE /admin/trees/import/:id（ロールバック：そのバッチで入った trees を削除）
+router.delete(
+  "/admin/trees/import/:id",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("trees:import"),
+  auditTarget("tree_imports"),
+  async (req, res) => {
+    try {
+      const ref = db.collection("tree_imports").doc(req.params.id);
+      const snap = await ref.get();
+      if (!snap.exists) return res.status(404).json({ error: "import not found" });
+      if (snap.data()?.org_id !== req.user!.org_id) {
+        return res.status(403).json({ error: "forbidden" });
+      }
+
+      await ref.set({ status: "rolling_back" }, { merge: true });
+      const deleted = await deleteWhere(
+        db
+          .collection("trees")
+          .where("org_id", "==", req.user!.org_id)
+          .where("import_batch_id", "==", ref.id)
+      );
+      await ref.set(
+        {
+          status: "rolled_back",
+          deleted,
+          rolled_back_by: req.user!.uid,
+          rolled_back_at: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      res.json({ ok: true, deleted });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* =========================================================
+ * 7) CHM からの単木検出（管理者のみ・非同期ジョブ）
+ * Storage の chm/{org_id}/ 配下にアップロードした GeoTIFF を指定すると、
+ * tree_imports にジョブ（format: "chm"）を作成し、treeDetectWorker が処理する。
+ * 検出結果は通常のインポートと同じくロールバック可能。
+ * =======================================================*/
+router.post(
+  "/admin/trees/detect",
+  requireAuth,
+  rateLimitFor("bulk"),
+  requirePermission("trees:import"),
+  validateBody(ChmDetectSchema),
+  auditTarget("tree_imports"),
+  async (req: Request, res: Response) => {
+    try {
+      const orgId = req.user!.org_id;
+
+      const body = req.body as z.infer<typeof ChmDetectSchema>;
+      if (!body.storage_path.startsWith(`chm/${orgId}/`)) {
+        return res.status(403).json({ error: `storage_path must be under chm/${orgId}/` });
+      }
+      const [exists] = await admin.storage().bucket().file(body.storage_path).exists();
+      if (!exists) return res.status(404).json({ error: "raster not found" });
+
+      const ref = await db.collection("tree_imports").add({
+        org_id: orgId,
+        format: "chm",
+        status: "queued",
+        source_path: body.storage_path,
+        params: body,
+        imported: 0,
+        created_by: req.user!.uid,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      res.status(202).json({ batch_id: ref.id, status: "queued" });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* =========================================================
+ * 8) 組織・メンバー管理（管理者のみ）
+ * メンバー: orgs/{org_id}/members/{uid}（role / status の控え。権限の実体はカスタムクレーム）
+ * 招待:     invitations/{id}（org_id, email, role, status: pending → accepted / cancelled）
+ *   招待されたメールアドレスでログインすると、クライアントが
+ *   POST /me/invitation/redeem を呼び、orgs / org_id / role クレームが付与される。
+ *   最初の管理者だけは Admin SDK でクレームを付与する。
+ * 1 人が複数の組織に所属できる（クレームの形は mw/auth.ts）。
+ * =======================================================*/
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60_000;
+const MEMBERS_MAX = 1000;
+
+const membersCol = (orgId: string) => db.collection("orgs").doc(orgId).collection("members");
+// 監査ログの対象コレクション（自組織の members）
+const memberPath = (req: Request) => `orgs/${req.user!.org_id}/members`;
+
+/** クレームの所属一覧（旧形式の org_id / role のみのトークンも読む） */
+function orgRolesOf(claims: Record<string, any> | undefined): OrgRoles {
+  if (claims?.orgs && typeof claims.orgs === "object") return { ...claims.orgs };
+  if (typeof claims?.org_id === "string" && claims.org_id) {
+    return { [claims.org_id]: isRole(claims.role) ? claims.role : "viewer" };
+  }
+  return {};
+}
+
+/**
+ * 所属クレームを更新する（role = null で脱退・停止）。他のクレームは残す。
+ * 選択中の組織が外れたら残りの先頭に切り替え、何も無ければ org_id / role を外す。
+ * 反映は次回のトークン更新（最長 1 時間）から。
+ */
+async function updateOrgClaims(uid: string, orgId: string, role: Role | null) {
+  const u = await admin.auth().getUser(uid);
+  const { org_id: active, role: _role, orgs: _orgs, ...rest } = u.customClaims ?? {};
+  const orgs = orgRolesOf(u.customClaims);
+  if (role) orgs[orgId] = role;
+  else delete orgs[orgId];
+
+  const nextActive = typeof active === "string" && active in orgs ? active : Object.keys(orgs)[0];
+  await admin.auth().setCustomUserClaims(uid, {
+    ...rest,
+    ...(nextActive ? { orgs, org_id: nextActive, role: orgs[nextActive] } : {}),
+  });
+}
+
+// GET /admin/members（自組織のメンバー。email 順）
+router.get(
+  "/admin/members",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("members:manage"),
+  async (req, res) => {
+    try {
+      const snap = await membersCol(req.user!.org_id).orderBy("email").limit(MEMBERS_MAX).get();
+      res.json({ items: snap.docs.map((d) => ({ uid: d.id, ...d.data() })) });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// PATCH /admin/members/:uid（ロール変更・利用停止／再開）
+router.patch(
+  "/admin/members/:uid",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("members:manage"),
+  validateBody(MemberPatchSchema),
+  auditTarget(memberPath, "uid"),
+  async (req: Request, res: Response) => {
+    try {
+      const uid = req.params.uid;
+      // 自分を降格・停止すると管理者不在になり得るため不可
+      if (uid === req.user!.uid) {
+        return res.status(400).json({ error: "cannot change your own role or status" });
+      }
+      const ref = membersCol(req.user!.org_id).doc(uid);
+      const snap = await ref.get();
+      if (!snap.exists) return res.status(404).json({ error: "member not found" });
+
+      const body = req.body as z.infer<typeof MemberPatchSchema>;
+      const role: Role = body.role ?? snap.get("role");
+      const suspended = (body.status ?? snap.get("status")) === "suspended";
+      // 停止はこの組織の所属だけを外す（他の組織での利用は続けられる）
+      await updateOrgClaims(uid, req.user!.org_id, suspended ? null : role);
+      // 停止時は発行済みトークンも無効化（requireAuth が失効を確認する）
+      if (body.status === "suspended" && snap.get("status") !== "suspended") {
+        await admin.auth().revokeRefreshTokens(uid);
+      }
+      const update = {
+        ...body,
+        updated_by: req.user!.uid,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      await ref.set(update, { merge: true });
+      res.json({ uid, ...snap.data(), ...body });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// POST /admin/members/:uid/revoke（リフレッシュトークンの失効。端末紛失時など。再ログインが必要になる）
+router.post(
+  "/admin/members/:uid/revoke",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("members:manage"),
+  auditTarget(memberPath, "uid"),
+  async (req, res) => {
+    try {
+      const ref = membersCol(req.user!.org_id).doc(req.params.uid);
+      if (!(await ref.get()).exists) return res.status(404).json({ error: "member not found" });
+      await admin.auth().revokeRefreshTokens(req.params.uid);
+      await ref.set(
+        { revoked_by: req.user!.uid, revoked_at: admin.firestore.FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// GET /admin/invitations（自組織の未使用の招待。新しい順）
+router.get(
+  "/admin/invitations",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("members:manage"),
+  async (req, res) => {
+    try {
+      const snap = await db
+        .collection("invitations")
+        .where("org_id", "==", req.user!.org_id)
+        .where("status", "==", "pending")
+        .orderBy("created_at", "desc")
+        .limit(MEMBERS_MAX)
+        .get();
+      res.json({ items: snap.docs.map((d) => ({ id: d.id, ...d.data() })) });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// POST /admin/invitations（メールアドレスで招待。同じアドレスの未使用の招待・既存メンバーがあれば 409）
+router.post(
+  "/admin/invitations",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("members:manage"),
+  validateBody(InvitationSchema),
+  auditTarget("invitations"),
+  async (req: Request, res: Response) => {
+    try {
+      const orgId = req.user!.org_id;
+      const { email, role } = req.body as z.infer<typeof InvitationSchema>;
+
+      const member = await membersCol(orgId).where("email", "==", email).limit(1).get();
+      if (!member.empty) return res.status(409).json({ error: "already a member" });
+      const pending = await db
+        .collection("invitations")
+        .where("org_id", "==", orgId)
+        .where("email", "==", email)
+        .where("status", "==", "pending")
+        .limit(1)
+        .get();
+      if (!pending.empty) return res.status(409).json({ error: "invitation already pending" });
+
+      const ref = await db.collection("invitations").add({
+        org_id: orgId,
+        email,
+        role,
+        status: "pending",
+        invited_by: req.user!.uid,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+        expires_at: admin.firestore.Timestamp.fromMillis(Date.now() + INVITATION_TTL_MS),
+      });
+      res.status(201).json({ id: ref.id });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+// DELETE /admin/invitations/:id（未使用の招待を取り消す）
+router.delete(
+  "/admin/invitations/:id",
+  requireAuth,
+  rateLimitFor("write"),
+  requirePermission("members:manage"),
+  auditTarget("invitations"),
+  async (req, res) => {
+    try {
+      const ref = db.collection("invitations").doc(req.params.id);
+      const snap = await ref.get();
+      if (!snap.exists || snap.get("org_id") !== req.user!.org_id) {
+        return res.status(404).json({ error: "invitation not found" });
+      }
+      if (snap.get("status") !== "pending") return res.status(409).json({ error: "invitation not pending" });
+      await ref.update({
+        status: "cancelled",
+        cancelled_by: req.user!.uid,
+        cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "internal error" });
+    }
+  }
+);
+
+/* ---------------------------- 招待の引き換え ----------------------------
+ * POST /me/invitation/redeem（org_id クレーム不要。ログインのたびにクライアントが呼ぶ）
+ *   確認済みメールアドレス宛ての未使用の招待をすべて引き換える（組織ごとに最新の 1 件）。
+ *   → { org_id, role, redeemed }。redeemed > 0 ならクライアントは getIdToken(true) で取り直す。
+ * ---------------------------------------------------------------------- */
+router.post("/me/invitation/redeem", requireToken, rateLimitFor("write"), async (req, res) => {
+  try {
+    const t = req.token!;
+    const email = t.email?.toLowerCase();
+    const current = orgRolesOf(t);
+    const noop = () => res.json({ org_id: t.org_id ?? null, role: t.role ?? null, redeemed: 0 });
+    if (!email || !t.email_verified) {
+      if (Object.keys(current).length) return noop();
+      return res.status(403).json({ error: "verified email required" });
+    }
+
+    const snap = await db
+      .collection("invitations")
+      .where("email", "==", email)
+      .where("status", "==", "pending")
+      .get();
+    const now = Date.now();
+    const latest = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+    for (const d of snap.docs) {
+      if ((d.get("expires_at")?.toMillis?.() ?? 0) <= now) continue;
+      const prev = latest.get(d.get("org_id"));
+      const at = (x: FirebaseFirestore.DocumentSnapshot) => x.get("created_at")?.toMillis?.() ?? 0;
+      if (!prev || at(d) > at(prev)) latest.set(d.get("org_id"), d);
+    }
+    if (!latest.size) {
+      if (Object.keys(current).length) return noop();
+      return res.status(404).json({ error: "no pending invitation" });
+    }
+
+    let redeemed = 0;
+    for (const [orgId, inv] of latest) {
+      const role: Role = inv.get("role");
+      const ok = await db.runTransaction(async (tx) => {
+        const cur = await tx.get(inv.ref);
+        if (cur.get("status") !== "pending") return false;
+        tx.update(inv.ref, {
+          status: "accepted",
+          accepted_by: t.uid,
+          accepted_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        tx.set(membersCol(orgId).doc(t.uid), {
+          email,
+          display_name: t.name ?? null,
+          role,
+          status: "active",
+          invited_by: inv.get("invited_by") ?? null,
+          joined_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return true;
       });
+      if (!ok) continue;
+      await updateOrgClaims(t.uid, orgId, role);
+      redeemed++;
+    }
+    const claims = (await admin.auth().getUser(t.uid)).customClaims ?? {};
+    res.json({ org_id: claims.org_id ?? null, role: claims.role ?? null, redeemed });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? "internal error" });
+  }
+});
+
+/* ---------------------------- 所属組織の切り替え ----------------------------
+ * GET  /me/orgs        → { active, items: [{ org_id, name, role }] }
+ * POST /me/active-org  { org_id } → { org_id, role }
+ *   選択中の組織（org_id / role クレーム）を切り替える。全 API・firestore.rules は
+ *   このクレームで組織を判定するため、切り替え後はクライアントが getIdToken(true) で取り直す。
+ * ---------------------------------------------------------------------- */
+router.get("/me/orgs", requireToken, rateLimitFor("read"), async (req, res) => {
+  try {
+    const orgs = orgRolesOf(req.token);
+    const ids = Object.keys(orgs);
+    const docs = ids.length ? await db.getAll(...ids.map((id) => db.collection("orgs").doc(id))) : [];
+    const items = docs.map((d) => ({ org_id: d.id, name: d.get("name") ?? d.id, role: orgs[d.id] }));
+    res.json({ active: req.token!.org_id ?? null, items });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? "internal error" });
+  }
+});
+
+router.post(
+  "/me/active-org",
+  requireToken,
+  rateLimitFor("write"),
+  validateBody(ActiveOrgSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const uid = req.token!.uid;
+      const { org_id } = req.body as z.infer<typeof ActiveOrgSchema>;
+      // クレームは最長 1 時間古いので、所属の有無はメンバー文書で確認する
+      const m = await membersCol(org_id).doc(uid).get();
+      if (!m.exists || m.get("status") !== "active" || !isRole(m.get("role"))) {
+        return res.status(403).json({ error: "not a member of this organization" });
+      }
+      const role: Role = m.get("role");
+      const u = await admin.auth().getUser(uid);
+      const orgs = { ...orgRolesOf(u.customClaims), [org_id]: role };
+      await admin.auth().setCustomUserClaims(uid, { ...u.customClaims, orgs, org_id, role });
+      res.json({ org_id, role });
     } catch (e: any) {
       res.status(500).json({ error: e?.message ?? "internal error" });
     }
   }
 );
 
+/* =========================================================
+ * 9) 監査ログ（管理者のみ）
+ * GET /audit?uid&collection&from&to&limit&cursor → { items, next_cursor }（新しい順）
+ * 記録は mw/audit.ts（変更系リクエストすべて。audit_logs は追記のみ）。
+ * 複合インデックス: org_id + at desc、org_id + uid + at desc、org_id + collection + at desc
+ * （uid と collection の同時指定は org_id + uid + collection + at desc）
+ * =======================================================*/
+router.get(
+  "/audit",
+  requireAuth,
+  rateLimitFor("read"),
+  requirePermission("audit:read"),
+  async (req, res) => {
+    let qv: z.infer<typeof AuditQuerySchema>;
+    try {
+      qv = AuditQuerySchema.parse(req.query);
+    } catch (e: any) {
+      return res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+    try {
+      const limitNum = qv.limit ?? 50;
+      let q: FirebaseFirestore.Query = db.collection(AUDIT_COLLECTION).where("org_id", "==", req.user!.org_id);
+      if (qv.uid) q = q.where("uid", "==", qv.uid);
+      if (qv.collection) q = q.where("collection", "==", qv.collection);
+      const { from, to } = dateRange(qv);
+      if (from) q = q.where("at", ">=", new Date(from));
+      if (to) q = q.where("at", "<=", new Date(to));
+      q = q.orderBy("at", "desc");
+      if (qv.cursor) q = q.startAfter(await cursorSnapshot(AUDIT_COLLECTION, qv.cursor));
+
+      const snap = await q.limit(limitNum).get();
+      const items = snap.docs.map((d) => ({ id: d.id, ...d.data() }));
+      const last = snap.docs[snap.docs.length - 1];
+      const next_cursor = snap.size === limitNum && last ? encodeCursor({ id: last.id }) : null;
+      res.json({ items, next_cursor });
+    } catch (e: any) {
+      res.status(400).json({ error: e?.message ?? "bad request" });
+    }
+  }
+);
+
 /* =========================================================
  * 404 / 共通エラー
  * =======================================================*/
@@ -492,3 +2960,195 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 
 // Functions エクスポート（東京）
 export const api = functions.region("asia-northeast1").https.onRequest(app);
+
+// trees の位置が変わったら geohash を付け直す（空間検索用インデックス）。
+// 集計に効く値が変わったら、前後の格子集計セルを再集計待ちにする（treeCellsRebuild）。
+export const treesGeoIndex = functions
+  .region("asia-northeast1")
+  .firestore.document("trees/{id}")
+  .onWrite(async (change) => {
+    const before = change.before.exists ? change.before.data() : null;
+    const after = change.after.exists ? change.after.data() : null;
+    if (cellSignature(before) !== cellSignature(after)) await markCellsDirty([before, after]);
+
+    if (!change.after.exists) return;
+    const data = change.after.data();
+    const ll = treeLngLat(data);
+    const geohash = ll ? encodeGeohash(ll[1], ll[0]) : null;
+    if ((data?.geohash ?? null) === geohash) return;
+    await change.after.ref.update({ geohash });
+  });
+
+// 樹木の格子集計の作り直し（treesGeoIndex が記録したセル）
+const TREE_CELLS_BUDGET_MS = 480_000;
+export const treeCellsRebuild = functions
+  .region("asia-northeast1")
+  .runWith({ memory: "1GB", timeoutSeconds: 540 })
+  .pubsub.schedule("every 10 minutes")
+  .onRun(async () => {
+    const deadline = Date.now() + TREE_CELLS_BUDGET_MS;
+    // 1 回で読むセルは 50 件まで（1 セルは最大で数万本を読む）。残りは時間の許す限り続け、あとは次回
+    for (;;) {
+      const { more } = await rebuildDirtyCells(50);
+      if (!more || Date.now() > deadline) break;
+    }
+  });
+
+// CHM 単木検出ジョブ（tree_imports に format: "chm" が作られたら実行）
+export const treeDetectWorker = functions
+  .region("asia-northeast1")
+  .runWith({ memory: "4GB", timeoutSeconds: 540 })
+  .firestore.document("tree_imports/{id}")
+  .onCreate(async (snap) => {
+    const job = snap.data();
+    if (job?.format !== "chm" || job.status !== "queued") return;
+    const p = job.params as z.infer<typeof ChmDetectSchema>;
+
+    try {
+      await snap.ref.set({ status: "running" }, { merge: true });
+      const [buf] = await admin.storage().bucket().file(p.storage_path).download();
+      const raster = await readChm(
+        buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer
+      );
+      const toLngLat = makeToLngLat(raster.epsg, p.crs_proj4);
+
+      const tops = detectTreeTops(raster, {
+        minHeight: p.min_height_m ?? DEFAULT_DETECT.minHeight,
+        window: { ...DEFAULT_DETECT.window, ...p.window },
+        smooth: p.smooth ?? DEFAULT_DETECT.smooth,
+      });
+      const allometry = {
+        dbh: { ...DEFAULT_ALLOMETRY.dbh, ...p.allometry?.dbh },
+        volume: { ...DEFAULT_ALLOMETRY.volume, ...p.allometry?.volume },
+      };
+
+      const rows = tops.map((t) => {
+        const [lng, lat] = toLngLat(t.x, t.y);
+        return {
+          ...(p.species ? { species: p.species } : {}),
+          height_m: Math.round(t.height_m * 100) / 100,
+          ...applyAllometry(t.height_m, allometry),
+          lat,
+          lng,
+          source: "chm",
+        };
+      });
+      await snap.ref.set({ detected: rows.length }, { merge: true });
+      await writeImportedTrees(snap.ref, rows);
+    } catch (e: any) {
+      await snap.ref.set({ status: "failed", error: String(e?.message ?? e) }, { merge: true });
+    }
+  });
+
+// 単木インポートの書き込み（tree_imports に format: "csv" | "geojson" が作られたら実行）
+export const treeImportWorker = functions
+  .region("asia-northeast1")
+  .runWith({ memory: "1GB", timeoutSeconds: 540 })
+  .firestore.document("tree_imports/{id}")
+  .onCreate(async (snap) => {
+    const job = snap.data();
+    if ((job?.format !== "csv" && job?.format !== "geojson") || job.status !== "queued") return;
+    const file = admin.storage().bucket().file(job.source_path);
+
+    try {
+      await snap.ref.set({ status: "running" }, { merge: true });
+      const [buf] = await file.download();
+      await writeImportedTrees(snap.ref, JSON.parse(buf.toString("utf8")));
+    } catch (e: any) {
+      await snap.ref.set({ status: "failed", error: String(e?.message ?? e) }, { merge: true });
+    }
+    await file.delete({ ignoreNotFound: true }).catch(() => undefined);
+  });
+
+// オフラインバンドル生成ワーカ（chunk が進むたびに次のチャンクを処理）
+export const offlineBundleWorker = functions
+  .region("asia-northeast1")
+  .runWith({ memory: "2GB", timeoutSeconds: 540 })
+  .firestore.document("offline_bundles/{id}")
+  .onWrite(async (change, ctx) => {
+    const after = change.after.data();
+    if (!after || (after.status !== "queued" && after.status !== "running")) return;
+    const chunk: number = after.chunk ?? 0;
+    if (change.before.exists && change.before.get("chunk") === chunk) return; // 進捗以外の更新
+
+    // 重複起動の排除（同じ chunk を処理するのは 1 つだけ）
+    const ref = change.after.ref;
+    const claimed = await db.runTransaction(async (tx) => {
+      const cur = await tx.get(ref);
+      if (cur.get("chunk") !== chunk || cur.get("claimed_chunk") === chunk) return false;
+      tx.update(ref, {
+        claimed_chunk: chunk,
+        status: "running",
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    if (!claimed) return;
+
+    try {
+      const nChunks = Math.ceil((after.total ?? 0) / OFFLINE_CHUNK_TILES);
+      const update =
+        chunk < nChunks
+          ? await processOfflineChunk(ctx.params.id, after)
+          : await finalizeOfflineBundle(ctx.params.id, after);
+      await ref.set({ ...update, updated_at: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+    } catch (e: any) {
+      await ref.set(
+        { status: "failed", error: String(e?.message ?? e), updated_at: admin.firestore.FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+      await admin.storage().bucket().deleteFiles({ prefix: tmpPrefix(ctx.params.id) }).catch(() => undefined);
+    }
+  });
+
+// 停止したジョブを failed にする（15 分ごと）。
+// タイムアウトやメモリ不足でワーカが落ちると catch を通らず running のまま残るため。
+export const offlineBundleStallSweep = functions
+  .region("asia-northeast1")
+  .pubsub.schedule("every 15 minutes")
+  .onRun(async () => {
+    // 複合インデックス status + updated_at
+    const snap = await db
+      .collection("offline_bundles")
+      .where("status", "in", ["queued", "running"])
+      .where("updated_at", "<", new Date(Date.now() - OFFLINE_STALL_MS))
+      .limit(500)
+      .get();
+    for (const d of snap.docs) {
+      try {
+        // 読んだ後にワーカが進めていたら更新しない
+        await d.ref.update(
+          {
+            status: "failed",
+            error: "worker stopped (timeout or out of memory)",
+            updated_at: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          { lastUpdateTime: d.updateTime }
+        );
+      } catch {
+        continue;
+      }
+      await admin.storage().bucket().deleteFiles({ prefix: tmpPrefix(d.id) }).catch(() => undefined);
+    }
+  });
+
+// 期限切れのオフラインバンドルを削除（1 日 1 回）
+export const offlineBundleCleanup = functions
+  .region("asia-northeast1")
+  .pubsub.schedule("every 24 hours")
+  .onRun(async () => {
+    // done のみを対象にする（複合インデックス status + expires_at）。処理済みは expired になり次の頁から外れる
+    for (;;) {
+      const snap = await db
+        .collection("offline_bundles")
+        .where("status", "==", "done")
+        .where("expires_at", "<", new Date())
+        .limit(500)
+        .get();
+      for (const d of snap.docs) {
+        await admin.storage().bucket().file(d.get("storage_path")).delete({ ignoreNotFound: true });
+        await d.ref.update({ status: "expired", updated_at: admin.firestore.FieldValue.serverTimestamp() });
+      }
+      if (snap.size < 500) break;
+    }
+  });
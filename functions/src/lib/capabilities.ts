@@ -0,0 +1,443 @@
+// functions/src/lib/capabilities.ts
+/* =========================================================
+ * WMS / WMTS の GetCapabilities 解析（外部レイヤの取り込み）
+ * 都道府県の森林簿・ゾーニングなどの配信サービスから、レイヤ・スタイル・
+ * タイルマトリクスセットを一覧にし、レイヤ登録簿（lib/layers.ts）の上流設定を組み立てる。
+ * 配信はタイルプロキシ（EPSG:3857 の z/x/y）経由のため、
+ *   WMS:  EPSG:3857（または同等の 900913 / 102100）に対応したレイヤ
+ *   WMTS: Web メルカトル（GoogleMapsCompatible 相当・256px）のマトリクスセットにリンクしたレイヤ
+ * だけを取り込める（それ以外は一覧に supported: false で理由を付けて返す）。
+ * 解析の確認用サンプル: functions/fixtures/capabilities/*.xml（test/capabilities.test.ts）
+ * =======================================================*/
+import { XMLParser } from "fast-xml-parser";
+import { isPublicHttpsUrl, LayerLegend, LayerType, WMS_FORMATS, WmsParams } from "./layers";
+
+/** 取り込めない・解析できない（400 で返す） */
+export class CapabilitiesError extends Error {}
+
+export type CapStyle = { name: string; title: string; legend_url?: string; default?: boolean };
+
+export type CapLayer = {
+  name: string; // WMS は Name、WMTS は ows:Identifier
+  title: string;
+  abstract?: string;
+  styles: CapStyle[];
+  formats: string[];
+  bbox?: [number, number, number, number]; // WGS84 の minLng, minLat, maxLng, maxLat
+  crs?: string[]; // WMS
+  tile_matrix_sets?: string[]; // WMTS（リンクしているマトリクスセット）
+  supported: boolean;
+  note?: string; // 取り込めない理由
+};
+
+export type CapTileMatrixSet = {
+  id: string;
+  crs: string;
+  well_known?: string;
+  matrices: string[];
+  /** Web メルカトルの z と対応づけられる場合のズーム範囲（TileMatrix の id は prefix + z） */
+  web_mercator: { min_zoom: number; max_zoom: number; prefix: string } | null;
+};
+
+export type Capabilities = {
+  service: "WMS" | "WMTS";
+  version: string;
+  title: string;
+  layers: CapLayer[];
+  tile_matrix_sets: CapTileMatrixSet[];
+  get_map_url?: string; // WMS
+  get_tile_url?: string; // WMTS（KVP）
+  resource_urls?: Record<string, Array<{ format: string; template: string }>>; // WMTS（REST）
+  dimensions?: Record<string, Record<string, string>>; // WMTS（レイヤごとの Dimension 既定値）
+};
+
+/** 取り込むレイヤの選択 */
+export type CapSelection = {
+  layer: string;
+  style?: string;
+  tile_matrix_set?: string;
+  format?: string;
+};
+
+/* ---------------------------- XML の読み取り ---------------------------- */
+// 1 件でも配列で読む要素
+const ARRAY_TAGS = new Set([
+  "Layer",
+  "Style",
+  "Format",
+  "CRS",
+  "SRS",
+  "LegendURL",
+  "TileMatrixSet",
+  "TileMatrixSetLink",
+  "TileMatrix",
+  "ResourceURL",
+  "Dimension",
+  "Operation",
+  "Get",
+  "DCPType",
+  "Value",
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true, // ows:Identifier → Identifier、xlink:href → @_href
+  parseTagValue: false, // "05" などの識別子を数値にしない
+  isArray: (name) => ARRAY_TAGS.has(name),
+});
+
+const arr = <T>(v: T | T[] | undefined | null): T[] => (v == null ? [] : Array.isArray(v) ? v : [v]);
+const text = (v: any): string =>
+  v == null ? "" : String(typeof v === "object" ? v["#text"] ?? "" : v).trim();
+const href = (v: any): string | undefined => (v?.["@_href"] ? String(v["@_href"]).trim() : undefined);
+const nums = (s: string) => s.split(/\s+/).filter(Boolean).map(Number);
+
+const WEB_MERCATOR_CRS = /(^|[^\d])(3857|900913|102100|102113)$/;
+const isWebMercatorCrs = (crs: string) => WEB_MERCATOR_CRS.test(crs.trim());
+
+/** z=0 の縮尺分母（256px・0.28mm/px）と原点 */
+const Z0_SCALE = 559082264.0287178;
+const ORIGIN = 20037508.342789244;
+
+/* ---------------------------- WMS ---------------------------- */
+type WmsInherited = { crs: string[]; styles: CapStyle[]; bbox?: CapLayer["bbox"] };
+
+function wmsStyle(s: any): CapStyle {
+  const name = text(s.Name);
+  const legend = href(arr<any>(s.LegendURL)[0]?.OnlineResource);
+  return { name, title: text(s.Title) || name, ...(legend ? { legend_url: legend } : {}) };
+}
+
+function wmsBBox(node: any): CapLayer["bbox"] | undefined {
+  const ex = node.EX_GeographicBoundingBox; // 1.3.0
+  if (ex) {
+    const b = [ex.westBoundLongitude, ex.southBoundLatitude, ex.eastBoundLongitude, ex.northBoundLatitude];
+    return b.map((v) => Number(text(v))) as CapLayer["bbox"];
+  }
+  const ll = node.LatLonBoundingBox; // 1.1.1
+  if (ll) return ["@_minx", "@_miny", "@_maxx", "@_maxy"].map((k) => Number(ll[k])) as CapLayer["bbox"];
+  return undefined;
+}
+
+// CRS / スタイル / 範囲は親レイヤから引き継ぐ（スタイルは追加、同名は子が優先）
+function walkWmsLayers(node: any, inherited: WmsInherited, formats: string[], out: CapLayer[]) {
+  const own = [...arr<any>(node.CRS), ...arr<any>(node.SRS)].flatMap((c) => text(c).split(/\s+/));
+  const crs = [...new Set([...inherited.crs, ...own.filter(Boolean)])];
+  const ownStyles = arr<any>(node.Style).map(wmsStyle);
+  const styles = [...inherited.styles.filter((s) => !ownStyles.some((o) => o.name === s.name)), ...ownStyles];
+  const bbox = wmsBBox(node) ?? inherited.bbox;
+
+  const name = text(node.Name);
+  if (name) {
+    const supported = crs.some(isWebMercatorCrs);
+    out.push({
+      name,
+      title: text(node.Title) || name,
+      ...(text(node.Abstract) ? { abstract: text(node.Abstract) } : {}),
+      styles,
+      formats,
+      ...(bbox ? { bbox } : {}),
+      crs,
+      supported,
+      ...(supported ? {} : { note: "EPSG:3857 に対応していません" }),
+    });
+  }
+  for (const child of arr<any>(node.Layer)) walkWmsLayers(child, { crs, styles, bbox }, formats, out);
+}
+
+function parseWms(root: any): Capabilities {
+  const getMap = root.Capability?.Request?.GetMap;
+  const formats = arr<any>(getMap?.Format).map(text).filter((f) => f.startsWith("image/"));
+  const getMapUrl = href(arr<any>(getMap?.DCPType)[0]?.HTTP?.Get?.[0]?.OnlineResource);
+  const layers: CapLayer[] = [];
+  for (const top of arr<any>(root.Capability?.Layer)) {
+    walkWmsLayers(top, { crs: [], styles: [] }, formats, layers);
+  }
+  return {
+    service: "WMS",
+    version: String(root["@_version"] ?? ""),
+    title: text(root.Service?.Title),
+    layers,
+    tile_matrix_sets: [],
+    ...(getMapUrl ? { get_map_url: getMapUrl } : {}),
+  };
+}
+
+/* ---------------------------- WMTS ---------------------------- */
+/**
+ * マトリクスセットが Web メルカトルの z/x/y と一致するか。
+ * 縮尺分母が Z0_SCALE / 2^z、原点が左上、256px で、id が「共通の接頭辞 + z」のときだけ対応づける。
+ */
+function webMercatorZooms(set: any, crs: string): CapTileMatrixSet["web_mercator"] {
+  if (!isWebMercatorCrs(crs)) return null;
+  const zooms: Array<{ id: string; z: number }> = [];
+  for (const m of arr<any>(set.TileMatrix)) {
+    const scale = Number(text(m.ScaleDenominator));
+    const z = Math.round(Math.log2(Z0_SCALE / scale));
+    const [x0, y0] = nums(text(m.TopLeftCorner));
+    if (!(z >= 0 && z <= 24) || Math.abs(scale * 2 ** z - Z0_SCALE) / Z0_SCALE > 1e-3) return null;
+    if (Math.abs(x0 + ORIGIN) > 1 || Math.abs(y0 - ORIGIN) > 1) return null;
+    if (text(m.TileWidth) !== "256" || text(m.TileHeight) !== "256") return null;
+    zooms.push({ id: text(m.Identifier), z });
+  }
+  if (!zooms.length) return null;
+  const first = zooms[0];
+  const prefix = first.id.endsWith(String(first.z)) ? first.id.slice(0, -String(first.z).length) : null;
+  if (prefix == null || zooms.some((m) => m.id !== `${prefix}${m.z}`)) return null;
+  const zs = zooms.map((m) => m.z);
+  return { min_zoom: Math.min(...zs), max_zoom: Math.max(...zs), prefix };
+}
+
+function parseWmts(root: any): Capabilities {
+  const sets: CapTileMatrixSet[] = arr<any>(root.Contents?.TileMatrixSet).map((s) => {
+    const crs = text(s.SupportedCRS);
+    return {
+      id: text(s.Identifier),
+      crs,
+      ...(text(s.WellKnownScaleSet) ? { well_known: text(s.WellKnownScaleSet) } : {}),
+      matrices: arr<any>(s.TileMatrix).map((m) => text(m.Identifier)),
+      web_mercator: webMercatorZooms(s, crs),
+    };
+  });
+  const setById = new Map(sets.map((s) => [s.id, s]));
+
+  // GetTile の KVP エンドポイント（RESTful しか無いサービスもある）
+  const getTile = arr<any>(root.OperationsMetadata?.Operation).find((o) => o["@_name"] === "GetTile");
+  const gets = arr<any>(getTile?.DCP?.HTTP?.Get);
+  const encoding = (g: any) => arr<any>(g.Constraint?.AllowedValues?.Value).map(text);
+  const kvp = gets.find((g) => encoding(g).includes("KVP")) ?? gets.find((g) => !encoding(g).length);
+
+  const resourceUrls: NonNullable<Capabilities["resource_urls"]> = {};
+  const dimensions: NonNullable<Capabilities["dimensions"]> = {};
+  const layers: CapLayer[] = arr<any>(root.Contents?.Layer).map((l) => {
+    const name = text(l.Identifier);
+    const links = arr<any>(l.TileMatrixSetLink).map((k) => text(arr<any>(k.TileMatrixSet)[0]));
+    resourceUrls[name] = arr<any>(l.ResourceURL)
+      .filter((r) => (r["@_resourceType"] ?? "tile") === "tile" && r["@_template"])
+      .map((r) => ({ format: String(r["@_format"] ?? ""), template: String(r["@_template"]) }));
+    dimensions[name] = Object.fromEntries(
+      arr<any>(l.Dimension).map((d) => [text(d.Identifier), text(d.Default)])
+    );
+    const styles = arr<any>(l.Style).map((s) => {
+      const id = text(s.Identifier);
+      const legend = href(arr<any>(s.LegendURL)[0]);
+      return {
+        name: id,
+        title: text(s.Title) || id,
+        ...(legend ? { legend_url: legend } : {}),
+        ...(s["@_isDefault"] === "true" ? { default: true } : {}),
+      };
+    });
+    const lower = nums(text(l.WGS84BoundingBox?.LowerCorner));
+    const upper = nums(text(l.WGS84BoundingBox?.UpperCorner));
+    const supported = links.some((id) => setById.get(id)?.web_mercator);
+    return {
+      name,
+      title: text(l.Title) || name,
+      ...(text(l.Abstract) ? { abstract: text(l.Abstract) } : {}),
+      styles,
+      formats: arr<any>(l.Format).map(text),
+      ...(lower.length === 2 && upper.length === 2 ? { bbox: [...lower, ...upper] as CapLayer["bbox"] } : {}),
+      tile_matrix_sets: links,
+      supported,
+      ...(supported ? {} : { note: "Web メルカトル（GoogleMapsCompatible 相当）のマトリクスセットがありません" }),
+    };
+  });
+
+  return {
+    service: "WMTS",
+    version: String(root["@_version"] ?? ""),
+    title: text(root.ServiceIdentification?.Title),
+    layers,
+    tile_matrix_sets: sets,
+    ...(href(kvp) ? { get_tile_url: href(kvp) } : {}),
+    resource_urls: resourceUrls,
+    dimensions,
+  };
+}
+
+/** GetCapabilities の XML を解析する（WMS 1.1.1 / 1.3.0、WMTS 1.0.0） */
+export function parseCapabilities(xml: string): Capabilities {
+  let doc: any;
+  try {
+    doc = parser.parse(xml);
+  } catch (e: any) {
+    throw new CapabilitiesError(`XML を解析できません: ${e?.message ?? e}`);
+  }
+  if (doc.WMS_Capabilities) return parseWms(doc.WMS_Capabilities);
+  if (doc.WMT_MS_Capabilities) return parseWms(doc.WMT_MS_Capabilities);
+  if (doc.Capabilities?.Contents) return parseWmts(doc.Capabilities);
+  if ("ServiceExceptionReport" in doc || "ExceptionReport" in doc) {
+    throw new CapabilitiesError("サービスがエラーを返しました（GetCapabilities の URL を確認してください）");
+  }
+  throw new CapabilitiesError("WMS / WMTS の GetCapabilities ではありません");
+}
+
+/* ---------------------------- 取得 ---------------------------- */
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+/** GetCapabilities を取得して解析する（リダイレクト先も公開の https に限る） */
+export async function fetchCapabilities(url: string): Promise<Capabilities> {
+  let next = url;
+  for (let i = 0; ; i++) {
+    if (!isPublicHttpsUrl(next)) throw new CapabilitiesError("公開の https の URL を指定してください");
+    const r = await fetch(next, {
+      redirect: "manual",
+      headers: { Accept: "application/xml, text/xml" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    const location = r.headers.get("location");
+    if (r.status >= 300 && r.status < 400 && location) {
+      if (i >= MAX_REDIRECTS) throw new CapabilitiesError("リダイレクトが多すぎます");
+      next = new URL(location, next).toString();
+      continue;
+    }
+    if (!r.ok) throw new CapabilitiesError(`GetCapabilities の取得に失敗しました（${r.status}）`);
+    if (Number(r.headers.get("content-length") ?? 0) > MAX_BYTES) {
+      throw new CapabilitiesError("GetCapabilities が大きすぎます");
+    }
+    const body = Buffer.from(await r.arrayBuffer());
+    if (body.length > MAX_BYTES) throw new CapabilitiesError("GetCapabilities が大きすぎます");
+    return parseCapabilities(body.toString("utf8"));
+  }
+}
+
+/* ---------------------------- 登録簿の上流設定 ---------------------------- */
+export type CapLayerSource = {
+  type: LayerType;
+  url: string;
+  wms?: WmsParams;
+  min_zoom: number;
+  max_zoom: number;
+  attribution: string;
+  legend: LayerLegend | null;
+};
+
+const WEB_MERCATOR_ALIASES = ["EPSG:3857", "EPSG:900913", "EPSG:102100", "EPSG:102113"];
+// WMS には提供ズームの情報が無いため、既定は地図で使う範囲
+const WMS_ZOOM = { min: 5, max: 19 };
+// 形式の優先順（WMS の登録簿に保存できる形式。それ以外は後ろ）
+const formatRank = (f: string) => {
+  const i = (WMS_FORMATS as readonly string[]).indexOf(f);
+  return i < 0 ? WMS_FORMATS.length : i;
+};
+
+const isWmsFormat = (f: string): f is (typeof WMS_FORMATS)[number] => formatRank(f) < WMS_FORMATS.length;
+
+function pickFormat<F extends string>(available: F[], wanted?: string): F {
+  if (wanted) {
+    const f = available.find((a) => a === wanted);
+    if (!f) throw new CapabilitiesError(`未対応の形式です: ${wanted}`);
+    return f;
+  }
+  const [f] = [...available].sort((a, b) => formatRank(a) - formatRank(b));
+  if (!f) throw new CapabilitiesError("画像形式がありません");
+  return f;
+}
+
+// 指定が無ければ WMS はサーバの既定（STYLES 空）、WMTS は isDefault のスタイル
+function pickStyle(caps: Capabilities, layer: CapLayer, wanted?: string) {
+  if (wanted !== undefined && wanted !== "") {
+    const s = layer.styles.find((x) => x.name === wanted);
+    if (!s) throw new CapabilitiesError(`スタイルがありません: ${wanted}`);
+    return s;
+  }
+  if (caps.service === "WMS") return undefined;
+  return layer.styles.find((s) => s.default) ?? layer.styles[0];
+}
+
+const legendOf = (s?: CapStyle): LayerLegend | null =>
+  s?.legend_url && isPublicHttpsUrl(s.legend_url) ? { image_url: s.legend_url } : null;
+
+/**
+ * 選んだレイヤ（スタイル・マトリクスセット・形式）をタイルプロキシで配信できる上流設定にする。
+ * 結果の url / wms はそのままレイヤ登録簿に保存できる。
+ */
+export function capabilitiesLayerSource(caps: Capabilities, sel: CapSelection): CapLayerSource {
+  const layer = caps.layers.find((l) => l.name === sel.layer);
+  if (!layer) throw new CapabilitiesError(`レイヤがありません: ${sel.layer}`);
+  if (!layer.supported) throw new CapabilitiesError(`取り込めないレイヤです: ${layer.note}`);
+  const style = pickStyle(caps, layer, sel.style);
+  const attribution = caps.title || layer.title;
+
+  if (caps.service === "WMS") {
+    if (!caps.get_map_url) throw new CapabilitiesError("GetMap の URL がありません");
+    const version = caps.version === "1.1.1" ? "1.1.1" : "1.3.0";
+    const crs = WEB_MERCATOR_ALIASES.find((c) => layer.crs!.includes(c));
+    return {
+      type: "wms",
+      url: caps.get_map_url,
+      wms: {
+        layers: layer.name,
+        styles: style?.name ?? "",
+        // 登録簿（WmsParams）に保存できる形式から選ぶ
+        format: pickFormat(layer.formats.filter(isWmsFormat), sel.format),
+        version,
+        transparent: true,
+        ...(crs && crs !== "EPSG:3857" ? { crs } : {}),
+      },
+      min_zoom: WMS_ZOOM.min,
+      max_zoom: WMS_ZOOM.max,
+      attribution,
+      legend: legendOf(style),
+    };
+  }
+
+  // WMTS
+  const links = layer.tile_matrix_sets ?? [];
+  const setOf = (id?: string) => caps.tile_matrix_sets.find((s) => s.id === id);
+  const set = setOf(sel.tile_matrix_set ?? links.find((id) => setOf(id)?.web_mercator));
+  if (!set || !links.includes(set.id)) {
+    throw new CapabilitiesError(`マトリクスセットがありません: ${sel.tile_matrix_set}`);
+  }
+  if (!set.web_mercator) {
+    throw new CapabilitiesError(`Web メルカトルの z/x/y に対応づけられないマトリクスセットです: ${set.id}`);
+  }
+  const rest = caps.resource_urls?.[layer.name] ?? [];
+  const format = pickFormat([...new Set([...layer.formats, ...rest.map((r) => r.format)])], sel.format);
+  const matrix = `${set.web_mercator.prefix}{TileMatrix}`;
+
+  let url: string;
+  const resource = rest.find((r) => r.format === format);
+  if (resource) {
+    const values: Record<string, string> = {
+      ...caps.dimensions?.[layer.name],
+      style: style?.name ?? "",
+      tilematrixset: set.id,
+    };
+    url = resource.template.replace(/\{(\w+)\}/g, (m, key: string) => {
+      if (/^(TileMatrix|TileRow|TileCol)$/.test(key)) return key === "TileMatrix" ? matrix : m;
+      const v = values[key] ?? values[key.toLowerCase()];
+      if (v === undefined || v === "") throw new CapabilitiesError(`テンプレートの {${key}} を埋められません`);
+      return encodeURIComponent(v);
+    });
+  } else {
+    if (!caps.get_tile_url) throw new CapabilitiesError("GetTile の URL がありません");
+    const q = [
+      ["SERVICE", "WMTS"],
+      ["REQUEST", "GetTile"],
+      ["VERSION", caps.version || "1.0.0"],
+      ["LAYER", layer.name],
+      ["STYLE", style?.name ?? ""],
+      ["TILEMATRIXSET", set.id],
+      ["FORMAT", format],
+    ].map(([k, v]) => `${k}=${encodeURIComponent(v)}`);
+    // プレースホルダは展開時に置き換えるためエンコードしない
+    const prefix = encodeURIComponent(set.web_mercator.prefix);
+    q.push(`TILEMATRIX=${prefix}{TileMatrix}`, "TILEROW={TileRow}", "TILECOL={TileCol}");
+    const base = caps.get_tile_url.replace(/[?&]+$/, "");
+    url = `${base}${base.includes("?") ? "&" : "?"}${q.join("&")}`;
+  }
+
+  return {
+    type: /vector-tile|pbf|protobuf/.test(format) ? "mvt" : "wmts",
+    url,
+    min_zoom: set.web_mercator.min_zoom,
+    max_zoom: set.web_mercator.max_zoom,
+    attribution,
+    legend: legendOf(style),
+  };
+}
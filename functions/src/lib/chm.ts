@@ -0,0 +1,197 @@
+// functions/src/lib/chm.ts
+/* =========================================================
+ * 樹冠高モデル（CHM）からの単木検出
+ * 可変窓の局所最大値法（窓径 = a + b·樹高）で樹頂点を抽出し、
+ * 樹高からアロメトリ式で DBH・材積を推定する。
+ * =======================================================*/
+import { fromArrayBuffer } from "geotiff";
+import proj4 from "proj4";
+
+export type ChmRaster = {
+  data: Float32Array;
+  width: number;
+  height: number;
+  /** 左上隅の座標と画素サイズ（投影座標系の単位） */
+  originX: number;
+  originY: number;
+  resX: number;
+  resY: number; // 北向き正（画素の高さ）
+  noData: number | null;
+  epsg: number | null;
+};
+
+export type DetectParams = {
+  /** 樹頂点とみなす最低樹高（m） */
+  minHeight: number;
+  /** 探索窓の直径（m）= a + b·h、[min, max] にクランプ */
+  window: { a: number; b: number; min: number; max: number };
+  /** 3×3 平滑化を先にかけるか（偽の極大を減らす） */
+  smooth: boolean;
+};
+
+/** アロメトリ式：DBH = a·h^b（cm）、材積 = c·DBH^d·h^e（m³） */
+export type Allometry = {
+  dbh: { a: number; b: number };
+  volume: { c: number; d: number; e: number };
+};
+
+export const DEFAULT_DETECT: DetectParams = {
+  minHeight: 2,
+  window: { a: 2.5, b: 0.1, min: 1.5, max: 10 },
+  smooth: true,
+};
+
+export const DEFAULT_ALLOMETRY: Allometry = {
+  dbh: { a: 1.1, b: 1.1 },
+  volume: { c: 0.0000566, d: 1.8, e: 1.0 },
+};
+
+/** 読み込みを許す最大画素数（メモリ保護） */
+export const CHM_MAX_PIXELS = 64_000_000;
+
+/** GeoTIFF（単バンド）を読み込む */
+export async function readChm(buf: ArrayBuffer): Promise<ChmRaster> {
+  const tiff = await fromArrayBuffer(buf);
+  const image = await tiff.getImage();
+  const width = image.getWidth();
+  const height = image.getHeight();
+  if (width * height > CHM_MAX_PIXELS) {
+    throw new Error(`raster too large: ${width}x${height} (max ${CHM_MAX_PIXELS} px)`);
+  }
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution();
+  const keys = (image.getGeoKeys() ?? {}) as Record<string, number>;
+  const epsg = keys.ProjectedCSTypeGeoKey ?? keys.GeographicTypeGeoKey ?? null;
+  const nd = image.getGDALNoData();
+
+  const [band] = (await image.readRasters({ samples: [0] })) as unknown as ArrayLike<number>[];
+  return {
+    data: Float32Array.from(band),
+    width,
+    height,
+    originX,
+    originY,
+    resX: Math.abs(resX),
+    resY: Math.abs(resY),
+    noData: nd == null ? null : Number(nd),
+    epsg: epsg && epsg !== 32767 ? epsg : null,
+  };
+}
+
+// 3×3 平均（NoData は除外）
+function smooth3(r: ChmRaster, valid: (v: number) => boolean) {
+  const { data, width: w, height: h } = r;
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const c = data[y * w + x];
+      if (!valid(c)) {
+        out[y * w + x] = c;
+        continue;
+      }
+      let sum = 0, n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx, yy = y + dy;
+          if (xx < 0 || yy < 0 || xx >= w || yy >= h) continue;
+          const v = data[yy * w + xx];
+          if (valid(v)) { sum += v; n++; }
+        }
+      }
+      out[y * w + x] = sum / n;
+    }
+  }
+  return out;
+}
+
+const GEOGRAPHIC_EPSG = new Set([4326, 6668, 4612]);
+
+// 画素サイズ（m）。地理座標系なら緯度から概算
+function metersPerPixel(r: ChmRaster) {
+  if (r.epsg != null && GEOGRAPHIC_EPSG.has(r.epsg)) {
+    const lat = r.originY - (r.height * r.resY) / 2;
+    const my = r.resY * 111_320;
+    const mx = r.resX * 111_320 * Math.cos((lat * Math.PI) / 180);
+    return Math.min(mx, my);
+  }
+  return Math.min(r.resX, r.resY);
+}
+
+export type DetectedTop = { x: number; y: number; height_m: number };
+
+/**
+ * 可変窓の局所最大値で樹頂点を検出。
+ * 座標は投影座標系（画素中心）で返す。高さは平滑化前の値を使う。
+ */
+export function detectTreeTops(r: ChmRaster, p: DetectParams = DEFAULT_DETECT): DetectedTop[] {
+  const { width: w, height: h, data } = r;
+  const valid = (v: number) => Number.isFinite(v) && (r.noData == null || v !== r.noData);
+  const surf = p.smooth ? smooth3(r, valid) : data;
+  const px = metersPerPixel(r);
+
+  const tops: DetectedTop[] = [];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const c = surf[i];
+      if (!valid(c) || c < p.minHeight) continue;
+
+      const diam = Math.min(p.window.max, Math.max(p.window.min, p.window.a + p.window.b * c));
+      const rad = Math.max(1, Math.round(diam / 2 / px));
+      const rad2 = rad * rad;
+
+      let isMax = true;
+      for (let dy = -rad; dy <= rad && isMax; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= h) continue;
+        for (let dx = -rad; dx <= rad; dx++) {
+          if (dx * dx + dy * dy > rad2 || (dx === 0 && dy === 0)) continue;
+          const xx = x + dx;
+          if (xx < 0 || xx >= w) continue;
+          const j = yy * w + xx;
+          const v = surf[j];
+          if (!valid(v)) continue;
+          // 同値は走査順で先の画素を優先（台地で重複検出しない）
+          if (v > c || (v === c && j < i)) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (!isMax) continue;
+
+      tops.push({
+        x: r.originX + (x + 0.5) * r.resX,
+        y: r.originY - (y + 0.5) * r.resY,
+        height_m: valid(data[i]) ? data[i] : c,
+      });
+    }
+  }
+  return tops;
+}
+
+/** 樹高 → DBH（cm）・材積（m³） */
+export function applyAllometry(heightM: number, a: Allometry = DEFAULT_ALLOMETRY) {
+  const dbh = a.dbh.a * Math.pow(heightM, a.dbh.b);
+  const vol = a.volume.c * Math.pow(dbh, a.volume.d) * Math.pow(heightM, a.volume.e);
+  return { dbh_cm: Math.round(dbh * 10) / 10, volume_m3: Math.round(vol * 1000) / 1000 };
+}
+
+/**
+ * 投影座標 → 経緯度の変換関数を作る。
+ * EPSG:4326 / 3857 は組み込み、それ以外は proj4 定義文字列が必要。
+ */
+export function makeToLngLat(epsg: number | null, projDef?: string) {
+  if (projDef) {
+    const conv = proj4(projDef, "EPSG:4326");
+    return (x: number, y: number) => conv.forward([x, y]) as [number, number];
+  }
+  if (epsg != null && GEOGRAPHIC_EPSG.has(epsg)) {
+    return (x: number, y: number) => [x, y] as [number, number];
+  }
+  if (epsg === 3857 || epsg === 900913) {
+    const conv = proj4("EPSG:3857", "EPSG:4326");
+    return (x: number, y: number) => conv.forward([x, y]) as [number, number];
+  }
+  throw new Error(`unsupported CRS (EPSG:${epsg ?? "unknown"}); pass crs_proj4`);
+}
@@ -0,0 +1,55 @@
+// functions/src/lib/csv.ts
+/* =========================================================
+ * 最小限の CSV パーサ（RFC 4180 準拠：引用符・改行入りセル対応）
+ * =======================================================*/
+
+/** CSV テキスト → 行（セル配列）の配列。BOM と末尾の空行は除去 */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += c;
+      }
+      continue;
+    }
+    if (c === '"') quoted = true;
+    else if (c === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += c;
+  }
+  if (quoted) throw new Error("unterminated quoted field");
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((v) => v.trim() !== ""));
+}
+
+/** 1 行目をヘッダとしてオブジェクト配列に変換 */
+export function csvToObjects(text: string): Record<string, string>[] {
+  const [header, ...body] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return body.map((r) => Object.fromEntries(keys.map((k, i) => [k, (r[i] ?? "").trim()])));
+}
@@ -0,0 +1,19 @@
+// functions/src/lib/cursor.ts
+/* =========================================================
+ * ページング用の不透明カーソル（base64url(JSON)）
+ * =======================================================*/
+
+export function encodeCursor(v: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(v), "utf8").toString("base64url");
+}
+
+/** 復号できなければ例外（呼び出し側で 400 にする） */
+export function decodeCursor<T = Record<string, unknown>>(s: string): T {
+  try {
+    const v = JSON.parse(Buffer.from(s, "base64url").toString("utf8"));
+    if (v && typeof v === "object") return v as T;
+  } catch {
+    // fallthrough
+  }
+  throw new Error("invalid cursor");
+}
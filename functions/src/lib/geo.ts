@@ -0,0 +1,302 @@
+// functions/src/lib/geo.ts
+/* =========================================================
+ * 空間インデックス（geohash）と簡易ジオメトリ演算
+ * =======================================================*/
+
+export type BBox = { minLng: number; minLat: number; maxLng: number; maxLat: number };
+export type LngLat = [number, number];
+
+type PolygonGeom = { type: "Polygon"; coordinates: LngLat[][] };
+type MultiPolygonGeom = { type: "MultiPolygon"; coordinates: LngLat[][][] };
+export type AreaGeom = PolygonGeom | MultiPolygonGeom;
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/** 樹木ドキュメントに保存する geohash の桁数（約 4.8m × 4.8m） */
+export const TREE_GEOHASH_PRECISION = 9;
+
+/** 緯度経度 → geohash */
+export function encodeGeohash(lat: number, lng: number, precision = TREE_GEOHASH_PRECISION) {
+  let latLo = -90, latHi = 90, lngLo = -180, lngHi = 180;
+  let hash = "";
+  let bit = 0, ch = 0, even = true;
+  while (hash.length < precision) {
+    if (even) {
+      const mid = (lngLo + lngHi) / 2;
+      if (lng >= mid) { ch = (ch << 1) | 1; lngLo = mid; } else { ch = ch << 1; lngHi = mid; }
+    } else {
+      const mid = (latLo + latHi) / 2;
+      if (lat >= mid) { ch = (ch << 1) | 1; latLo = mid; } else { ch = ch << 1; latHi = mid; }
+    }
+    even = !even;
+    if (++bit === 5) {
+      hash += BASE32[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+  return hash;
+}
+
+/** geohash セルの範囲 */
+export function geohashBounds(hash: string): BBox {
+  let latLo = -90, latHi = 90, lngLo = -180, lngHi = 180;
+  let even = true;
+  for (const c of hash) {
+    const v = BASE32.indexOf(c);
+    if (v < 0) throw new Error(`invalid geohash: ${hash}`);
+    for (let b = 4; b >= 0; b--) {
+      const on = (v >> b) & 1;
+      if (even) {
+        const mid = (lngLo + lngHi) / 2;
+        if (on) lngLo = mid; else lngHi = mid;
+      } else {
+        const mid = (latLo + latHi) / 2;
+        if (on) latLo = mid; else latHi = mid;
+      }
+      even = !even;
+    }
+  }
+  return { minLng: lngLo, minLat: latLo, maxLng: lngHi, maxLat: latHi };
+}
+
+// 桁数ごとのセル寸法（度）
+function cellSize(precision: number) {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return { w: 360 / Math.pow(2, lngBits), h: 180 / Math.pow(2, latBits) };
+}
+
+/**
+ * bbox を覆う geohash プレフィックスの一覧。
+ * セル数が maxCells 以下に収まる最も細かい桁数を選ぶ（1 桁でも収まらなければ [""]＝全体）。
+ * 日付変更線をまたぐ bbox（minLng > maxLng）は東西に分けて覆う。
+ */
+export function geohashCover(b: BBox, maxCells = 16): string[] {
+  if (b.minLng > b.maxLng) {
+    const half = Math.max(1, Math.floor(maxCells / 2));
+    const east = geohashCover({ ...b, maxLng: 180 }, half);
+    const west = geohashCover({ ...b, minLng: -180 }, half);
+    return east.includes("") || west.includes("") ? [""] : [...east, ...west];
+  }
+
+  let best: string[] = [""];
+  for (let p = 1; p <= TREE_GEOHASH_PRECISION; p++) {
+    const { w, h } = cellSize(p);
+    // 東端 180° / 北端 90° ちょうどは最後のセルに含める（その先の列・行は無い）
+    const x0 = Math.floor(b.minLng / w);
+    const x1 = Math.min(Math.floor(b.maxLng / w), 180 / w - 1);
+    const y0 = Math.floor(b.minLat / h);
+    const y1 = Math.min(Math.floor(b.maxLat / h), 90 / h - 1);
+    const nx = x1 - x0 + 1;
+    const ny = y1 - y0 + 1;
+    if (nx * ny > maxCells) break;
+
+    const cells: string[] = [];
+    for (let i = 0; i < nx; i++) {
+      for (let j = 0; j < ny; j++) {
+        // セル中心で encode（境界の丸め誤差を避ける）
+        cells.push(encodeGeohash((y0 + j + 0.5) * h, (x0 + i + 0.5) * w, p));
+      }
+    }
+    best = cells;
+  }
+  return best;
+}
+
+/** geohash プレフィックスの範囲検索に使う上限キー */
+export const geohashUpper = (prefix: string) => prefix + "~";
+
+export const bboxContains = (b: BBox, lng: number, lat: number) =>
+  lng >= b.minLng && lng <= b.maxLng && lat >= b.minLat && lat <= b.maxLat;
+
+/** Polygon / MultiPolygon の外接矩形 */
+export function bboxOfArea(g: AreaGeom): BBox {
+  const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+  const b = { minLng: 180, minLat: 90, maxLng: -180, maxLat: -90 };
+  for (const poly of polys) {
+    for (const [lng, lat] of poly[0] ?? []) {
+      if (lng < b.minLng) b.minLng = lng;
+      if (lng > b.maxLng) b.maxLng = lng;
+      if (lat < b.minLat) b.minLat = lat;
+      if (lat > b.maxLat) b.maxLat = lat;
+    }
+  }
+  return b;
+}
+
+// レイキャスティング（リング単体）
+function inRing(lng: number, lat: number, ring: LngLat[]) {
+  let ok = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const hit = yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi || 1e-12) + xi;
+    if (hit) ok = !ok;
+  }
+  return ok;
+}
+
+/** 点が Polygon / MultiPolygon 内か（穴を考慮） */
+export function pointInArea(lng: number, lat: number, g: AreaGeom) {
+  const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+  return polys.some(
+    ([outer, ...holes]) =>
+      !!outer && inRing(lng, lat, outer) && !holes.some((h) => inRing(lng, lat, h))
+  );
+}
+
+/**
+ * 樹木ドキュメントから経度・緯度を取り出す。
+ * lat/lng 直下・location{lat,lng}・geom(Point) の表記ゆれを吸収。
+ */
+export function treeLngLat(d: any): LngLat | null {
+  let lat = d?.lat, lng = d?.lng;
+  if ((lat == null || lng == null) && d?.location) {
+    lat = d.location.lat ?? d.location.latitude;
+    lng = d.location.lng ?? d.location.longitude;
+  }
+  if ((lat == null || lng == null) && d?.geom?.type === "Point") {
+    [lng, lat] = d.geom.coordinates ?? [];
+  }
+  lat = Number(lat);
+  lng = Number(lng);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lng, lat] : null;
+}
+
+// 球面上のリング面積（m²、符号なし）。WGS84 長半径で近似
+const EARTH_R = 6378137;
+function ringAreaM2(ring: LngLat[]) {
+  const n = ring.length;
+  if (n < 3) return 0;
+  const rad = (d: number) => (d * Math.PI) / 180;
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % n];
+    sum += rad(lng2 - lng1) * (2 + Math.sin(rad(lat1)) + Math.sin(rad(lat2)));
+  }
+  return Math.abs((sum * EARTH_R * EARTH_R) / 2);
+}
+
+/** Polygon / MultiPolygon の面積（m²、穴を差し引く） */
+export function areaM2(g: AreaGeom) {
+  const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+  let total = 0;
+  for (const [outer, ...holes] of polys) {
+    if (!outer) continue;
+    total += ringAreaM2(outer) - holes.reduce((a, h) => a + ringAreaM2(h), 0);
+  }
+  return Math.max(0, total);
+}
+
+/* ---------------------- 矩形とジオメトリの交差判定 ---------------------- */
+export type LineGeom = { type: "LineString"; coordinates: LngLat[] };
+
+/** 経緯度範囲が重なるか */
+export const bboxIntersects = (a: BBox, b: BBox) =>
+  a.minLng <= b.maxLng && a.maxLng >= b.minLng && a.minLat <= b.maxLat && a.maxLat >= b.minLat;
+
+// 線分同士の交差（端点接触を含む）
+function segmentsCross(p1: LngLat, p2: LngLat, q1: LngLat, q2: LngLat) {
+  const d = (a: LngLat, b: LngLat, c: LngLat) => (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+  const d1 = d(q1, q2, p1), d2 = d(q1, q2, p2), d3 = d(p1, p2, q1), d4 = d(p1, p2, q2);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+  const on = (a: LngLat, b: LngLat, c: LngLat) =>
+    Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1]);
+  return (
+    (d1 === 0 && on(q1, q2, p1)) || (d2 === 0 && on(q1, q2, p2)) ||
+    (d3 === 0 && on(p1, p2, q1)) || (d4 === 0 && on(p1, p2, q2))
+  );
+}
+
+const rectCorners = (b: BBox): LngLat[] => [
+  [b.minLng, b.minLat],
+  [b.maxLng, b.minLat],
+  [b.maxLng, b.maxLat],
+  [b.minLng, b.maxLat],
+];
+
+// 線分が矩形に掛かるか
+function segmentHitsRect(a: LngLat, b: LngLat, r: BBox) {
+  if (bboxContains(r, a[0], a[1]) || bboxContains(r, b[0], b[1])) return true;
+  const c = rectCorners(r);
+  return c.some((p, i) => segmentsCross(a, b, p, c[(i + 1) % 4]));
+}
+
+/** 矩形が Polygon / MultiPolygon と交差するか（接触を含む） */
+export function rectIntersectsArea(r: BBox, g: AreaGeom) {
+  if (!bboxIntersects(r, bboxOfArea(g))) return false;
+  // 矩形の角が面内 → 交差
+  if (rectCorners(r).some(([lng, lat]) => pointInArea(lng, lat, g))) return true;
+  // 面の辺が矩形に掛かる（頂点が矩形内の場合を含む）→ 交差
+  const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+  return polys.some((rings) =>
+    rings.some((ring) => ring.some((p, i) => i > 0 && segmentHitsRect(ring[i - 1], p, r)))
+  );
+}
+
+// 局所平面（m）への近似投影。緯度 lat0 付近で十分な精度
+const M_PER_DEG_LAT = 110_540;
+const mPerDegLng = (lat0: number) => 111_320 * Math.cos((lat0 * Math.PI) / 180);
+
+// 点と線分の距離（平面）
+function distPointSegment(p: [number, number], a: [number, number], b: [number, number]) {
+  const dx = b[0] - a[0], dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2)) : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/** LineString を bufferM（m）だけ太らせた範囲の外接矩形 */
+export function bboxOfLine(g: LineGeom, bufferM = 0): BBox {
+  const b = { minLng: 180, minLat: 90, maxLng: -180, maxLat: -90 };
+  for (const [lng, lat] of g.coordinates) {
+    b.minLng = Math.min(b.minLng, lng);
+    b.maxLng = Math.max(b.maxLng, lng);
+    b.minLat = Math.min(b.minLat, lat);
+    b.maxLat = Math.max(b.maxLat, lat);
+  }
+  const dLat = bufferM / M_PER_DEG_LAT;
+  const dLng = bufferM / mPerDegLng(Math.max(Math.abs(b.minLat), Math.abs(b.maxLat)));
+  return {
+    minLng: Math.max(-180, b.minLng - dLng),
+    maxLng: Math.min(180, b.maxLng + dLng),
+    minLat: Math.max(-90, b.minLat - dLat),
+    maxLat: Math.min(90, b.maxLat + dLat),
+  };
+}
+
+/** 矩形が LineString から bufferM（m）以内に掛かるか */
+export function rectNearLine(r: BBox, g: LineGeom, bufferM: number) {
+  const pts = g.coordinates;
+  if (!bboxIntersects(r, bboxOfLine(g, bufferM))) return false;
+  if (pts.some((p, i) => i > 0 && segmentHitsRect(pts[i - 1], p, r))) return true;
+
+  const lat0 = (r.minLat + r.maxLat) / 2;
+  const kx = mPerDegLng(lat0);
+  const toM = ([lng, lat]: LngLat): [number, number] => [lng * kx, lat * M_PER_DEG_LAT];
+  const corners = rectCorners(r).map(toM);
+  const line = pts.map(toM);
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1], b = line[i];
+    // 線分と矩形が交わらないとき、最短距離は「角→線分」か「端点→矩形の辺」
+    if (corners.some((c) => distPointSegment(c, a, b) <= bufferM)) return true;
+    for (const p of [a, b]) {
+      if (corners.some((c, j) => distPointSegment(p, c, corners[(j + 1) % 4]) <= bufferM)) return true;
+    }
+  }
+  return false;
+}
+
+/** 点が LineString から bufferM（m）以内か */
+export function pointNearLine(lng: number, lat: number, g: LineGeom, bufferM: number) {
+  const kx = mPerDegLng(lat);
+  const toM = ([x, y]: LngLat): [number, number] => [x * kx, y * M_PER_DEG_LAT];
+  const p = toM([lng, lat]);
+  const line = g.coordinates.map(toM);
+  if (line.length === 1) return Math.hypot(p[0] - line[0][0], p[1] - line[0][1]) <= bufferM;
+  return line.some((b, i) => i > 0 && distPointSegment(p, line[i - 1], b) <= bufferM);
+}
@@ -0,0 +1,321 @@
+// functions/src/lib/layers.ts
+/* =========================================================
+ * 組織ごとのレイヤ登録簿
+ * 既定のレイヤ（DEFAULT_LAYERS。上流 URL は環境変数で上書き可）に
+ * orgs/{org_id}/layers/{id} を重ねたものがその組織のレイヤ一覧になる。
+ *   - 既定と同じ id の文書は表示設定の上書き（enabled: false で非表示。上流 URL・種別は変えられない）
+ *   - それ以外の id は組織が独自に登録したレイヤ（上流は公開の https のみ）
+ *   - licensed な既定レイヤは orgs/{org_id}.layers に含まれる組織のみ利用可
+ * 上流の種別: xyz / mvt は {z}/{x}/{y} テンプレート、wmts は REST テンプレート
+ * （{TileMatrix}/{TileRow}/{TileCol} も可）、wms はサービス URL + wms パラメータ。
+ * どの種別もタイルプロキシ（/tiles/{id}/{z}/{x}/{y}、EPSG:3857）で配信する。
+ * =======================================================*/
+import * as admin from "firebase-admin";
+import { expandTemplate } from "./tileCache";
+
+export const LAYER_TYPES = ["xyz", "wms", "wmts", "mvt"] as const;
+export type LayerType = (typeof LAYER_TYPES)[number];
+
+/** /tiles/trees/... と衝突する id（登録不可） */
+export const RESERVED_LAYER_IDS = ["trees"];
+
+export type LayerLegend = {
+  image_url?: string;
+  items?: Array<{ label: string; color: string }>;
+};
+
+/** WMS の GetMap で使える画像形式（優先順。1 つ目が既定） */
+export const WMS_FORMATS = ["image/png", "image/webp", "image/jpeg"] as const;
+
+export type WmsParams = {
+  layers: string;
+  styles?: string;
+  format?: (typeof WMS_FORMATS)[number];
+  version?: "1.1.1" | "1.3.0";
+  transparent?: boolean;
+  crs?: string; // 既定 EPSG:3857（900913 などの別名しか無いサービス向け）
+};
+
+export type LayerDef = {
+  id: string;
+  label: string;
+  type: LayerType;
+  url: string; // 上流（ブラウザには返さない）
+  wms?: WmsParams;
+  min_zoom: number;
+  max_zoom: number;
+  attribution: string;
+  legend: LayerLegend | null;
+  opacity: number; // 既定の不透明度 0..1
+  group: string; // レイヤ一覧での見出し
+  base: boolean; // 背景レイヤ（択一で表示）
+  order: number;
+  enabled: boolean;
+  licensed: boolean;
+  avg_tile_bytes: number; // 事前DL の容量見積りに使う 1 タイルあたりの目安
+  builtin: boolean;
+};
+
+/** 既定レイヤで組織が上書きできる項目 */
+export const LAYER_OVERRIDABLE = [
+  "label",
+  "min_zoom",
+  "max_zoom",
+  "attribution",
+  "legend",
+  "opacity",
+  "group",
+  "base",
+  "order",
+  "enabled",
+] as const;
+
+type BuiltinSpec = Pick<
+  LayerDef,
+  "id" | "label" | "type" | "url" | "min_zoom" | "max_zoom" | "group" | "licensed" | "avg_tile_bytes"
+> &
+  Partial<LayerDef>;
+
+const builtin = (d: BuiltinSpec, i: number): LayerDef => ({
+  attribution: d.label,
+  legend: null,
+  opacity: 0.7,
+  base: false,
+  enabled: true,
+  ...d,
+  order: (i + 1) * 10,
+  builtin: true,
+});
+
+/** 既定のレイヤ（全組織共通） */
+const DEFAULT_SPECS: BuiltinSpec[] = [
+  {
+    id: "orthophoto",
+    label: "航空写真",
+    type: "xyz",
+    url: process.env.TILES_ORTHO_URL ?? "https://tiles.example.com/orthophoto/{z}/{x}/{y}.jpg",
+    min_zoom: 5,
+    max_zoom: 20,
+    group: "背景",
+    base: true,
+    opacity: 1,
+    licensed: true,
+    avg_tile_bytes: 35_000,
+  },
+  {
+    id: "slope",
+    label: "傾斜",
+    type: "xyz",
+    url: process.env.TILES_SLOPE_URL ?? "https://tiles.example.com/slope/{z}/{x}/{y}.png",
+    min_zoom: 5,
+    max_zoom: 18,
+    group: "地形",
+    licensed: false,
+    avg_tile_bytes: 15_000,
+  },
+  {
+    id: "dem",
+    label: "DEM",
+    type: "xyz",
+    url: process.env.TILES_DEM_URL ?? "https://tiles.example.com/dem/{z}/{x}/{y}.png",
+    min_zoom: 5,
+    max_zoom: 18,
+    group: "地形",
+    licensed: true,
+    avg_tile_bytes: 20_000,
+  },
+  {
+    id: "contour",
+    label: "等高線",
+    type: "xyz",
+    url: process.env.TILES_CONTOUR_URL ?? "https://tiles.example.com/contour/{z}/{x}/{y}.png",
+    min_zoom: 10,
+    max_zoom: 18,
+    group: "地形",
+    licensed: false,
+    avg_tile_bytes: 8_000,
+  },
+  {
+    id: "canopy_surface",
+    label: "樹冠表面",
+    type: "xyz",
+    url:
+      process.env.TILES_CANOPY_SURFACE_URL ??
+      "https://tiles.example.com/canopy_surface/{z}/{x}/{y}.png",
+    min_zoom: 10,
+    max_zoom: 19,
+    group: "森林",
+    licensed: false,
+    avg_tile_bytes: 20_000,
+  },
+  {
+    id: "relative_stem_distance_ratio",
+    label: "相対幹距比",
+    type: "xyz",
+    url: process.env.TILES_RSDR_URL ?? "https://tiles.example.com/rsdr/{z}/{x}/{y}.png",
+    min_zoom: 10,
+    max_zoom: 19,
+    group: "森林",
+    licensed: false,
+    avg_tile_bytes: 10_000,
+  },
+  // ベクタ（将来のMVT/PostGIS想定）
+  {
+    id: "species_polygon",
+    label: "樹種ポリゴン",
+    type: "mvt",
+    url: process.env.MVT_SPECIES_URL ?? "https://tiles.example.com/mvt/species/{z}/{x}/{y}.pbf",
+    min_zoom: 8,
+    max_zoom: 18,
+    group: "森林",
+    licensed: false,
+    avg_tile_bytes: 12_000,
+  },
+];
+export const DEFAULT_LAYERS = DEFAULT_SPECS.map(builtin);
+
+const DEFAULT_BY_ID = new Map(DEFAULT_LAYERS.map((l) => [l.id, l]));
+export const isBuiltinLayer = (id: string) => DEFAULT_BY_ID.has(id);
+
+/**
+ * 組織が登録する上流 URL の検査。サーバから取得するため、
+ * Cloud Storage（gs://）やメタデータサーバ・社内アドレスを指すものは受け付けない。
+ * （名前解決後のアドレスまでは見ない）
+ */
+export function isPublicHttpsUrl(s: string) {
+  let u: URL;
+  try {
+    u = new URL(s.replace(/\{[^}]+\}/g, "0"));
+  } catch {
+    return false;
+  }
+  if (u.protocol !== "https:" || u.username || u.password) return false;
+  const host = u.hostname.toLowerCase();
+  if (host === "localhost" || host.endsWith(".internal") || host.endsWith(".local")) return false;
+  if (host.startsWith("[")) return false; // IPv6 リテラル
+  const ip = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)?.slice(1).map(Number);
+  if (ip) {
+    const [a, b] = ip;
+    if (a === 0 || a === 10 || a === 127 || (a === 169 && b === 254)) return false;
+    if (a === 172 && b >= 16 && b <= 31) return false;
+    if ((a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127)) return false;
+  }
+  return true;
+}
+
+/* ---------------------------- 組織の登録簿 ---------------------------- */
+export const layersCol = (orgId: string) =>
+  admin.firestore().collection("orgs").doc(orgId).collection("layers");
+
+// 1 分間インスタンス内でキャッシュ（登録簿の更新時は invalidateOrgLayers）
+const REGISTRY_TTL_MS = 60_000;
+const registryCache = new Map<string, { layers: LayerDef[]; entitled: Set<string>; at: number }>();
+
+export function invalidateOrgLayers(orgId: string) {
+  registryCache.delete(orgId);
+}
+
+function customLayer(id: string, d: FirebaseFirestore.DocumentData): LayerDef {
+  return {
+    id,
+    label: d.label ?? id,
+    type: d.type,
+    url: d.url,
+    ...(d.wms ? { wms: d.wms } : {}),
+    min_zoom: d.min_zoom ?? 0,
+    max_zoom: d.max_zoom ?? 18,
+    attribution: d.attribution ?? "",
+    legend: d.legend ?? null,
+    opacity: d.opacity ?? 0.7,
+    group: d.group ?? "その他",
+    base: d.base ?? false,
+    order: d.order ?? 1000,
+    enabled: d.enabled ?? true,
+    licensed: false,
+    avg_tile_bytes: d.avg_tile_bytes ?? 20_000,
+    builtin: false,
+  };
+}
+
+/** 登録簿の全件（無効・契約外も含む）と、組織の有償レイヤ契約 */
+export async function orgLayerRegistry(orgId: string) {
+  const hit = registryCache.get(orgId);
+  if (hit && Date.now() - hit.at < REGISTRY_TTL_MS) return hit;
+
+  const orgRef = admin.firestore().collection("orgs").doc(orgId);
+  const [org, docs] = await Promise.all([orgRef.get(), layersCol(orgId).get()]);
+  const list = org.get("layers");
+  const entitled = new Set<string>(Array.isArray(list) ? list.map(String) : []);
+
+  const overrides = new Map(docs.docs.map((d) => [d.id, d.data()]));
+  const layers: LayerDef[] = DEFAULT_LAYERS.map((l) => {
+    const o = overrides.get(l.id);
+    if (!o) return l;
+    const keys = LAYER_OVERRIDABLE.filter((k) => o[k] !== undefined);
+    return { ...l, ...Object.fromEntries(keys.map((k) => [k, o[k]])) };
+  });
+  for (const [id, d] of overrides) {
+    if (!DEFAULT_BY_ID.has(id)) layers.push(customLayer(id, d));
+  }
+  layers.sort((a, b) => a.order - b.order || a.label.localeCompare(b.label, "ja"));
+
+  const entry = { layers, entitled, at: Date.now() };
+  registryCache.set(orgId, entry);
+  return entry;
+}
+
+export const isLayerAvailable = (l: LayerDef, entitled: Set<string>) =>
+  l.enabled && (!l.licensed || entitled.has(l.id));
+
+/** 組織が使えるレイヤ（有効かつ契約済み） */
+export async function orgLayers(orgId: string | undefined) {
+  if (!orgId) return [];
+  const { layers, entitled } = await orgLayerRegistry(orgId);
+  return layers.filter((l) => isLayerAvailable(l, entitled));
+}
+
+/**
+ * id のレイヤを引く。登録簿に無い・無効なら null。
+ * 契約外（licensed で orgs/{org_id}.layers に無い）は entitled: false で返す。
+ */
+export async function findOrgLayer(orgId: string | undefined, id: string) {
+  if (!orgId) return null;
+  const { layers, entitled } = await orgLayerRegistry(orgId);
+  const layer = layers.find((l) => l.id === id && l.enabled);
+  return layer ? { layer, entitled: isLayerAvailable(layer, entitled) } : null;
+}
+
+/* ---------------------------- 上流 URL ---------------------------- */
+const MERCATOR_HALF = 20037508.342789244;
+
+/** Web メルカトル（EPSG:3857）でのタイルの範囲 minx,miny,maxx,maxy */
+function tileBBox3857(z: number, x: number, y: number) {
+  const span = (MERCATOR_HALF * 2) / 2 ** z;
+  const minx = -MERCATOR_HALF + x * span;
+  const maxy = MERCATOR_HALF - y * span;
+  return [minx, maxy - span, minx + span, maxy];
+}
+
+/** タイル z/x/y の上流 URL */
+export function layerTileUrl(l: LayerDef, z: number, x: number, y: number) {
+  if (l.type !== "wms") return expandTemplate(l.url, z, x, y);
+
+  const p = l.wms!;
+  const version = p.version ?? "1.3.0";
+  const u = new URL(l.url);
+  const q = {
+    SERVICE: "WMS",
+    REQUEST: "GetMap",
+    VERSION: version,
+    LAYERS: p.layers,
+    STYLES: p.styles ?? "",
+    FORMAT: p.format ?? "image/png",
+    TRANSPARENT: String(p.transparent ?? true).toUpperCase(),
+    [version === "1.3.0" ? "CRS" : "SRS"]: p.crs ?? "EPSG:3857",
+    WIDTH: "256",
+    HEIGHT: "256",
+    BBOX: tileBBox3857(z, x, y).join(","),
+  };
+  for (const [k, v] of Object.entries(q)) u.searchParams.set(k, v);
+  return u.toString();
+}
@@ -0,0 +1,55 @@
+// functions/src/lib/mbtiles.ts
+/* =========================================================
+ * MBTiles（SQLite）生成。sql.js（WASM）でメモリ上に作ってバイト列で返す。
+ * 仕様: https://github.com/mapbox/mbtiles-spec/blob/master/1.3/spec.md
+ * 追加テーブル features(name, geojson) に樹木・計画などのベクタを格納する。
+ * =======================================================*/
+import initSqlJs, { Database } from "sql.js";
+
+let sqlPromise: ReturnType<typeof initSqlJs> | null = null;
+const loadSql = () => (sqlPromise ??= initSqlJs());
+
+export class MbtilesWriter {
+  private constructor(private db: Database) {}
+
+  static async create() {
+    const SQL = await loadSql();
+    const db = new SQL.Database();
+    db.run(`
+      CREATE TABLE metadata (name TEXT, value TEXT);
+      CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB);
+      CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row);
+      CREATE TABLE features (name TEXT PRIMARY KEY, geojson TEXT);
+    `);
+    return new MbtilesWriter(db);
+  }
+
+  /** 途中まで作ったファイル（finish の出力）を開き直す */
+  static async open(bytes: Uint8Array) {
+    const SQL = await loadSql();
+    return new MbtilesWriter(new SQL.Database(bytes));
+  }
+
+  /** XYZ 座標で追加（内部で TMS の行番号に反転） */
+  addTile(z: number, x: number, y: number, data: Buffer) {
+    const row = Math.pow(2, z) - 1 - y;
+    this.db.run("INSERT OR REPLACE INTO tiles VALUES (?, ?, ?, ?)", [z, x, row, data]);
+  }
+
+  setMetadata(meta: Record<string, string | number>) {
+    for (const [k, v] of Object.entries(meta)) {
+      this.db.run("INSERT INTO metadata VALUES (?, ?)", [k, String(v)]);
+    }
+  }
+
+  addFeatures(name: string, fc: unknown) {
+    this.db.run("INSERT OR REPLACE INTO features VALUES (?, ?)", [name, JSON.stringify(fc)]);
+  }
+
+  /** SQLite ファイルのバイト列（以後この writer は使えない） */
+  finish() {
+    const bytes = this.db.export();
+    this.db.close();
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,167 @@
+// functions/src/lib/mvt.ts
+/* =========================================================
+ * Mapbox Vector Tile（MVT v2）の最小エンコーダ
+ * 点とタイル内の矩形（集計グリッド）だけを扱う。
+ * 仕様: https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ * =======================================================*/
+import { BBox } from "./geo";
+
+export type TileCoord = { z: number; x: number; y: number };
+export type MvtValue = string | number | boolean;
+export type MvtProps = Record<string, MvtValue | null | undefined>;
+
+/** タイル座標（0..extent）の点 or 矩形 */
+export type MvtFeature =
+  | { type: "point"; x: number; y: number; props: MvtProps }
+  | { type: "rect"; x0: number; y0: number; x1: number; y1: number; props: MvtProps };
+
+export type MvtLayer = { name: string; extent?: number; features: MvtFeature[] };
+
+export const MVT_EXTENT = 4096;
+
+/* ---------------------- 座標変換（Web メルカトル） ---------------------- */
+const tile2lng = (x: number, z: number) => (x / Math.pow(2, z)) * 360 - 180;
+const tile2lat = (y: number, z: number) => {
+  const n = Math.PI - (2 * Math.PI * y) / Math.pow(2, z);
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+};
+
+/** タイルの経緯度範囲 */
+export function tileBBox({ z, x, y }: TileCoord): BBox {
+  return {
+    minLng: tile2lng(x, z),
+    maxLng: tile2lng(x + 1, z),
+    minLat: tile2lat(y + 1, z),
+    maxLat: tile2lat(y, z),
+  };
+}
+
+/** 経緯度 → タイル内座標（0..extent、範囲外もそのまま返す） */
+export function lngLatToTile(lng: number, lat: number, t: TileCoord, extent = MVT_EXTENT) {
+  const n = Math.pow(2, t.z);
+  const s = Math.sin((Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180);
+  const wx = ((lng + 180) / 360) * n;
+  const wy = (0.5 - Math.log((1 + s) / (1 - s)) / (4 * Math.PI)) * n;
+  return { x: Math.round((wx - t.x) * extent), y: Math.round((wy - t.y) * extent) };
+}
+
+/* ---------------------------- protobuf 書き込み ---------------------------- */
+class PbfWriter {
+  private bytes: number[] = [];
+
+  varint(v: number) {
+    // 53bit までの非負整数
+    while (v > 0x7f) {
+      this.bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.bytes.push(v);
+  }
+  tag(field: number, wire: number) {
+    this.varint((field << 3) | wire);
+  }
+  uint(field: number, v: number) {
+    this.tag(field, 0);
+    this.varint(v);
+  }
+  double(field: number, v: number) {
+    this.tag(field, 1);
+    const b = Buffer.alloc(8);
+    b.writeDoubleLE(v);
+    this.bytes.push(...b);
+  }
+  string(field: number, s: string) {
+    this.raw(field, Buffer.from(s, "utf8"));
+  }
+  message(field: number, w: PbfWriter) {
+    this.raw(field, w.bytes);
+  }
+  packed(field: number, values: number[]) {
+    const w = new PbfWriter();
+    for (const v of values) w.varint(v);
+    this.message(field, w);
+  }
+  private raw(field: number, b: ArrayLike<number>) {
+    this.tag(field, 2);
+    this.varint(b.length);
+    for (let i = 0; i < b.length; i++) this.bytes.push(b[i]);
+  }
+  finish() {
+    return Buffer.from(this.bytes);
+  }
+}
+
+const zigzag = (n: number) => (n < 0 ? -2 * n - 1 : 2 * n);
+const command = (id: number, count: number) => (id & 0x7) | (count << 3);
+
+// 形状 → geometry コマンド列
+function encodeGeometry(f: MvtFeature): { type: number; geometry: number[] } {
+  if (f.type === "point") {
+    return { type: 1, geometry: [command(1, 1), zigzag(f.x), zigzag(f.y)] };
+  }
+  // 外周は（y 下向きの）時計回り：左上 → 右上 → 右下 → 左下
+  const w = f.x1 - f.x0;
+  const h = f.y1 - f.y0;
+  return {
+    type: 3,
+    geometry: [
+      command(1, 1), zigzag(f.x0), zigzag(f.y0),
+      command(2, 3), zigzag(w), zigzag(0), zigzag(0), zigzag(h), zigzag(-w), zigzag(0),
+      command(7, 1),
+    ],
+  };
+}
+
+// Value メッセージ（数値は整数なら int/sint、それ以外は double）
+function encodeValue(v: MvtValue) {
+  const w = new PbfWriter();
+  if (typeof v === "string") w.string(1, v);
+  else if (typeof v === "boolean") w.uint(7, v ? 1 : 0);
+  else if (Number.isSafeInteger(v)) {
+    if (v >= 0) w.uint(5, v);
+    else w.uint(6, zigzag(v));
+  } else w.double(3, v);
+  return w;
+}
+
+function encodeLayer(layer: MvtLayer) {
+  const w = new PbfWriter();
+  w.uint(15, 2); // version
+  w.string(1, layer.name);
+
+  const keys = new Map<string, number>();
+  const values = new Map<string, number>();
+  const valueList: MvtValue[] = [];
+
+  for (const f of layer.features) {
+    const tags: number[] = [];
+    for (const [k, v] of Object.entries(f.props)) {
+      if (v == null || (typeof v === "number" && !Number.isFinite(v))) continue;
+      if (!keys.has(k)) keys.set(k, keys.size);
+      const vk = `${typeof v}:${v}`;
+      if (!values.has(vk)) {
+        values.set(vk, valueList.length);
+        valueList.push(v);
+      }
+      tags.push(keys.get(k)!, values.get(vk)!);
+    }
+    const { type, geometry } = encodeGeometry(f);
+    const fw = new PbfWriter();
+    if (tags.length) fw.packed(2, tags);
+    fw.uint(3, type);
+    fw.packed(4, geometry);
+    w.message(2, fw);
+  }
+
+  for (const k of keys.keys()) w.string(3, k);
+  for (const v of valueList) w.message(4, encodeValue(v));
+  w.uint(5, layer.extent ?? MVT_EXTENT);
+  return w;
+}
+
+/** レイヤ群 → MVT バイナリ */
+export function encodeTile(layers: MvtLayer[]) {
+  const w = new PbfWriter();
+  for (const l of layers) w.message(3, encodeLayer(l));
+  return w.finish();
+}
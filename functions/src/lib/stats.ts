@@ -0,0 +1,45 @@
+// functions/src/lib/stats.ts
+/* =========================================================
+ * 数値列の要約（平均・分位点）
+ * =======================================================*/
+
+export type Summary = {
+  n: number;
+  mean: number | null;
+  min: number | null;
+  p10: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+  max: number | null;
+};
+
+/** 分位点（線形補間）。xs は昇順ソート済みであること */
+export function quantile(xs: number[], q: number): number | null {
+  if (!xs.length) return null;
+  const pos = (xs.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return xs[lo] + (xs[hi] - xs[lo]) * (pos - lo);
+}
+
+export function summarize(values: number[]): Summary {
+  const xs = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  const n = xs.length;
+  return {
+    n,
+    mean: n ? xs.reduce((a, b) => a + b, 0) / n : null,
+    min: n ? xs[0] : null,
+    p10: quantile(xs, 0.1),
+    p25: quantile(xs, 0.25),
+    p50: quantile(xs, 0.5),
+    p75: quantile(xs, 0.75),
+    p90: quantile(xs, 0.9),
+    max: n ? xs[n - 1] : null,
+  };
+}
+
+/** 小数点以下 digits 桁に丸める（null はそのまま） */
+export const round = (v: number | null, digits = 2) =>
+  v == null ? null : Math.round(v * Math.pow(10, digits)) / Math.pow(10, digits);
@@ -0,0 +1,101 @@
+// functions/src/lib/tileCache.ts
+/* =========================================================
+ * タイルプロキシ：上流（HTTP / Cloud Storage）取得とインスタンス内キャッシュ
+ * =======================================================*/
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+
+export type Tile = { body: Buffer; contentType: string; etag: string };
+
+/** 上流にタイルがない（404 で返す） */
+export class TileNotFoundError extends Error {
+  constructor() {
+    super("tile not found");
+  }
+}
+
+const UPSTREAM_TIMEOUT_MS = 10_000;
+
+/** URL テンプレート（{z}/{x}/{y}。WMTS の {TileMatrix}/{TileCol}/{TileRow} も可）を展開 */
+export const expandTemplate = (tpl: string, z: number, x: number, y: number) =>
+  tpl
+    .replace(/\{(z|TileMatrix)\}/g, String(z))
+    .replace(/\{(x|TileCol)\}/g, String(x))
+    .replace(/\{(y|TileRow)\}/g, String(y));
+
+const strongEtag = (body: Buffer) =>
+  `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+/**
+ * 上流からタイルを取得する。
+ * gs://bucket/path は Cloud Storage（Admin SDK）、それ以外は HTTP(S)（3xx は上流の失敗として扱う）。
+ */
+export async function fetchUpstreamTile(url: string): Promise<Tile> {
+  if (url.startsWith("gs://")) {
+    const [, bucket, path] = url.match(/^gs:\/\/([^/]+)\/(.+)$/) ?? [];
+    if (!bucket || !path) throw new Error(`invalid storage url: ${url}`);
+    const file = admin.storage().bucket(bucket).file(path);
+    try {
+      const [[body], [meta]] = await Promise.all([file.download(), file.getMetadata()]);
+      return {
+        body,
+        contentType: meta.contentType ?? "application/octet-stream",
+        etag: meta.md5Hash ? `"${meta.md5Hash}"` : strongEtag(body),
+      };
+    } catch (e: any) {
+      if (e?.code === 404) throw new TileNotFoundError();
+      throw e;
+    }
+  }
+
+  // リダイレクトは追わない（登録時に検査した URL から社内アドレス・メタデータサーバへ飛ばされないよう）
+  const r = await fetch(url, { redirect: "manual", signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+  if (r.status === 404 || r.status === 204) throw new TileNotFoundError();
+  if (r.status >= 300 && r.status < 400) throw new Error(`upstream redirect ${r.status}`);
+  if (!r.ok) throw new Error(`upstream ${r.status}`);
+  const body = Buffer.from(await r.arrayBuffer());
+  return {
+    body,
+    contentType: r.headers.get("content-type") ?? "application/octet-stream",
+    etag: strongEtag(body),
+  };
+}
+
+/**
+ * バイト数上限つき LRU（Map の挿入順を利用）。
+ * インスタンスごとのキャッシュなので、共有キャッシュはブラウザ側の ETag 再検証に任せる。
+ */
+export class TileLru {
+  private map = new Map<string, { tile: Tile; at: number }>();
+  private bytes = 0;
+
+  constructor(private maxBytes: number, private ttlMs: number) {}
+
+  get(key: string) {
+    const hit = this.map.get(key);
+    if (!hit) return null;
+    this.map.delete(key);
+    if (Date.now() - hit.at > this.ttlMs) {
+      this.bytes -= hit.tile.body.length;
+      return null;
+    }
+    this.map.set(key, hit);
+    return hit.tile;
+  }
+
+  set(key: string, tile: Tile) {
+    const old = this.map.get(key);
+    if (old) {
+      this.bytes -= old.tile.body.length;
+      this.map.delete(key);
+    }
+    if (tile.body.length > this.maxBytes) return;
+    this.map.set(key, { tile, at: Date.now() });
+    this.bytes += tile.body.length;
+    for (const [k, v] of this.map) {
+      if (this.bytes <= this.maxBytes) break;
+      this.map.delete(k);
+      this.bytes -= v.tile.body.length;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+// functions/src/lib/trackExport.ts
+/* =========================================================
+ * 軌跡（tracks）の書き出し：GPX 1.1 / KML 2.2 / GeoJSON
+ * GPX の <time> は頂点ごとの記録時刻（times）。無い場合は start〜end を距離で按分する。
+ * =======================================================*/
+
+export type TrackRecord = {
+  id: string;
+  report_id: string;
+  geom: { type: "LineString"; coordinates: [number, number][] };
+  start: string;
+  end: string;
+  length_m: number;
+  times?: string[];
+};
+
+export type TrackFormat = "gpx" | "kml" | "geojson";
+
+export const TRACK_CONTENT_TYPES: Record<TrackFormat, string> = {
+  gpx: "application/gpx+xml",
+  kml: "application/vnd.google-earth.kml+xml",
+  geojson: "application/geo+json",
+};
+
+const xml = (s: string) =>
+  s.replace(/[<>&'"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[c]!);
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+// 2 点間の距離（m、球面近似）
+function haversineM([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]) {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(a));
+}
+
+/** 頂点ごとの時刻（ISO）。times が無ければ start〜end を累積距離で按分 */
+export function trackTimes(t: TrackRecord): string[] {
+  const pts = t.geom.coordinates;
+  if (t.times?.length === pts.length) return t.times.map((s) => iso(Date.parse(s)));
+
+  const t0 = Date.parse(t.start);
+  const t1 = Date.parse(t.end);
+  const cum = [0];
+  for (let i = 1; i < pts.length; i++) cum.push(cum[i - 1] + haversineM(pts[i - 1], pts[i]));
+  const total = cum[cum.length - 1];
+  return cum.map((d, i) => {
+    const r = total > 0 ? d / total : pts.length > 1 ? i / (pts.length - 1) : 0;
+    return iso(t0 + (t1 - t0) * r);
+  });
+}
+
+export function toGpx(tracks: TrackRecord[], name = "tracks") {
+  const trks = tracks.map((t) => {
+    const times = trackTimes(t);
+    const pts = t.geom.coordinates
+      .map(([lng, lat], i) => `      <trkpt lat="${lat}" lon="${lng}"><time>${times[i]}</time></trkpt>`)
+      .join("\n");
+    return [
+      "  <trk>",
+      `    <name>${xml(t.report_id)}</name>`,
+      `    <desc>${xml(`${t.start} – ${t.end} / ${Math.round(t.length_m)} m`)}</desc>`,
+      "    <trkseg>",
+      pts,
+      "    </trkseg>",
+      "  </trk>",
+    ].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="RINTO" xmlns="http://www.topografix.com/GPX/1/1"' +
+      ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+      ' xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    `  <metadata><name>${xml(name)}</name><time>${iso(Date.now())}</time></metadata>`,
+    ...trks,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+export function toKml(tracks: TrackRecord[], name = "tracks") {
+  const marks = tracks.map((t) => {
+    const coords = t.geom.coordinates.map(([lng, lat]) => `${lng},${lat},0`).join(" ");
+    return [
+      "    <Placemark>",
+      `      <name>${xml(t.report_id)}</name>`,
+      `      <description>${xml(`${Math.round(t.length_m)} m`)}</description>`,
+      `      <TimeSpan><begin>${iso(Date.parse(t.start))}</begin><end>${iso(Date.parse(t.end))}</end></TimeSpan>`,
+      "      <styleUrl>#track</styleUrl>",
+      `      <LineString><tessellate>1</tessellate><coordinates>${coords}</coordinates></LineString>`,
+      "    </Placemark>",
+    ].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${xml(name)}</name>`,
+    '    <Style id="track"><LineStyle><color>ff0000ff</color><width>3</width></LineStyle></Style>',
+    ...marks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+export function toGeoJSON(tracks: TrackRecord[]) {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: tracks.map((t) => ({
+      type: "Feature",
+      id: t.id,
+      geometry: t.geom,
+      properties: {
+        report_id: t.report_id,
+        start: t.start,
+        end: t.end,
+        length_m: t.length_m,
+        times: trackTimes(t),
+      },
+    })),
+  });
+}
+
+export function exportTracks(tracks: TrackRecord[], format: TrackFormat, name?: string) {
+  if (format === "gpx") return toGpx(tracks, name);
+  if (format === "kml") return toKml(tracks, name);
+  return toGeoJSON(tracks);
+}
@@ -0,0 +1,260 @@
+// functions/src/lib/treeCells.ts
+/* =========================================================
+ * 樹木の格子集計（低ズームの樹木タイル用）
+ * tree_cells/{org_id}_{cell} に geohash セルごとの本数・樹高・材積（樹種別）を持つ。
+ * セルの桁数は CELL_MIN_PRECISION〜CELL_MAX_PRECISION で、タイルの幅に合わせて選ぶ。
+ *
+ * 樹木の変更は treesGeoIndex が再集計単位（REBUILD_PRECISION 桁）のセルを
+ * tree_cells_dirty に記録し、定期ジョブ（treeCellsRebuild）がまとめて作り直す。
+ * 1 本ごとに加算しないのは、一括取り込みで同じセル文書（特に粗い桁）への書き込みが
+ * 集中し、競合で取りこぼすため。
+ * =======================================================*/
+import * as admin from "firebase-admin";
+import { BBox, bboxIntersects, geohashBounds, geohashCover, geohashUpper } from "./geo";
+
+export const CELL_MIN_PRECISION = 1;
+export const CELL_MAX_PRECISION = 7;
+/** 再集計の単位（約 1.2km × 0.6km。1 回の作り直しで読むのはこのセル内の樹木） */
+export const REBUILD_PRECISION = 6;
+/** タイル 1 辺あたりのセル数の上限（タイル 1 枚で読む文書数はおよそこの 2 乗） */
+const CELLS_PER_TILE = 16;
+
+export const CELLS_COLLECTION = "tree_cells";
+export const DIRTY_COLLECTION = "tree_cells_dirty";
+
+/** 本数・樹高の合計と件数・材積の合計 */
+export type CellAgg = { n: number; h: number; hn: number; v: number };
+
+export type TreeCell = {
+  org_id: string;
+  precision: number;
+  cell: string;
+  by_species: Record<string, CellAgg>;
+} & CellAgg;
+
+/** 樹種が空の樹木の集計キー（Firestore のマップは空文字のキーを持てない） */
+const NO_SPECIES = "_";
+
+const emptyAgg = (): CellAgg => ({ n: 0, h: 0, hn: 0, v: 0 });
+
+function addAgg(a: CellAgg, b: CellAgg) {
+  a.n += b.n;
+  a.h += b.h;
+  a.hn += b.hn;
+  a.v += b.v;
+}
+
+/** 樹木 1 本の寄与 */
+function treeAgg(x: any): CellAgg {
+  const h = Number(x.height_m);
+  const v = Number(x.volume_m3);
+  return {
+    n: 1,
+    h: Number.isFinite(h) ? h : 0,
+    hn: Number.isFinite(h) ? 1 : 0,
+    v: Number.isFinite(v) ? v : 0,
+  };
+}
+
+const db = () => admin.firestore();
+const cellRef = (orgId: string, cell: string) => db().collection(CELLS_COLLECTION).doc(`${orgId}_${cell}`);
+const dirtyRef = (orgId: string, cell: string) => db().collection(DIRTY_COLLECTION).doc(`${orgId}_${cell}`);
+
+/**
+ * タイルのズームで読むセルの桁数。タイル幅 / セル幅（経度方向）が CELLS_PER_TILE 以下の最も細かい桁。
+ * geohash の経度ビット数は ceil(5p / 2)。
+ */
+export function tileCellPrecision(z: number) {
+  const maxLngBits = z + Math.log2(CELLS_PER_TILE);
+  let p = CELL_MIN_PRECISION;
+  while (p < CELL_MAX_PRECISION && Math.ceil((5 * (p + 1)) / 2) <= maxLngBits) p++;
+  return p;
+}
+
+/* ---------------------------- 変更の記録 ---------------------------- */
+
+/**
+ * 樹木の集計に効く値（組織・再集計セル・樹種・樹高・材積）。geohash の無い樹木は集計しない。
+ * 書き込みの前後で同じなら再集計は要らない（geohash を付け直しただけの書き込みなど）。
+ */
+export function cellSignature(x: any): string | null {
+  if (!x || typeof x.org_id !== "string" || typeof x.geohash !== "string") return null;
+  if (x.geohash.length < REBUILD_PRECISION) return null;
+  return JSON.stringify([x.org_id, x.geohash.slice(0, REBUILD_PRECISION), x.species ?? null, x.height_m ?? null, x.volume_m3 ?? null]);
+}
+
+/** 再集計が必要なセルを記録する（既に記録済みなら書かない） */
+export async function markCellsDirty(trees: any[]) {
+  const keys = new Map<string, { org_id: string; cell: string }>();
+  for (const x of trees) {
+    if (!cellSignature(x)) continue;
+    const cell = x.geohash.slice(0, REBUILD_PRECISION);
+    keys.set(`${x.org_id}_${cell}`, { org_id: x.org_id, cell });
+  }
+  for (const { org_id, cell } of keys.values()) {
+    const ref = dirtyRef(org_id, cell);
+    if ((await ref.get()).exists) continue;
+    await ref.set({ org_id, cell, marked_at: admin.firestore.FieldValue.serverTimestamp() });
+  }
+  return keys.size;
+}
+
+/* ---------------------------- 再集計 ---------------------------- */
+
+// セル内の組織の樹木を読み、REBUILD_PRECISION 桁と CELL_MAX_PRECISION 桁の集計を作る
+async function aggregateTrees(orgId: string, cell: string) {
+  const out = new Map<string, TreeCell>();
+  const add = (c: string, x: any) => {
+    const cur = out.get(c) ?? { org_id: orgId, precision: c.length, cell: c, by_species: {}, ...emptyAgg() };
+    const a = treeAgg(x);
+    const sp = String(x.species ?? "") || NO_SPECIES;
+    addAgg(cur, a);
+    addAgg((cur.by_species[sp] ??= emptyAgg()), a);
+    out.set(c, cur);
+  };
+
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    // 複合インデックス org_id + geohash（空間検索と同じ）
+    let q = db()
+      .collection("trees")
+      .where("org_id", "==", orgId)
+      .where("geohash", ">=", cell)
+      .where("geohash", "<", geohashUpper(cell))
+      .orderBy("geohash")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .select("geohash", "species", "height_m", "volume_m3");
+    if (last) q = q.startAfter(last);
+    const snap = await q.limit(5000).get();
+    for (const d of snap.docs) {
+      const x = d.data();
+      add(cell, x);
+      add(String(x.geohash).slice(0, CELL_MAX_PRECISION), x);
+    }
+    if (snap.size < 5000) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+  return out;
+}
+
+// cell の下の precision 桁の集計文書
+async function childCells(orgId: string, cell: string, precision: number) {
+  // 複合インデックス org_id + precision + cell
+  const snap = await db()
+    .collection(CELLS_COLLECTION)
+    .where("org_id", "==", orgId)
+    .where("precision", "==", precision)
+    .where("cell", ">=", cell)
+    .where("cell", "<", geohashUpper(cell))
+    .get();
+  return snap.docs.map((d) => d.data() as TreeCell);
+}
+
+// 集計を書き込む（0 本なら文書を消す）
+async function writeCells(orgId: string, cells: string[], aggs: Map<string, TreeCell>) {
+  let batch = db().batch();
+  let n = 0;
+  for (const c of cells) {
+    const a = aggs.get(c);
+    if (a?.n) batch.set(cellRef(orgId, c), { ...a, updated_at: admin.firestore.FieldValue.serverTimestamp() });
+    else batch.delete(cellRef(orgId, c));
+    if (++n === 400) {
+      await batch.commit();
+      batch = db().batch();
+      n = 0;
+    }
+  }
+  if (n) await batch.commit();
+}
+
+/**
+ * 組織の再集計セル（REBUILD_PRECISION 桁）を作り直し、上位の桁へ順に積み上げる。
+ * 上位のセルは子セルの文書を合計する（子は最大 32 件）。
+ */
+export async function rebuildCells(orgId: string, cells: string[]) {
+  let changed = new Set<string>();
+  for (const cell of new Set(cells)) {
+    const aggs = await aggregateTrees(orgId, cell);
+    // 細かい桁は作り直した結果に無いものを消す
+    const stale = (await childCells(orgId, cell, CELL_MAX_PRECISION)).map((c) => c.cell);
+    const fine = [...aggs.keys()].filter((c) => c.length === CELL_MAX_PRECISION);
+    await writeCells(orgId, [cell, ...new Set([...stale, ...fine])], aggs);
+    changed.add(cell);
+  }
+
+  for (let p = REBUILD_PRECISION - 1; p >= CELL_MIN_PRECISION; p--) {
+    const parents = new Set([...changed].map((c) => c.slice(0, p)));
+    const aggs = new Map<string, TreeCell>();
+    for (const parent of parents) {
+      const sum: TreeCell = { org_id: orgId, precision: p, cell: parent, by_species: {}, ...emptyAgg() };
+      for (const child of await childCells(orgId, parent, p + 1)) {
+        addAgg(sum, child);
+        for (const [sp, a] of Object.entries(child.by_species ?? {})) addAgg((sum.by_species[sp] ??= emptyAgg()), a);
+      }
+      aggs.set(parent, sum);
+    }
+    await writeCells(orgId, [...parents], aggs);
+    changed = parents;
+  }
+}
+
+/**
+ * 記録された再集計セルを組織ごとに作り直す（最大 limit 件）。
+ * 記録は作り直しの前に消す（作り直し中の変更は新しい記録として次回に回る）。
+ * 失敗した組織の記録は戻す。
+ */
+export async function rebuildDirtyCells(limit = 500) {
+  const snap = await db().collection(DIRTY_COLLECTION).limit(limit).get();
+  const byOrg = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+  for (const d of snap.docs) {
+    const org = d.get("org_id");
+    if (typeof org !== "string") continue;
+    byOrg.set(org, [...(byOrg.get(org) ?? []), d]);
+  }
+
+  let rebuilt = 0;
+  for (const [orgId, docs] of byOrg) {
+    await Promise.all(docs.map((d) => d.ref.delete()));
+    const cells = docs.map((d) => String(d.get("cell")));
+    try {
+      await rebuildCells(orgId, cells);
+      rebuilt += cells.length;
+    } catch (e) {
+      await Promise.all(docs.map((d) => d.ref.set(d.data())));
+      throw e;
+    }
+  }
+  return { rebuilt, more: snap.size === limit };
+}
+
+/* ---------------------------- 読み出し ---------------------------- */
+
+/** bbox に掛かる precision 桁の集計セル */
+export async function readCells(orgId: string, bbox: BBox, precision: number) {
+  // 被覆のプレフィックスが precision より細かければ切り詰める（重複は除く）
+  const prefixes = new Set(geohashCover(bbox).map((p) => p.slice(0, precision)));
+  const out: TreeCell[] = [];
+  for (const p of prefixes) {
+    // 複合インデックス org_id + precision + cell
+    const snap = await db()
+      .collection(CELLS_COLLECTION)
+      .where("org_id", "==", orgId)
+      .where("precision", "==", precision)
+      .where("cell", ">=", p)
+      .where("cell", "<", geohashUpper(p))
+      .get();
+    for (const d of snap.docs) {
+      const c = d.data() as TreeCell;
+      if (bboxIntersects(geohashBounds(c.cell), bbox)) out.push(c);
+    }
+  }
+  return out;
+}
+
+/** セルの集計を樹種で絞る（species 未指定なら全体） */
+export function cellAgg(c: TreeCell, species?: Set<string>): CellAgg {
+  if (!species?.size) return c;
+  const sum = emptyAgg();
+  for (const sp of species) if (c.by_species?.[sp]) addAgg(sum, c.by_species[sp]);
+  return sum;
+}
@@ -0,0 +1,120 @@
+// functions/src/lib/treeImport.ts
+/* =========================================================
+ * 単木インポート：CSV / GeoJSON → 標準キーの行オブジェクト
+ * （値の検証は schemas.ts の TreeImportRowSchema で行う：validateTreeRows）
+ * =======================================================*/
+import { TreeImportRow, TreeImportRowSchema } from "../schemas";
+import { csvToObjects } from "./csv";
+
+/** 標準キー（/trees/search が読むフィールド） */
+export const TREE_IMPORT_KEYS = [
+  "tree_id",
+  "species",
+  "height_m",
+  "dbh_cm",
+  "volume_m3",
+  "lat",
+  "lng",
+] as const;
+export type TreeImportKey = (typeof TREE_IMPORT_KEYS)[number];
+export type ColumnMapping = Partial<Record<TreeImportKey, string>>;
+
+/**
+ * 列名の既定エイリアス（大文字小文字は無視）。
+ * x / y は平面直角などの投影座標のことが多いため緯度経度とはみなさない（col_lat / col_lng で明示する）。
+ */
+const ALIASES: Record<TreeImportKey, string[]> = {
+  tree_id: ["tree_id", "id", "treeid", "樹木id", "立木番号"],
+  species: ["species", "樹種", "sp"],
+  height_m: ["height_m", "height", "樹高", "h"],
+  dbh_cm: ["dbh_cm", "dbh", "胸高直径", "直径"],
+  volume_m3: ["volume_m3", "volume", "材積", "vol"],
+  lat: ["lat", "latitude", "緯度"],
+  lng: ["lng", "lon", "long", "longitude", "経度"],
+};
+
+// 列名 → 標準キーの対応を決める（明示指定 > エイリアス）
+function resolveColumns(columns: string[], mapping: ColumnMapping) {
+  const lower = new Map(columns.map((c) => [c.toLowerCase(), c]));
+  const out: ColumnMapping = {};
+  for (const key of TREE_IMPORT_KEYS) {
+    const explicit = mapping[key];
+    if (explicit) {
+      if (!columns.includes(explicit)) throw new Error(`column not found: ${explicit}`);
+      out[key] = explicit;
+      continue;
+    }
+    const hit = ALIASES[key].map((a) => lower.get(a.toLowerCase())).find(Boolean);
+    if (hit) out[key] = hit;
+  }
+  return out;
+}
+
+// 空文字は「未指定」とみなす
+const blankToUndef = (v: unknown) =>
+  v === "" || v === null || (typeof v === "string" && v.trim() === "") ? undefined : v;
+
+function pick(src: Record<string, unknown>, cols: ColumnMapping) {
+  const row: Record<string, unknown> = {};
+  for (const key of TREE_IMPORT_KEYS) {
+    const col = cols[key];
+    if (col) {
+      const v = blankToUndef(src[col]);
+      if (v !== undefined) row[key] = v;
+    }
+  }
+  return row;
+}
+
+/** CSV テキスト → 標準キーの行 */
+export function rowsFromCsv(text: string, mapping: ColumnMapping = {}) {
+  const objs = csvToObjects(text);
+  if (!objs.length) return [];
+  const cols = resolveColumns(Object.keys(objs[0]), mapping);
+  if (!cols.lat || !cols.lng) {
+    throw new Error("lat/lng columns not found (x / y are not assumed to be degrees; use col_lat / col_lng)");
+  }
+  return objs.map((o) => pick(o, cols));
+}
+
+/** GeoJSON（FeatureCollection of Point）→ 標準キーの行。位置は geometry から取る */
+export function rowsFromGeoJSON(fc: any, mapping: ColumnMapping = {}) {
+  if (fc?.type !== "FeatureCollection" || !Array.isArray(fc.features)) {
+    throw new Error("GeoJSON FeatureCollection expected");
+  }
+  const columns = Array.from(
+    new Set(fc.features.flatMap((f: any) => Object.keys(f?.properties ?? {})))
+  ) as string[];
+  const cols = resolveColumns(columns, mapping);
+  delete cols.lat;
+  delete cols.lng;
+
+  return fc.features.map((f: any) => {
+    const row = pick(f?.properties ?? {}, cols);
+    if (f?.geometry?.type === "Point" && Array.isArray(f.geometry.coordinates)) {
+      [row.lng, row.lat] = f.geometry.coordinates;
+    }
+    if (row.tree_id === undefined && f?.id != null) row.tree_id = String(f.id);
+    return row;
+  });
+}
+
+/**
+ * 行ごとの検証。不正な行は行番号と理由を返す
+ * （行番号は CSV のヘッダを 1 行目とした番号 / GeoJSON は feature 添字）
+ */
+export function validateTreeRows(raw: Record<string, unknown>[], format: "csv" | "geojson") {
+  const valid: TreeImportRow[] = [];
+  const errors: Array<{ row: number; errors: string[] }> = [];
+  raw.forEach((r, i) => {
+    const parsed = TreeImportRowSchema.safeParse(r);
+    if (parsed.success) valid.push(parsed.data);
+    else {
+      errors.push({
+        row: format === "csv" ? i + 2 : i,
+        errors: parsed.error.issues.map((x) => `${x.path.join(".") || "row"}: ${x.message}`),
+      });
+    }
+  });
+  return { valid, errors };
+}
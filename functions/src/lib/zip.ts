@@ -0,0 +1,174 @@
+// functions/src/lib/zip.ts
+/* =========================================================
+ * ストリーミング ZIP ライタ（逐次書き出し。中央ディレクトリのみメモリに保持）
+ * 画像タイルは無圧縮（STORE）、テキストは DEFLATE。
+ * エントリ数が 65535 を超える場合は ZIP64 の終端レコードを付ける。
+ * 分割生成：先頭からのオフセットを指定して部分（ローカルエントリ列）を書き、
+ * 最後の部分で全エントリの中央ディレクトリを書けば、連結したものが 1 つの ZIP になる。
+ * =======================================================*/
+import { deflateRawSync } from "zlib";
+import { Writable } from "stream";
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+export function crc32(buf: Buffer) {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** ZIP64 のエントリ単位拡張は扱わないため、全体を 4GB 未満に制限する */
+const MAX_ZIP_BYTES = 0xffffffff;
+
+/** 中央ディレクトリ用のエントリ情報（JSON で保存できる形） */
+export type ZipEntry = {
+  name: string;
+  crc: number;
+  size: number;
+  csize: number;
+  method: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+// DOS 形式の日時
+function dosDateTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private list: ZipEntry[] = [];
+
+  /** offset: この出力の先頭が ZIP 全体の何バイト目か（分割生成用） */
+  constructor(private out: Writable, private offset = 0) {}
+
+  /** ZIP 全体の先頭からの書き込み位置 */
+  get bytes() {
+    return this.offset;
+  }
+
+  /** この出力で追加したエントリ */
+  get entries(): ZipEntry[] {
+    return this.list;
+  }
+
+  private write(buf: Buffer) {
+    this.offset += buf.length;
+    if (this.offset > MAX_ZIP_BYTES) throw new Error("zip too large (max 4GB)");
+    // 書き込み側の詰まりは drain を待つ
+    if (!this.out.write(buf)) return new Promise<void>((r) => this.out.once("drain", () => r()));
+    return Promise.resolve();
+  }
+
+  /** ファイルを 1 つ追加。compress=false なら無圧縮 */
+  async add(path: string, data: Buffer, compress = false) {
+    const name = Buffer.from(path, "utf8");
+    const body = compress ? deflateRawSync(data) : data;
+    const { time, date } = dosDateTime(new Date());
+    const e: ZipEntry = {
+      name: path,
+      crc: crc32(data),
+      size: data.length,
+      csize: body.length,
+      method: compress ? 8 : 0,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    const h = Buffer.alloc(30);
+    h.writeUInt32LE(0x04034b50, 0);
+    h.writeUInt16LE(20, 4); // version needed
+    h.writeUInt16LE(0x0800, 6); // UTF-8 ファイル名
+    h.writeUInt16LE(e.method, 8);
+    h.writeUInt16LE(time, 10);
+    h.writeUInt16LE(date, 12);
+    h.writeUInt32LE(e.crc, 14);
+    h.writeUInt32LE(e.csize, 18);
+    h.writeUInt32LE(e.size, 22);
+    h.writeUInt16LE(name.length, 26);
+    h.writeUInt16LE(0, 28);
+    await this.write(h);
+    await this.write(name);
+    await this.write(body);
+    this.list.push(e);
+  }
+
+  /** 中央ディレクトリを書かずに閉じる（分割生成の途中の部分） */
+  end() {
+    return new Promise<void>((resolve, reject) => {
+      this.out.once("error", reject);
+      this.out.end(() => resolve());
+    });
+  }
+
+  /**
+   * 中央ディレクトリと終端レコードを書いてストリームを閉じる。
+   * prior: 先行する部分で書いたエントリ（分割生成時）
+   */
+  async finish(prior: ZipEntry[] = []) {
+    const all = [...prior, ...this.list];
+    const cdStart = this.offset;
+    for (const e of all) {
+      const name = Buffer.from(e.name, "utf8");
+      const c = Buffer.alloc(46);
+      c.writeUInt32LE(0x02014b50, 0);
+      c.writeUInt16LE(45, 4); // version made by
+      c.writeUInt16LE(20, 6);
+      c.writeUInt16LE(0x0800, 8);
+      c.writeUInt16LE(e.method, 10);
+      c.writeUInt16LE(e.time, 12);
+      c.writeUInt16LE(e.date, 14);
+      c.writeUInt32LE(e.crc, 16);
+      c.writeUInt32LE(e.csize, 20);
+      c.writeUInt32LE(e.size, 24);
+      c.writeUInt16LE(name.length, 28);
+      c.writeUInt32LE(e.offset, 42);
+      await this.write(c);
+      await this.write(name);
+    }
+    const cdSize = this.offset - cdStart;
+    const count = all.length;
+
+    if (count > 0xffff) {
+      // ZIP64 終端レコード + ロケータ
+      const z = Buffer.alloc(56);
+      z.writeUInt32LE(0x06064b50, 0);
+      z.writeBigUInt64LE(44n, 4);
+      z.writeUInt16LE(45, 12);
+      z.writeUInt16LE(45, 14);
+      z.writeBigUInt64LE(BigInt(count), 24);
+      z.writeBigUInt64LE(BigInt(count), 32);
+      z.writeBigUInt64LE(BigInt(cdSize), 40);
+      z.writeBigUInt64LE(BigInt(cdStart), 48);
+      const z64Offset = this.offset;
+      await this.write(z);
+      const l = Buffer.alloc(20);
+      l.writeUInt32LE(0x07064b50, 0);
+      l.writeBigUInt64LE(BigInt(z64Offset), 8);
+      l.writeUInt32LE(1, 16);
+      await this.write(l);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(count, 0xffff), 8);
+    end.writeUInt16LE(Math.min(count, 0xffff), 10);
+    end.writeUInt32LE(cdSize, 12);
+    end.writeUInt32LE(cdStart, 16);
+    await this.write(end);
+    await this.end();
+  }
+}
@@ -0,0 +1,119 @@
+// functions/src/mw/audit.ts
+/* =========================================================
+ * 監査ログ（audit_logs。追記のみ・Functions だけが書く）
+ * auditTrail:  変更系リクエスト（POST / PUT / PATCH / DELETE）を認証済みならすべて記録する
+ *              （route, 対象文書, uid, org, 処理前後のスナップショット, IP, リクエスト ID）。
+ *              Cloud Functions は応答後の処理が止まり得るため、res.json の直前に書き込む。
+ * auditTarget: ルートごとに対象文書を宣言し、処理前のスナップショットを取っておく。
+ *              新規作成は応答 JSON の id（無ければ batch_id）を対象 ID とみなす。
+ * auditItems:  一括登録など 1 リクエストで複数の文書を扱うルートが、項目ごとの ID と結果を残す。
+ * =======================================================*/
+import * as admin from "firebase-admin";
+import { randomUUID } from "crypto";
+
+if (!admin.apps.length) admin.initializeApp();
+const db = admin.firestore();
+
+export const AUDIT_COLLECTION = "audit_logs";
+
+const MUTATING = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+/** スナップショット 1 件の上限（超えたらキーの一覧だけ残す。文書 1MB 制限の手前） */
+const SNAPSHOT_MAX_BYTES = 100_000;
+
+type AuditTarget = {
+  collection: string;
+  id?: string;
+  before: FirebaseFirestore.DocumentData | null;
+  items?: AuditItem[];
+};
+
+type AuditItem = { id: string; status: string };
+
+function snapshotValue(d: FirebaseFirestore.DocumentData | undefined) {
+  if (!d) return null;
+  const bytes = Buffer.byteLength(JSON.stringify(d));
+  if (bytes <= SNAPSHOT_MAX_BYTES) return d;
+  return { _truncated: true, _bytes: bytes, keys: Object.keys(d) };
+}
+
+async function writeAuditLog(req: any, res: any, body: any) {
+  const who = req.user ?? req.token;
+  if (!who) return; // 未認証（401 など）は記録しない
+
+  const target: AuditTarget | undefined = res.locals.audit;
+  const docId: string | undefined = target?.id ?? body?.id ?? body?.batch_id;
+  let after = null;
+  if (target && docId && res.statusCode < 400) {
+    after = snapshotValue((await db.collection(target.collection).doc(docId).get()).data());
+  }
+
+  await db.collection(AUDIT_COLLECTION).add({
+    at: admin.firestore.FieldValue.serverTimestamp(),
+    org_id: who.org_id ?? null,
+    uid: who.uid,
+    email: who.email ?? null,
+    role: req.user?.role ?? null,
+    method: req.method,
+    route: req.route?.path ?? null,
+    path: String(req.originalUrl ?? "").split("?")[0],
+    status: res.statusCode,
+    collection: target?.collection ?? null,
+    doc_id: docId ?? null,
+    before: target?.before ?? null,
+    after,
+    items: target?.items ?? null,
+    ip: req.ip ?? null,
+    user_agent: req.get("user-agent") ?? null,
+    request_id: res.locals.requestId,
+  });
+}
+
+/** app 全体に置く。変更系リクエストに X-Request-Id を振り、応答直前に監査ログを書く */
+export function auditTrail(req: any, res: any, next: any) {
+  if (!MUTATING.has(req.method)) return next();
+
+  const requestId = String(req.get("x-request-id") || randomUUID()).slice(0, 128);
+  res.locals.requestId = requestId;
+  res.set("X-Request-Id", requestId);
+
+  const json = res.json.bind(res);
+  let written = false;
+  res.json = (body: any) => {
+    if (written || res.locals.noAudit) return json(body);
+    written = true;
+    writeAuditLog(req, res, body)
+      .catch((e) => console.error("audit log failed", requestId, e))
+      .finally(() => json(body));
+    return res;
+  };
+  next();
+}
+
+/**
+ * 対象文書の宣言（requireAuth・権限チェックの後、ハンドラの直前に置く）。
+ * collection は組織ごとのサブコレクションのためリクエストから組み立ててもよい。
+ */
+export const auditTarget =
+  (collection: string | ((req: any) => string), idParam = "id") =>
+  async (req: any, res: any, next: any) => {
+    try {
+      const col = typeof collection === "function" ? collection(req) : collection;
+      const id: string | undefined = req.params?.[idParam];
+      const before = id ? snapshotValue((await db.collection(col).doc(id).get()).data()) : null;
+      res.locals.audit = { collection: col, id, before } satisfies AuditTarget;
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+
+/** 一括処理の項目ごとの ID と結果（auditTarget の後、res.json の前に呼ぶ） */
+export function auditItems(res: any, items: AuditItem[]) {
+  if (res.locals.audit) res.locals.audit.items = items;
+}
+
+/** 変更を伴わない POST（集計など）は記録しない */
+export function noAudit(_req: any, res: any, next: any) {
+  res.locals.noAudit = true;
+  next();
+}
@@ -1,22 +1,121 @@
 import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
 
 if (!admin.apps.length) admin.initializeApp();
 
-export async function requireAuth(req: any, res: any, next: any) {
+/** 組織内のロール（権限の対応は mw/permissions.ts） */
+export type Role = 'admin' | 'manager' | 'staff' | 'viewer';
+export const ROLES: readonly Role[] = ['admin', 'manager', 'staff', 'viewer'];
+
+/**
+ * カスタムクレーム：
+ *   orgs   所属組織とロール（{ [org_id]: role }）
+ *   org_id 選択中の組織（POST /me/active-org で切り替え）
+ *   role   選択中の組織でのロール（firestore.rules / storage.rules 用の控え）
+ * orgs が無い旧形式のトークンは org_id / role の 1 組織のみとみなす。
+ */
+export type OrgRoles = Record<string, Role>;
+
+export const isRole = (v: unknown): v is Role => ROLES.includes(v as Role);
+
+/** requireAuth が req.user に載せる内容 */
+export type AuthUser = {
+  uid: string;
+  email?: string;
+  org_id: string;
+  role: Role;
+};
+
+/**
+ * 失効・利用停止の確認（Auth への問い合わせ）はトークンごとに REVOCATION_TTL_MS に 1 回。
+ * タイルなど 1 画面で大量に来るリクエストのたびに問い合わせないため。
+ * 確認済みの間も署名・有効期限はリクエストごとに検証する（公開鍵はキャッシュされる）。
+ * メンバーの利用停止・ロール変更が効くまでの遅れは最大この時間。
+ */
+const REVOCATION_TTL_MS = 60_000;
+const REVOCATION_CACHE_MAX = 10_000;
+const revocationChecked = new Map<string, number>(); // トークンのハッシュ → 確認した時刻
+
+async function verifyToken(token: string) {
+  const key = createHash('sha256').update(token).digest('base64url');
+  const at = revocationChecked.get(key);
+  if (at && Date.now() - at < REVOCATION_TTL_MS) return admin.auth().verifyIdToken(token);
+
+  const decoded = await admin.auth().verifyIdToken(token, true);
+  if (revocationChecked.size >= REVOCATION_CACHE_MAX) {
+    for (const [k, t] of revocationChecked) {
+      if (Date.now() - t >= REVOCATION_TTL_MS) revocationChecked.delete(k);
+    }
+    if (revocationChecked.size >= REVOCATION_CACHE_MAX) revocationChecked.clear();
+  }
+  revocationChecked.set(key, Date.now());
+  return decoded;
+}
+
+/**
+ * Bearer トークンを検証する（失敗時は 401 を返して null）。
+ * 失効（revokeRefreshTokens）・利用停止（disabled）も確認する（verifyToken）。
+ */
+async function verifyBearer(req: any, res: any) {
   try {
     const h = req.headers.authorization ?? '';
     const token = h.startsWith('Bearer ') ? h.slice(7) : '';
-    if (!token) return res.status(401).json({ error: 'Missing token' });
-
-    const decoded = await admin.auth().verifyIdToken(token);
-    req.user = {
-      uid: decoded.uid,
-      email: decoded.email,
-      org_id: (decoded as any).org_id ?? null,
-      role:  (decoded as any).role   ?? 'user',
-    };
-    next();
+    if (!token) {
+      res.status(401).json({ error: 'Missing token' });
+      return null;
+    }
+    return await verifyToken(token);
   } catch {
     res.status(401).json({ error: 'Invalid token' });
+    return null;
   }
 }
+
+/**
+ * Bearer トークンを検証して req.user を付与する。
+ * org_id クレームが無い・orgs に含まれないトークンは 403（組織に属さない利用は不可）。
+ * ロールは orgs[org_id]（旧形式は role）。無い・未知の値なら最小権限の viewer として扱う。
+ */
+export async function requireAuth(req: any, res: any, next: any) {
+  const decoded = await verifyBearer(req, res);
+  if (!decoded) return;
+
+  const orgId = (decoded as any).org_id;
+  if (typeof orgId !== 'string' || !orgId) {
+    return res.status(403).json({ error: 'org_id claim required' });
+  }
+  const orgs = (decoded as any).orgs as OrgRoles | undefined;
+  if (orgs && !(orgId in orgs)) {
+    return res.status(403).json({ error: 'not a member of the active organization' });
+  }
+  const role = orgs ? orgs[orgId] : (decoded as any).role;
+  req.user = {
+    uid: decoded.uid,
+    email: decoded.email,
+    org_id: orgId,
+    role: isRole(role) ? role : 'viewer',
+  } satisfies AuthUser;
+  next();
+}
+
+/**
+ * トークンの検証のみ（org_id クレーム不要）。招待の引き換えなど、組織に入る前の操作用。
+ * 検証済みトークンを req.token に載せる。
+ */
+export async function requireToken(req: any, res: any, next: any) {
+  const decoded = await verifyBearer(req, res);
+  if (!decoded) return;
+  req.token = decoded;
+  next();
+}
+
+/** 指定ロールのいずれかでなければ 403（requireAuth の後に置く） */
+export const requireRole =
+  (...roles: Role[]) =>
+  (req: any, res: any, next: any) => {
+    const role = req.user?.role as Role | undefined;
+    if (!role || !roles.includes(role)) {
+      return res.status(403).json({ error: `forbidden (requires ${roles.join(' / ')})` });
+    }
+    next();
+  };
@@ -0,0 +1,42 @@
+// functions/src/mw/permissions.ts
+/* =========================================================
+ * 権限表（ロール × 操作）。API の requirePermission と firestore.rules はこの表に合わせる。
+ *
+ *                     admin  manager  staff  viewer
+ *   plans:read          ○      ○       ○      ○
+ *   plans:write         ○      ○       -      -     作成・修正・削除
+ *   reports:read        ○      ○       ○      ○
+ *   reports:write       ○      ○       ○      -     作成、自分の日報の修正・論理削除
+ *   reports:manage      ○      ○       -      -     他人の日報の修正・論理削除
+ *   tracks:read         ○      ○       ○      ○
+ *   tracks:write        ○      ○       ○      -
+ *   offline:bundle      ○      ○       ○      -     オフラインバンドルの作成・参照
+ *   trees:import        ○      -       -      -     樹木インポート・CHM 検出・ロールバック
+ *   members:manage      ○      -       -      -     メンバー招待・ロール変更・利用停止
+ *   audit:read          ○      -       -      -     監査ログの参照
+ *   layers:manage       ○      -       -      -     レイヤ登録簿の編集
+ * =======================================================*/
+import { Role, requireRole } from "./auth";
+
+export const PERMISSIONS = {
+  "plans:read": ["admin", "manager", "staff", "viewer"],
+  "plans:write": ["admin", "manager"],
+  "reports:read": ["admin", "manager", "staff", "viewer"],
+  "reports:write": ["admin", "manager", "staff"],
+  "reports:manage": ["admin", "manager"],
+  "tracks:read": ["admin", "manager", "staff", "viewer"],
+  "tracks:write": ["admin", "manager", "staff"],
+  "offline:bundle": ["admin", "manager", "staff"],
+  "trees:import": ["admin"],
+  "members:manage": ["admin"],
+  "audit:read": ["admin"],
+  "layers:manage": ["admin"],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (role: Role | undefined, p: Permission) =>
+  !!role && (PERMISSIONS[p] as readonly Role[]).includes(role);
+
+/** 権限表に基づく requireRole */
+export const requirePermission = (p: Permission) => requireRole(...PERMISSIONS[p]);
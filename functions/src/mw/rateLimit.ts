@@ -0,0 +1,225 @@
+// functions/src/mw/rateLimit.ts
+/* =========================================================
+ * レート制限（認証前の IP 単位 + 認証済みの uid / org_id 単位・ルート種別ごとの予算）
+ * Cloud Functions はインスタンスごとにメモリが分かれるため、カウンタは共有ストアに置く。
+ *   本番:       Firestore（rate_limits/{hash}_{窓の開始時刻}。expires_at に TTL ポリシーを設定）
+ *   エミュレータ: メモリ（FUNCTIONS_EMULATOR=true のとき既定。setRateLimitBackend で差し替え可）
+ * 1 つのネットワーク（モバイルルーター等）を共有する班でも、人ごとに数える。
+ * 使い方: app 全体に ipRateLimit（認証より前）、各ルートで requireAuth（または requireToken）の
+ * 後に rateLimitFor("write") を置く。
+ * =======================================================*/
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import type { RequestHandler } from "express";
+import rateLimit, { ClientRateLimitInfo, Options, Store } from "express-rate-limit";
+
+if (!admin.apps.length) admin.initializeApp();
+
+/** 予算（窓ごとの上限）。user は 1 人、org は組織全体 */
+export const RATE_BUDGETS = {
+  read: { windowMs: 60_000, user: 300, org: 3_000 }, //       一覧・検索・集計
+  write: { windowMs: 60_000, user: 60, org: 600 }, //         登録・修正・削除
+  tiles: { windowMs: 60_000, user: 3_000, org: 30_000 }, //   地図タイル（パン・ズームで大量に出る）
+  export: { windowMs: 60_000, user: 10, org: 60 }, //         軌跡の書き出し
+  bulk: { windowMs: 60 * 60_000, user: 30, org: 120 }, //     一括登録・インポート・CHM 検出・事前DL
+} as const;
+
+export type RateBudget = keyof typeof RATE_BUDGETS;
+
+/**
+ * IP ごとの上限（認証の前で数える。不正なトークンの連打など未認証の負荷を止めるため）。
+ * 班で 1 つの回線を共有しても通常の利用では届かないよう、uid ごとの予算より大きく取る。
+ */
+export const IP_BUDGET = { windowMs: 60_000, limit: 10_000 } as const;
+
+/* ---------------------------- 共有カウンタ ---------------------------- */
+/** 固定窓のカウンタ。hit は加算後の件数と窓の終わり（ms）を返す */
+export interface RateLimitBackend {
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  decrement(key: string, windowMs: number): Promise<void>;
+  reset(key: string, windowMs: number): Promise<void>;
+}
+
+const windowOf = (windowMs: number, now = Date.now()) => Math.floor(now / windowMs) * windowMs;
+
+/** インスタンス内のみ（エミュレータ・テスト用） */
+export class MemoryRateLimitBackend implements RateLimitBackend {
+  private counters = new Map<string, { count: number; resetAt: number }>();
+
+  async hit(key: string, windowMs: number) {
+    const now = Date.now();
+    let c = this.counters.get(key);
+    if (!c || c.resetAt <= now) {
+      if (this.counters.size > 10_000) this.sweep(now);
+      c = { count: 0, resetAt: windowOf(windowMs, now) + windowMs };
+      this.counters.set(key, c);
+    }
+    c.count++;
+    return { ...c };
+  }
+
+  async decrement(key: string) {
+    const c = this.counters.get(key);
+    if (c && c.count > 0) c.count--;
+  }
+
+  async reset(key: string) {
+    this.counters.delete(key);
+  }
+
+  private sweep(now: number) {
+    for (const [k, c] of this.counters) if (c.resetAt <= now) this.counters.delete(k);
+  }
+}
+
+/**
+ * Firestore（全インスタンスで共有）。
+ * リクエストごとに書くと組織単位の文書が書き込み上限（毎秒 1 回程度）を超えるため、
+ * インスタンス内で加算しておき、SYNC_MS ごとに差分を FieldValue.increment で足して合計を読み直す。
+ * 判定は「前回読んだ全体の件数 + 未反映の自インスタンス分」（誤差は最大 SYNC_MS 分）。
+ */
+export class FirestoreRateLimitBackend implements RateLimitBackend {
+  private static SYNC_MS = 1_000;
+  private local = new Map<string, { window: number; pending: number; total: number; syncedAt: number }>();
+
+  constructor(private col = admin.firestore().collection("rate_limits")) {}
+
+  private ref(key: string, window: number) {
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+    return this.col.doc(`${hash}_${window}`);
+  }
+
+  private entry(key: string, windowMs: number) {
+    const window = windowOf(windowMs);
+    let e = this.local.get(key);
+    if (!e || e.window !== window) {
+      if (this.local.size > 10_000) {
+        for (const [k, v] of this.local) if (v.window !== window) this.local.delete(k);
+      }
+      e = { window, pending: 0, total: 0, syncedAt: 0 };
+      this.local.set(key, e);
+    }
+    return e;
+  }
+
+  async hit(key: string, windowMs: number) {
+    const e = this.entry(key, windowMs);
+    e.pending++;
+    if (Date.now() - e.syncedAt >= FirestoreRateLimitBackend.SYNC_MS) {
+      const delta = e.pending;
+      e.pending = 0;
+      e.syncedAt = Date.now();
+      const ref = this.ref(key, e.window);
+      try {
+        await ref.set(
+          {
+            key,
+            count: admin.firestore.FieldValue.increment(delta),
+            expires_at: admin.firestore.Timestamp.fromMillis(e.window + windowMs + 60_000),
+          },
+          { merge: true }
+        );
+        e.total = Number((await ref.get()).get("count") ?? delta);
+      } catch (err) {
+        e.pending += delta; // 次回の同期で足す
+        throw err;
+      }
+    }
+    return { count: e.total + e.pending, resetAt: e.window + windowMs };
+  }
+
+  async decrement(key: string, windowMs: number) {
+    this.entry(key, windowMs).pending--;
+  }
+
+  async reset(key: string, windowMs: number) {
+    const e = this.entry(key, windowMs);
+    this.local.delete(key);
+    await this.ref(key, e.window).delete();
+  }
+}
+
+let backend: RateLimitBackend =
+  process.env.FUNCTIONS_EMULATOR === "true" ? new MemoryRateLimitBackend() : new FirestoreRateLimitBackend();
+
+/** 共有ストアの差し替え（エミュレータ・テスト用） */
+export function setRateLimitBackend(b: RateLimitBackend) {
+  backend = b;
+}
+
+/**
+ * express-rate-limit の Store。共有カウンタに委譲する。
+ * ストア障害時は制限しない（API 全体を止めない）。
+ */
+class SharedStore implements Store {
+  localKeys = false;
+  private windowMs = 60_000;
+
+  constructor(public prefix: string) {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    try {
+      const { count, resetAt } = await backend.hit(this.prefix + key, this.windowMs);
+      return { totalHits: count, resetTime: new Date(resetAt) };
+    } catch (e) {
+      console.error("rate limit store failed", e);
+      return { totalHits: 0, resetTime: undefined };
+    }
+  }
+
+  async decrement(key: string) {
+    await backend.decrement(this.prefix + key, this.windowMs).catch(() => undefined);
+  }
+
+  async resetKey(key: string) {
+    await backend.reset(this.prefix + key, this.windowMs).catch(() => undefined);
+  }
+}
+
+// requireAuth は req.user、requireToken は req.token を載せる
+const uidOf = (req: any): string | undefined => req.user?.uid ?? req.token?.uid;
+const orgOf = (req: any): string | undefined => req.user?.org_id ?? req.token?.org_id;
+
+function limiter(budget: RateBudget, scope: "user" | "org") {
+  const b = RATE_BUDGETS[budget];
+  return rateLimit({
+    windowMs: b.windowMs,
+    limit: b[scope],
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: new SharedStore(`${budget}:${scope}:`),
+    keyGenerator: (req) => (scope === "user" ? uidOf(req) : orgOf(req)) ?? "",
+    // 認証前に置かれた場合・組織未所属（招待の引き換え前）は数えない
+    skip: (req) => !(scope === "user" ? uidOf(req) : orgOf(req)),
+    message: { error: `rate limit exceeded (${budget} / ${scope})` },
+  });
+}
+
+/** IP 単位の制限（ヘルスチェック・OPTIONS は数えない） */
+export const ipRateLimit: RequestHandler = rateLimit({
+  windowMs: IP_BUDGET.windowMs,
+  limit: IP_BUDGET.limit,
+  standardHeaders: true,
+  legacyHeaders: false,
+  store: new SharedStore("ip:"),
+  skip: (req) => req.method === "OPTIONS" || req.path === "/healthz",
+  message: { error: "rate limit exceeded (ip)" },
+});
+
+const cache = new Map<RateBudget, RequestHandler>();
+
+/** 予算 budget で uid ごと・org ごとの 2 段の制限をかけるミドルウェア */
+export function rateLimitFor(budget: RateBudget): RequestHandler {
+  let mw = cache.get(budget);
+  if (!mw) {
+    const [byUser, byOrg] = [limiter(budget, "user"), limiter(budget, "org")];
+    mw = (req, res, next) =>
+      byUser(req, res, (err?: unknown) => (err ? next(err) : byOrg(req, res, next)));
+    cache.set(budget, mw);
+  }
+  return mw;
+}
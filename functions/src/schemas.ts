@@ -1,5 +1,6 @@
 // functions/src/schemas.ts
 import { z } from "zod";
+import { isPublicHttpsUrl, LAYER_TYPES, RESERVED_LAYER_IDS, WMS_FORMATS } from "./lib/layers";
 
 /* -------------------------- 共通ユーティリティ -------------------------- */
 const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
@@ -130,6 +131,20 @@ export const ReportSchema = ReportBase
     return { ...rest, unit: u };
   });
 
+/**
+ * 日報の修正（PATCH）。org_id 以外の項目を部分的に受け、unit は POST と同じく正規化する。
+ */
+export const ReportPatchSchema = ReportBase.omit({ org_id: true })
+  .partial()
+  .strict()
+  .refine((d) => Object.keys(d).length > 0, { message: "更新する項目を指定してください" })
+  .transform((d) => {
+    const { unit, output_unit, ...rest } = d;
+    const candidate = unit ?? output_unit;
+    if (!candidate) return rest;
+    return { ...rest, unit: UnitOut.parse(candidate === "m3" ? "m³" : candidate) };
+  });
+
 /* ------------------------------- PlanSchema ----------------------------- */
 /**
  * 施業計画。POST 時にも geom 等を任意許容（将来互換）。
@@ -177,15 +192,50 @@ const TrackBase = z
       .string()
       .refine((s: string) => !Number.isNaN(Date.parse(s)), "ISO日時で指定してください"),
     length_m: Num.nonnegative(),
+    // 各頂点の記録時刻（ISO。GPX の <time> に使う。無ければ start〜end を距離で按分）
+    times: z
+      .array(z.string().refine((s: string) => !Number.isNaN(Date.parse(s)), "ISO日時で指定してください"))
+      .optional(),
   })
   .strict();
 
 export const TrackSchema = TrackBase.refine(
   (d) => new Date(d.start) <= new Date(d.end),
   { path: ["start"], message: "start は end 以前である必要があります" }
-);
+).refine((d) => !d.times || d.times.length === d.geom.coordinates.length, {
+  path: ["times"],
+  message: "times は geom.coordinates と同じ件数で指定してください",
+});
 
 /* -------------------------- （オプション）Query用 ------------------------ */
+/**
+ * "minLng,minLat,maxLng,maxLat" 形式の bbox（クエリ文字列用）。
+ */
+export const BBoxParam = z
+  .string()
+  .transform((s: string) => s.split(",").map((v) => Number(v.trim())))
+  .pipe(z.tuple([Lng, Lat, Lng, Lat]))
+  .refine(([minLng, minLat, maxLng, maxLat]) => minLng <= maxLng && minLat <= maxLat, {
+    message: "bbox は minLng,minLat,maxLng,maxLat の順で指定してください",
+  })
+  .transform(([minLng, minLat, maxLng, maxLat]) => ({ minLng, minLat, maxLng, maxLat }));
+
+/**
+ * JSON 文字列で渡された GeoJSON Polygon / MultiPolygon（クエリ文字列用）。
+ */
+const AreaParam = z
+  .string()
+  .max(100_000)
+  .transform((s: string, ctx) => {
+    try {
+      return JSON.parse(s);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "polygon は GeoJSON 文字列で指定してください" });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.union([GeoJSONPolygon, GeoJSONMultiPolygon]));
+
 /**
  * trees/search のクエリ検証に使えるスキーマ。
  */
@@ -197,6 +247,11 @@ const TreesSearchBase = z
     dbh_min: Num.min(0).max(200).optional(),
     dbh_max: Num.min(0).max(200).optional(),
     limit: Num.min(1).max(2000).optional(),
+    // 空間条件（どちらか/両方。両方なら AND）
+    bbox: BBoxParam.optional(),
+    polygon: AreaParam.optional(),
+    // 前ページの next_cursor（不透明トークン）
+    cursor: z.string().min(1).max(1000).optional(),
   })
   .strict();
 
@@ -217,15 +272,376 @@ export const TreesSearchQuerySchema = TreesSearchBase
   );
 
 /**
- * /plans 一覧の limit など
+ * GET /tiles/trees/{z}/{x}/{y}.pbf のパスとクエリ（属性条件のみ）。
+ */
+export const TileCoordSchema = z
+  .object({
+    z: z.coerce.number().int().min(0).max(22),
+    x: z.coerce.number().int().min(0),
+    y: z.coerce.number().int().min(0),
+  })
+  .refine((t) => t.x < 2 ** t.z && t.y < 2 ** t.z, { message: "タイル座標が範囲外です" });
+
+export const TreesTileQuerySchema = TreesSearchBase.pick({
+  species: true,
+  height_min: true,
+  height_max: true,
+  dbh_min: true,
+  dbh_max: true,
+}).strict();
+
+/**
+ * POST /trees/stats の入力（範囲ポリゴン＋任意の属性条件）。
+ */
+export const TreesStatsSchema = z
+  .object({
+    geom: z.union([GeoJSONPolygon, GeoJSONMultiPolygon]),
+    species: SafeStr(1, 200).optional(), // カンマ区切り
+    height_min: Num.min(0).max(100).optional(),
+    height_max: Num.min(0).max(100).optional(),
+    dbh_min: Num.min(0).max(200).optional(),
+    dbh_max: Num.min(0).max(200).optional(),
+  })
+  .strict();
+
+/* ---------------------------- 単木インポート ---------------------------- */
+const DEGREES_HINT = "WGS84 の度で指定してください（投影座標は不可）";
+
+/**
+ * インポート 1 行分。CSV 由来の数値文字列も受ける。
+ */
+
+export const TreeImportRowSchema = z
+  .object({
+    tree_id: z.coerce.string().min(1).max(128).optional(),
+    species: SafeStr(1, 64).optional(),
+    height_m: Num.min(0).max(100).optional(),
+    dbh_cm: Num.min(0).max(300).optional(),
+    volume_m3: Num.nonnegative().max(100).optional(),
+    // 範囲外は投影座標（平面直角の x / y など）を取り違えた可能性が高い
+    lat: Num.min(-90, DEGREES_HINT).max(90, DEGREES_HINT),
+    lng: Num.min(-180, DEGREES_HINT).max(180, DEGREES_HINT),
+  })
+  .strict();
+
+const Flag = z
+  .union([z.literal("1"), z.literal("0"), z.literal("true"), z.literal("false")])
+  .transform((v) => v === "1" || v === "true");
+
+/**
+ * POST /admin/trees/import のクエリ（本文は CSV / GeoJSON そのもの）。
+ * col_* で列名を明示できる（未指定なら既定のエイリアスで推定）。
+ */
+export const TreesImportQuerySchema = z
+  .object({
+    format: z.enum(["csv", "geojson"]).optional(), // 未指定なら Content-Type から推定
+    dry_run: Flag.optional(), // 検証のみ
+    skip_invalid: Flag.optional(), // 不正行を除いて取り込む
+    col_tree_id: SafeStr(1, 100).optional(),
+    col_species: SafeStr(1, 100).optional(),
+    col_height_m: SafeStr(1, 100).optional(),
+    col_dbh_cm: SafeStr(1, 100).optional(),
+    col_volume_m3: SafeStr(1, 100).optional(),
+    col_lat: SafeStr(1, 100).optional(),
+    col_lng: SafeStr(1, 100).optional(),
+  })
+  .strict();
+
+/**
+ * POST /admin/trees/detect（CHM GeoTIFF からの単木検出ジョブ）。
+ * 窓径 = window.a + window.b·樹高（m）、DBH = a·h^b、材積 = c·DBH^d·h^e。
+ */
+const Positive = z.number().positive().max(1000);
+export const ChmDetectSchema = z
+  .object({
+    storage_path: SafeStr(1, 1024).refine((s) => /\.tiff?$/i.test(s), "GeoTIFF を指定してください"),
+    species: SafeStr(1, 64).optional(),
+    crs_proj4: SafeStr(1, 500).optional(), // EPSG:4326/3857 以外のとき必須
+    min_height_m: z.number().min(0).max(50).optional(),
+    smooth: z.boolean().optional(),
+    window: z
+      .object({
+        a: z.number().min(0).max(50),
+        b: z.number().min(0).max(5),
+        min: Positive,
+        max: Positive,
+      })
+      .partial()
+      .strict()
+      .optional(),
+    allometry: z
+      .object({
+        dbh: z.object({ a: Positive, b: Positive }).partial().strict().optional(),
+        volume: z.object({ c: Positive, d: Positive, e: Positive }).partial().strict().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * /plans 一覧の limit / cursor
  */
 export const PlansListQuerySchema = z
   .object({
     limit: Num.min(1).max(200).optional(),
+    cursor: z.string().min(1).max(1000).optional(),
+  })
+  .strict();
+
+/**
+ * POST /admin/trees/geohash-backfill の 1 回分（cursor は前回の next_cursor）。
+ */
+export const TreesGeohashBackfillSchema = z
+  .object({
+    limit: Num.min(1).max(2000).optional(),
+    cursor: z.string().min(1).max(1000).optional(),
+  })
+  .strict();
+
+/**
+ * GET /offline/bundles（自分のバンドル履歴）の limit / cursor。
+ * 完了済みの項目は 1 件ずつ署名付き URL を作るため、/plans より上限を小さくする。
+ */
+export const OfflineBundlesListQuerySchema = z
+  .object({
+    limit: Num.min(1).max(50).optional(),
+    cursor: z.string().min(1).max(1000).optional(),
+  })
+  .strict();
+
+/**
+ * GET /reports の絞り込み・ページング・集計。
+ * from / to は work_date（YYYY-MM-DD、両端含む）。group_by 指定時は一覧ではなく集計を返す。
+ */
+const Ymd = z
+  .string()
+  .regex(ISO_DATE_RE, "YYYY-MM-DD 形式で指定してください")
+  .refine((s: string) => isValidYMD(s), "存在しない日付です");
+
+export const ReportsListQuerySchema = z
+  .object({
+    from: Ymd.optional(),
+    to: Ymd.optional(),
+    task_code: SafeStr(1, 64).optional(),
+    worker_id: SafeStr(1, 64).optional(),
+    team: SafeStr(1, 100).optional(),
+    site_id: SafeStr(1, 100).optional(),
+    stand_id: SafeStr(1, 100).optional(),
+    incident: Incident.optional(),
+    group_by: z
+      .enum(["month", "work_date", "task_code", "worker_id", "team", "site_id", "stand_id"])
+      .optional(),
+    limit: Num.min(1).max(200).optional(),
+    cursor: z.string().min(1).max(1000).optional(),
+  })
+  .strict()
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    path: ["from"],
+    message: "from は to 以前である必要があります",
+  });
+
+/**
+ * GET /tracks・GET /tracks/export の絞り込み。
+ * from / to は start（記録開始）で判定。YYYY-MM-DD か ISO 日時（日付のみの to はその日の終わりまで）。
+ */
+const DateOrTime = z
+  .string()
+  .max(40)
+  .refine(
+    (s: string) => (ISO_DATE_RE.test(s) ? isValidYMD(s) : !Number.isNaN(Date.parse(s))),
+    "日付または ISO日時で指定してください"
+  );
+
+const TracksQueryBase = z.object({
+  report_id: SafeStr(1, 128).optional(),
+  from: DateOrTime.optional(),
+  to: DateOrTime.optional(),
+});
+
+export const TracksListQuerySchema = TracksQueryBase.extend({
+  limit: Num.min(1).max(200).optional(),
+  cursor: z.string().min(1).max(1000).optional(),
+}).strict();
+
+export const TracksExportQuerySchema = TracksQueryBase.extend({
+  format: z.enum(["gpx", "kml", "geojson"]).optional(),
+}).strict();
+
+/* ---------------------------- 組織メンバー管理 ---------------------------- */
+// mw/auth.ts の ROLES と同じ並び
+export const RoleSchema = z.enum(["admin", "manager", "staff", "viewer"]);
+
+/** POST /admin/invitations（初回 Google ログイン時に引き換える招待） */
+export const InvitationSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email("メールアドレスの形式が不正です").max(254),
+    role: RoleSchema,
+  })
+  .strict();
+
+/** PATCH /admin/members/:uid（ロール変更・利用停止／再開） */
+export const MemberPatchSchema = z
+  .object({
+    role: RoleSchema.optional(),
+    status: z.enum(["active", "suspended"]).optional(),
+  })
+  .strict()
+  .refine((b) => b.role !== undefined || b.status !== undefined, {
+    message: "role または status を指定してください",
+  });
+
+/** POST /me/active-org（選択中の組織の切り替え） */
+export const ActiveOrgSchema = z.object({ org_id: SafeStr(1, 128) }).strict();
+
+/**
+ * GET /audit の絞り込み。from / to は記録時刻（at）で判定（日付のみは JST の 1 日）。
+ */
+export const AuditQuerySchema = z
+  .object({
+    uid: SafeStr(1, 128).optional(),
+    collection: SafeStr(1, 200).optional(),
+    from: DateOrTime.optional(),
+    to: DateOrTime.optional(),
+    limit: Num.min(1).max(200).optional(),
+    cursor: z.string().min(1).max(1000).optional(),
+  })
+  .strict();
+
+/* ---------------------------- 日報の一括登録 ---------------------------- */
+/** Idempotency-Key（outbox が 1 件ごとに生成する UUID など） */
+export const IdempotencyKey = z
+  .string()
+  .regex(/^[A-Za-z0-9_.:-]{8,128}$/, "Idempotency-Key は英数字と _.:- の 8〜128 文字で指定してください");
+
+/**
+ * POST /reports/batch。data は ReportSchema で 1 件ずつ検証する（1 件の不備で全体を落とさない）
+ * ため、ここでは形だけを見る。
+ */
+export const ReportsBatchSchema = z
+  .object({
+    items: z
+      .array(
+        z
+          .object({
+            idempotency_key: IdempotencyKey.optional(),
+            data: z.record(z.unknown()),
+          })
+          .strict()
+      )
+      .min(1)
+      .max(200),
+  })
+  .strict();
+
+/* ---------------------------- レイヤ登録簿 ---------------------------- */
+const LayerLegendSchema = z
+  .object({
+    image_url: z
+      .string()
+      .max(2000)
+      .refine(isPublicHttpsUrl, "凡例画像は https の URL で指定してください")
+      .optional(),
+    items: z
+      .array(
+        z
+          .object({
+            label: SafeStr(1, 100),
+            color: z.string().regex(/^#[0-9a-fA-F]{3,8}$/, "色は #rrggbb 形式で指定してください"),
+          })
+          .strict()
+      )
+      .max(50)
+      .optional(),
+  })
+  .strict();
+
+const WmsParamsSchema = z
+  .object({
+    layers: SafeStr(1, 500), // カンマ区切り
+    styles: SafeStr(0, 500).optional(),
+    format: z.enum(WMS_FORMATS).optional(),
+    version: z.enum(["1.1.1", "1.3.0"]).optional(),
+    transparent: z.boolean().optional(),
+    crs: z.enum(["EPSG:3857", "EPSG:900913", "EPSG:102100", "EPSG:102113"]).optional(),
   })
   .strict();
 
+// 既定レイヤでも上書きできる表示設定（lib/layers.ts の LAYER_OVERRIDABLE）
+const LayerDisplay = z.object({
+  label: SafeStr(1, 100),
+  min_zoom: z.number().int().min(0).max(22),
+  max_zoom: z.number().int().min(0).max(22),
+  attribution: SafeStr(0, 500).optional(),
+  legend: LayerLegendSchema.nullable().optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  group: SafeStr(1, 50).optional(),
+  base: z.boolean().optional(),
+  order: z.number().int().min(0).max(100_000).optional(),
+  enabled: z.boolean().optional(),
+});
+
+// 上流（組織が独自に登録したレイヤのみ変更可）
+const LayerSource = z.object({
+  type: z.enum(LAYER_TYPES),
+  url: z.string().max(2000).refine(isPublicHttpsUrl, "上流 URL は公開の https のみ指定できます"),
+  wms: WmsParamsSchema.optional(),
+  avg_tile_bytes: z.number().int().min(100).max(1_000_000).optional(),
+});
+
+const LayerId = z
+  .string()
+  .regex(/^[a-z][a-z0-9_]{1,39}$/, "id は英小文字で始まる英小文字・数字・_ の 2〜40 文字です")
+  .refine((id) => !RESERVED_LAYER_IDS.includes(id), "この id は予約されています");
+
+const hasTilePlaceholders = (url: string) =>
+  /\{(z|TileMatrix)\}/.test(url) && /\{(x|TileCol)\}/.test(url) && /\{(y|TileRow)\}/.test(url);
+
+/** POST /admin/layers（組織独自のレイヤ）。PATCH 後の内容もこれで検証し直す */
+export const LayerSchema = LayerDisplay.merge(LayerSource)
+  .extend({
+    id: LayerId,
+  })
+  .strict()
+  .refine((l) => l.min_zoom <= l.max_zoom, { message: "min_zoom は max_zoom 以下にしてください" })
+  .refine((l) => (l.type === "wms") === !!l.wms, {
+    path: ["wms"],
+    message: "wms パラメータは type が wms のときだけ（必須）指定します",
+  })
+  .refine((l) => l.type === "wms" || hasTilePlaceholders(l.url), {
+    path: ["url"],
+    message: "url には {z} {x} {y}（WMTS は {TileMatrix} {TileCol} {TileRow}）を含めてください",
+  });
+
+/** PATCH /admin/layers/:id（既定レイヤは表示設定のみ） */
+export const LayerPatchSchema = LayerDisplay.merge(LayerSource)
+  .partial()
+  .extend({ wms: WmsParamsSchema.nullable().optional() })
+  .strict()
+  .refine((b) => Object.keys(b).length > 0, { message: "変更する項目を指定してください" });
+
+/** POST /admin/layers/capabilities（GetCapabilities の URL） */
+export const CapabilitiesQuerySchema = z
+  .object({
+    url: z.string().trim().max(2000).refine(isPublicHttpsUrl, "公開の https の URL を指定してください"),
+  })
+  .strict();
+
+/** POST /admin/layers/import（一覧から選んだレイヤを登録簿に追加） */
+export const CapabilitiesImportSchema = CapabilitiesQuerySchema.extend({
+  layer: SafeStr(1, 500),
+  style: SafeStr(0, 500).optional(),
+  tile_matrix_set: SafeStr(1, 500).optional(),
+  format: SafeStr(1, 100).optional(),
+  id: LayerId,
+  label: SafeStr(1, 100).optional(),
+  group: SafeStr(1, 50).optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  base: z.boolean().optional(),
+}).strict();
+
 /* ------------------------------ 型エクスポート --------------------------- */
 export type ReportInput = z.infer<typeof ReportSchema>;
 export type PlanInput = z.infer<typeof PlanSchema>;
 export type TrackInput = z.infer<typeof TrackSchema>;
+export type TreeImportRow = z.infer<typeof TreeImportRowSchema>;
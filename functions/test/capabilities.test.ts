@@ -0,0 +1,189 @@
+// functions/test/capabilities.test.ts
+/* =========================================================
+ * GetCapabilities の解析と上流設定の組み立て（fixtures/capabilities/*.xml）
+ * =======================================================*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  capabilitiesLayerSource,
+  CapabilitiesError,
+  parseCapabilities,
+} from "../src/lib/capabilities";
+import { expandTemplate } from "../src/lib/tileCache";
+import { LayerDef, layerTileUrl } from "../src/lib/layers";
+
+const fixture = (name: string) =>
+  parseCapabilities(readFileSync(join(__dirname, "../fixtures/capabilities", name), "utf8"));
+
+const layerOf = (caps: ReturnType<typeof fixture>, name: string) =>
+  caps.layers.find((l) => l.name === name)!;
+
+// 組み立てた上流設定を登録簿のレイヤとして z/x/y に展開する
+const tileUrl = (source: ReturnType<typeof capabilitiesLayerSource>, z: number, x: number, y: number) =>
+  layerTileUrl({ id: "t", ...source } as LayerDef, z, x, y);
+
+/* ---------------------------- WMS 1.3.0 ---------------------------- */
+test("WMS 1.3.0: 名前付きレイヤを一覧にし、CRS・スタイル・範囲を親から引き継ぐ", () => {
+  const caps = fixture("wms-1.3.0.xml");
+  assert.equal(caps.service, "WMS");
+  assert.equal(caps.version, "1.3.0");
+  assert.deepEqual(
+    caps.layers.map((l) => l.name),
+    ["forest_register", "zoning", "protection_forest", "plane_rect_only"]
+  );
+
+  const register = layerOf(caps, "forest_register");
+  assert.ok(register.supported);
+  assert.deepEqual(
+    register.styles.map((s) => s.name),
+    ["default", "by_species"]
+  );
+  assert.equal(register.styles[1].legend_url, "https://gis.pref.example.jp/legend/by_species.png");
+  assert.deepEqual(register.bbox, [139.3, 41.3, 145.9, 45.6]);
+  assert.deepEqual(layerOf(caps, "zoning").bbox, [140, 41.4, 141.5, 42.5]);
+
+  // グループの下の入れ子も、最上位の CRS を引き継いで取り込める
+  const nested = layerOf(caps, "protection_forest");
+  assert.ok(nested.supported);
+  assert.ok(nested.crs!.includes("EPSG:3857"));
+
+  const plane = layerOf(caps, "plane_rect_only");
+  assert.equal(plane.supported, false);
+  assert.match(plane.note!, /EPSG:3857/);
+});
+
+test("WMS 1.3.0: GetMap の URL と EPSG:3857 の bbox で上流を組み立てる", () => {
+  const caps = fixture("wms-1.3.0.xml");
+  const source = capabilitiesLayerSource(caps, { layer: "forest_register", style: "by_species" });
+  assert.equal(source.type, "wms");
+  assert.equal(source.url, "https://gis.pref.example.jp/wms?map=forest&");
+  assert.deepEqual(source.wms, {
+    layers: "forest_register",
+    styles: "by_species",
+    format: "image/png",
+    version: "1.3.0",
+    transparent: true,
+  });
+  assert.deepEqual(source.legend, { image_url: "https://gis.pref.example.jp/legend/by_species.png" });
+
+  const u = new URL(tileUrl(source, 1, 1, 0));
+  assert.equal(u.searchParams.get("map"), "forest");
+  assert.equal(u.searchParams.get("CRS"), "EPSG:3857");
+  assert.equal(u.searchParams.get("SRS"), null);
+  assert.equal(u.searchParams.get("BBOX"), "0,0,20037508.342789244,20037508.342789244");
+});
+
+test("WMS: スタイル未指定はサーバの既定（STYLES 空）", () => {
+  const source = capabilitiesLayerSource(fixture("wms-1.3.0.xml"), { layer: "zoning" });
+  assert.equal(source.wms!.styles, "");
+  assert.equal(source.legend, null);
+});
+
+test("WMS: 取り込めないレイヤ・無いスタイルは CapabilitiesError", () => {
+  const caps = fixture("wms-1.3.0.xml");
+  assert.throws(() => capabilitiesLayerSource(caps, { layer: "plane_rect_only" }), CapabilitiesError);
+  assert.throws(
+    () => capabilitiesLayerSource(caps, { layer: "zoning", style: "nope" }),
+    CapabilitiesError
+  );
+  assert.throws(() => capabilitiesLayerSource(caps, { layer: "missing" }), CapabilitiesError);
+});
+
+test("WMS: 形式は登録簿に保存できるもの（png / webp / jpeg）に限る", () => {
+  const caps = fixture("wms-1.3.0.xml");
+  const jpeg = capabilitiesLayerSource(caps, { layer: "zoning", format: "image/jpeg" });
+  assert.equal(jpeg.wms!.format, "image/jpeg");
+  assert.throws(
+    () => capabilitiesLayerSource(caps, { layer: "zoning", format: "image/gif" }),
+    CapabilitiesError
+  );
+
+  const png8Only = { ...caps, layers: caps.layers.map((l) => ({ ...l, formats: ["image/png8"] })) };
+  assert.throws(() => capabilitiesLayerSource(png8Only, { layer: "zoning" }), CapabilitiesError);
+});
+
+/* ---------------------------- WMS 1.1.1 ---------------------------- */
+test("WMS 1.1.1: SRS の 900913 を Web メルカトルとして選び、SRS パラメータで送る", () => {
+  const caps = fixture("wms-1.1.1.xml");
+  assert.equal(caps.version, "1.1.1");
+  const zoning = layerOf(caps, "zoning");
+  assert.ok(zoning.supported);
+  assert.deepEqual(zoning.crs, ["EPSG:4326", "EPSG:900913"]);
+  assert.deepEqual(zoning.bbox, [139, 35, 141, 37]);
+
+  const source = capabilitiesLayerSource(caps, { layer: "zoning" });
+  assert.equal(source.wms!.version, "1.1.1");
+  assert.equal(source.wms!.crs, "EPSG:900913");
+  assert.equal(source.wms!.format, "image/png"); // jpeg より png を優先
+
+  const u = new URL(tileUrl(source, 0, 0, 0));
+  assert.equal(u.origin + u.pathname, "https://legacy.example.org/cgi-bin/wms");
+  assert.equal(u.searchParams.get("SRS"), "EPSG:900913");
+  assert.equal(u.searchParams.get("CRS"), null);
+});
+
+/* ---------------------------- WMTS 1.0.0 ---------------------------- */
+test("WMTS: Web メルカトルのマトリクスセットだけを z/x/y に対応づける", () => {
+  const caps = fixture("wmts-1.0.0.xml");
+  assert.equal(caps.service, "WMTS");
+  const byId = Object.fromEntries(caps.tile_matrix_sets.map((s) => [s.id, s.web_mercator]));
+  assert.deepEqual(byId["GoogleMapsCompatible"], { min_zoom: 5, max_zoom: 7, prefix: "" });
+  assert.deepEqual(byId["EPSG:3857"], { min_zoom: 0, max_zoom: 2, prefix: "EPSG:3857:" });
+  assert.equal(byId["JGD2011_PlaneRect_XII"], null);
+
+  assert.ok(layerOf(caps, "forest_plan").supported);
+  assert.ok(layerOf(caps, "zoning").supported);
+  assert.equal(layerOf(caps, "plane_only").supported, false);
+});
+
+test("WMTS: REST テンプレートのスタイル・マトリクスセットを埋め、タイル座標は展開時に入れる", () => {
+  const caps = fixture("wmts-1.0.0.xml");
+  const source = capabilitiesLayerSource(caps, { layer: "forest_plan" });
+  assert.equal(source.type, "wmts");
+  assert.equal(
+    source.url,
+    "https://tiles.pref.example.jp/wmts/forest_plan/default/GoogleMapsCompatible/{TileMatrix}/{TileRow}/{TileCol}.png"
+  );
+  assert.equal(source.min_zoom, 5);
+  assert.equal(source.max_zoom, 7);
+  assert.deepEqual(source.legend, { image_url: "https://tiles.pref.example.jp/legend/forest_plan.png" });
+  assert.equal(
+    expandTemplate(source.url, 7, 114, 46),
+    "https://tiles.pref.example.jp/wmts/forest_plan/default/GoogleMapsCompatible/7/46/114.png"
+  );
+});
+
+test("WMTS: REST が無ければ KVP の GetTile（TileMatrix の id は接頭辞 + z）", () => {
+  const caps = fixture("wmts-1.0.0.xml");
+  const source = capabilitiesLayerSource(caps, { layer: "zoning" });
+  assert.equal(source.min_zoom, 0);
+  assert.equal(source.max_zoom, 2);
+
+  const u = new URL(expandTemplate(source.url, 2, 3, 1));
+  assert.equal(u.origin + u.pathname, "https://tiles.pref.example.jp/wmts");
+  assert.equal(u.searchParams.get("REQUEST"), "GetTile");
+  assert.equal(u.searchParams.get("LAYER"), "zoning");
+  assert.equal(u.searchParams.get("STYLE"), "default");
+  assert.equal(u.searchParams.get("TILEMATRIXSET"), "EPSG:3857");
+  assert.equal(u.searchParams.get("FORMAT"), "image/png");
+  assert.equal(u.searchParams.get("TILEMATRIX"), "EPSG:3857:2");
+  assert.equal(u.searchParams.get("TILEROW"), "1");
+  assert.equal(u.searchParams.get("TILECOL"), "3");
+});
+
+test("WMTS: Web メルカトルでないマトリクスセットの指定は CapabilitiesError", () => {
+  const caps = fixture("wmts-1.0.0.xml");
+  assert.throws(
+    () => capabilitiesLayerSource(caps, { layer: "forest_plan", tile_matrix_set: "JGD2011_PlaneRect_XII" }),
+    CapabilitiesError
+  );
+  assert.throws(() => capabilitiesLayerSource(caps, { layer: "plane_only" }), CapabilitiesError);
+});
+
+/* ---------------------------- その他 ---------------------------- */
+test("WMS / WMTS 以外・例外レポートは CapabilitiesError", () => {
+  assert.throws(() => parseCapabilities("<ServiceExceptionReport/>"), CapabilitiesError);
+  assert.throws(() => parseCapabilities("<html><body>not found</body></html>"), CapabilitiesError);
+});
@@ -0,0 +1,49 @@
+// functions/test/csv.test.ts
+/* =========================================================
+ * CSV パーサ（lib/csv.ts）
+ * =======================================================*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { csvToObjects, parseCsv } from "../src/lib/csv";
+
+test("引用符の中の区切り・改行・二重引用符をセルとして読む", () => {
+  const rows = parseCsv('a,b,c\n"x,1","line1\nline2","say ""hi"""\n');
+  assert.deepEqual(rows, [
+    ["a", "b", "c"],
+    ["x,1", "line1\nline2", 'say "hi"'],
+  ]);
+});
+
+test("CRLF・末尾の改行なし・空行を扱う", () => {
+  assert.deepEqual(parseCsv("a,b\r\n1,2\r\n\r\n3,4"), [
+    ["a", "b"],
+    ["1", "2"],
+    ["3", "4"],
+  ]);
+  // 空のセルは残す
+  assert.deepEqual(parseCsv("a,,c\n"), [["a", "", "c"]]);
+});
+
+test("先頭の BOM を除く", () => {
+  const rows = parseCsv("\ufefflat,lng\n35,139\n");
+  assert.equal(rows[0][0], "lat");
+  assert.deepEqual(csvToObjects("\ufefflat,lng\n35,139\n"), [{ lat: "35", lng: "139" }]);
+});
+
+test("区切り文字を指定できる（TSV）", () => {
+  assert.deepEqual(parseCsv("a\tb\n1\t2", "\t"), [
+    ["a", "b"],
+    ["1", "2"],
+  ]);
+});
+
+test("閉じていない引用符はエラー", () => {
+  assert.throws(() => parseCsv('a,b\n"x,1\n'), /unterminated quoted field/);
+});
+
+test("csvToObjects: ヘッダと値の前後の空白を除き、足りないセルは空文字", () => {
+  assert.deepEqual(csvToObjects(" lat , lng ,species\n 35.1 ,139.2\n"), [
+    { lat: "35.1", lng: "139.2", species: "" },
+  ]);
+  assert.deepEqual(csvToObjects(""), []);
+});
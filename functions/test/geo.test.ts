@@ -0,0 +1,114 @@
+// functions/test/geo.test.ts
+/* =========================================================
+ * geohash の被覆と点の内外判定（lib/geo.ts）
+ * =======================================================*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AreaGeom, BBox, bboxContains, bboxIntersects, geohashBounds, geohashCover, pointInArea } from "../src/lib/geo";
+
+// bbox 内の格子点がどれかのプレフィックスのセルに入り、どのセルも bbox に掛かる
+function assertCovers(cover: string[], b: BBox) {
+  const cells = cover.map(geohashBounds);
+  for (const c of cells) assert.ok(bboxIntersects(c, b), `cell outside bbox: ${JSON.stringify(c)}`);
+  for (let i = 0; i <= 10; i++) {
+    for (let j = 0; j <= 10; j++) {
+      const lng = b.minLng + ((b.maxLng - b.minLng) * i) / 10;
+      const lat = b.minLat + ((b.maxLat - b.minLat) * j) / 10;
+      assert.ok(cells.some((c) => bboxContains(c, lng, lat)), `not covered: ${lng},${lat}`);
+    }
+  }
+}
+
+/* ---------------------------- geohashCover ---------------------------- */
+test("geohashCover: セル数の上限に収まる最も細かい桁で bbox を覆う", () => {
+  const b = { minLng: 139.7, minLat: 35.6, maxLng: 139.8, maxLat: 35.7 };
+  for (const max of [1, 4, 16, 64]) {
+    const cover = geohashCover(b, max);
+    assert.ok(cover.length <= max, `max ${max}: ${cover.length}`);
+    assert.ok(cover.every((p) => p.length === cover[0].length));
+    assertCovers(cover, b);
+  }
+  // 上限を増やすと桁が細かくなる
+  assert.ok(geohashCover(b, 64)[0].length > geohashCover(b, 4)[0].length);
+  // 重複は無い
+  const cover = geohashCover(b);
+  assert.equal(new Set(cover).size, cover.length);
+});
+
+test("geohashCover: 1 桁でも上限を超えるときは全体（\"\"）", () => {
+  assert.deepEqual(geohashCover({ minLng: -180, minLat: -90, maxLng: 180, maxLat: 90 }), [""]);
+  // 経度 0 をまたぐと 1 桁でも 2 セル
+  assert.deepEqual(geohashCover({ minLng: -0.1, minLat: 10, maxLng: 0.1, maxLat: 10.1 }, 1), [""]);
+});
+
+test("geohashCover: 東端 180° ちょうどの bbox は存在しない列を数えない", () => {
+  const b = { minLng: 179.99, minLat: 35, maxLng: 180, maxLat: 35.01 };
+  const cover = geohashCover(b, 1);
+  assert.equal(cover.length, 1);
+  assert.notEqual(cover[0], "");
+  assertCovers(cover, b);
+  // 北端 90° も同様
+  const north = { minLng: 10, minLat: 89.99, maxLng: 10.01, maxLat: 90 };
+  assert.notEqual(geohashCover(north, 1)[0], "");
+  assertCovers(geohashCover(north, 1), north);
+});
+
+test("geohashCover: 日付変更線をまたぐ bbox は東西の両側を覆う", () => {
+  const b = { minLng: 179.5, minLat: -17, maxLng: -179.5, maxLat: -16.5 };
+  const cover = geohashCover(b);
+  assert.ok(cover.length > 0 && cover.length <= 16);
+  const east = cover.filter((p) => geohashBounds(p).minLng >= 0);
+  const west = cover.filter((p) => geohashBounds(p).maxLng <= 0);
+  assert.equal(east.length + west.length, cover.length);
+  assertCovers(east, { ...b, maxLng: 180 });
+  assertCovers(west, { ...b, minLng: -180 });
+});
+
+/* ---------------------------- pointInArea ---------------------------- */
+const square = (x0: number, y0: number, x1: number, y1: number): [number, number][] => [
+  [x0, y0],
+  [x1, y0],
+  [x1, y1],
+  [x0, y1],
+  [x0, y0],
+];
+
+test("pointInArea: Polygon の穴の中は外", () => {
+  const g: AreaGeom = { type: "Polygon", coordinates: [square(0, 0, 10, 10), square(4, 4, 6, 6)] };
+  assert.equal(pointInArea(2, 2, g), true);
+  assert.equal(pointInArea(5, 5, g), false);
+  assert.equal(pointInArea(11, 5, g), false);
+  // 穴が複数
+  const two: AreaGeom = { type: "Polygon", coordinates: [square(0, 0, 10, 10), square(1, 1, 2, 2), square(7, 7, 9, 9)] };
+  assert.equal(pointInArea(1.5, 1.5, two), false);
+  assert.equal(pointInArea(8, 8, two), false);
+  assert.equal(pointInArea(5, 5, two), true);
+});
+
+test("pointInArea: MultiPolygon はどれかの多角形の内側（穴を除く）", () => {
+  const g: AreaGeom = {
+    type: "MultiPolygon",
+    coordinates: [
+      [square(0, 0, 10, 10), square(2, 2, 8, 8)],
+      // 1 つ目の穴の中の島
+      [square(4, 4, 6, 6)],
+      [square(20, 20, 30, 30)],
+    ],
+  };
+  assert.equal(pointInArea(1, 1, g), true);
+  assert.equal(pointInArea(3, 3, g), false);
+  assert.equal(pointInArea(5, 5, g), true);
+  assert.equal(pointInArea(25, 25, g), true);
+  assert.equal(pointInArea(15, 15, g), false);
+});
+
+test("pointInArea: 凹多角形", () => {
+  // コの字
+  const g: AreaGeom = {
+    type: "Polygon",
+    coordinates: [[[0, 0], [3, 0], [3, 3], [2, 3], [2, 1], [1, 1], [1, 3], [0, 3], [0, 0]]],
+  };
+  assert.equal(pointInArea(0.5, 2, g), true);
+  assert.equal(pointInArea(1.5, 2, g), false);
+  assert.equal(pointInArea(2.5, 2, g), true);
+});
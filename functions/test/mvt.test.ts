@@ -0,0 +1,98 @@
+// functions/test/mvt.test.ts
+/* =========================================================
+ * MVT エンコーダ（lib/mvt.ts）：@mapbox/vector-tile で読み戻して確かめる
+ * =======================================================*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { VectorTile } from "@mapbox/vector-tile";
+import { PbfReader } from "pbf";
+import { encodeTile, lngLatToTile, MVT_EXTENT, tileBBox } from "../src/lib/mvt";
+
+const decode = (buf: Buffer) => new VectorTile(new PbfReader(buf));
+const props = (f: { properties: object }) => ({ ...f.properties });
+const xy = (f: { loadGeometry(): { x: number; y: number }[][] }) =>
+  f.loadGeometry().map((ring) => ring.map((p) => [p.x, p.y]));
+
+test("点と属性を読み戻せる（文字列・整数・負数・小数・真偽。null と NaN は落とす）", () => {
+  const tile = decode(
+    encodeTile([
+      {
+        name: "trees",
+        features: [
+          { type: "point", x: 10, y: 20, props: { id: "t1", species: "スギ", height_m: 21.5, dbh_cm: 32, flag: true } },
+          { type: "point", x: -5, y: 4100, props: { id: "t2", species: "スギ", offset: -3, note: null, v: NaN } },
+        ],
+      },
+    ])
+  );
+  const layer = tile.layers.trees;
+  assert.equal(layer.version, 2);
+  assert.equal(layer.extent, MVT_EXTENT);
+  assert.equal(layer.length, 2);
+
+  const a = layer.feature(0);
+  assert.equal(a.type, 1);
+  assert.deepEqual(xy(a), [[[10, 20]]]);
+  assert.deepEqual(props(a), { id: "t1", species: "スギ", height_m: 21.5, dbh_cm: 32, flag: true });
+
+  // タイル外（バッファ）の座標も符号付きで戻る
+  const b = layer.feature(1);
+  assert.deepEqual(xy(b), [[[-5, 4100]]]);
+  assert.deepEqual(props(b), { id: "t2", species: "スギ", offset: -3 });
+});
+
+test("矩形は閉じた外周のポリゴンとして読み戻せる", () => {
+  const tile = decode(
+    encodeTile([
+      {
+        name: "tree_grid",
+        extent: 512,
+        features: [{ type: "rect", x0: 16, y0: 32, x1: 48, y1: 96, props: { count: 120000 } }],
+      },
+    ])
+  );
+  const layer = tile.layers.tree_grid;
+  assert.equal(layer.extent, 512);
+  const f = layer.feature(0);
+  assert.equal(f.type, 3);
+  assert.deepEqual(xy(f), [[[16, 32], [48, 32], [48, 96], [16, 96], [16, 32]]]);
+  assert.deepEqual(props(f), { count: 120000 });
+  assert.deepEqual(f.bbox(), [16, 32, 48, 96]);
+});
+
+test("複数レイヤ（地物の無いレイヤは読み手が無視する）", () => {
+  const tile = decode(
+    encodeTile([
+      { name: "trees", features: [] },
+      { name: "tree_grid", features: [{ type: "rect", x0: 0, y0: 0, x1: 4096, y1: 4096, props: {} }] },
+    ])
+  );
+  assert.deepEqual(Object.keys(tile.layers), ["tree_grid"]);
+  assert.deepEqual(props(tile.layers.tree_grid.feature(0)), {});
+
+  const both = decode(
+    encodeTile([
+      { name: "trees", features: [{ type: "point", x: 1, y: 2, props: { id: "a" } }] },
+      { name: "tree_grid", features: [{ type: "rect", x0: 0, y0: 0, x1: 8, y1: 8, props: { count: 3 } }] },
+    ])
+  );
+  assert.deepEqual(Object.keys(both.layers).sort(), ["tree_grid", "trees"]);
+  // キー・値の表はレイヤごと
+  assert.deepEqual(props(both.layers.trees.feature(0)), { id: "a" });
+  assert.deepEqual(props(both.layers.tree_grid.feature(0)), { count: 3 });
+  assert.equal(encodeTile([]).length, 0);
+});
+
+test("タイルの範囲の角はタイル内座標の 0 と extent になり、toGeoJSON で経緯度に戻る", () => {
+  const t = { z: 14, x: 14552, y: 6451 };
+  const b = tileBBox(t);
+  assert.deepEqual(lngLatToTile(b.minLng, b.maxLat, t), { x: 0, y: 0 });
+  assert.deepEqual(lngLatToTile(b.maxLng, b.minLat, t), { x: MVT_EXTENT, y: MVT_EXTENT });
+
+  const lng = 139.7671, lat = 35.6812;
+  const p = lngLatToTile(lng, lat, t);
+  const tile = decode(encodeTile([{ name: "trees", features: [{ type: "point", ...p, props: {} }] }]));
+  const [x, y] = (tile.layers.trees.feature(0).toGeoJSON(t.x, t.y, t.z).geometry as any).coordinates;
+  // タイル内座標の丸め（1/4096 タイル ≒ 2.4m）の範囲
+  assert.ok(Math.abs(x - lng) < 1e-4 && Math.abs(y - lat) < 1e-4, `${x},${y}`);
+});
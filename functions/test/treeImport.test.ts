@@ -0,0 +1,97 @@
+// functions/test/treeImport.test.ts
+/* =========================================================
+ * 単木インポートの列の対応づけと行の検証（lib/treeImport.ts）
+ * =======================================================*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rowsFromCsv, rowsFromGeoJSON, validateTreeRows } from "../src/lib/treeImport";
+
+/* ---------------------------- CSV ---------------------------- */
+test("CSV: 既定のエイリアス（日本語・大文字小文字の違い）で標準キーに対応づける", () => {
+  const rows = rowsFromCsv("\ufeff立木番号,樹種,樹高,DBH,Vol,緯度,経度\nA-1,スギ,21.5,32,0.8,35.1,139.2\n");
+  assert.deepEqual(rows, [
+    { tree_id: "A-1", species: "スギ", height_m: "21.5", dbh_cm: "32", volume_m3: "0.8", lat: "35.1", lng: "139.2" },
+  ]);
+});
+
+test("CSV: col_* の明示はエイリアスより優先し、空のセルは未指定にする", () => {
+  const rows = rowsFromCsv("lat,lng,y_deg,x_deg,species\n0,0,35.1,139.2,\n", { lat: "y_deg", lng: "x_deg" });
+  assert.deepEqual(rows, [{ lat: "35.1", lng: "139.2" }]);
+  assert.throws(() => rowsFromCsv("lat,lng\n35,139\n", { species: "nope" }), /column not found: nope/);
+});
+
+test("CSV: x / y は緯度経度とみなさない", () => {
+  assert.throws(() => rowsFromCsv("x,y\n139.2,35.1\n"), /lat\/lng columns not found/);
+});
+
+test("CSV: 引用符付きのセル（区切り入り）も 1 つの値として読む", () => {
+  const rows = rowsFromCsv('species,lat,lng\n"スギ, ヒノキ混交",35.1,139.2\n');
+  assert.equal(rows[0].species, "スギ, ヒノキ混交");
+});
+
+/* ---------------------------- GeoJSON ---------------------------- */
+test("GeoJSON: 位置は geometry から取り、properties の lat / lng は使わない", () => {
+  const rows = rowsFromGeoJSON({
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        id: 7,
+        geometry: { type: "Point", coordinates: [139.2, 35.1] },
+        properties: { 樹種: "ヒノキ", height: 18, lat: 0, lng: 0 },
+      },
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [139.3, 35.2] },
+        properties: { tree_id: "B-2", 樹種: "" },
+      },
+    ],
+  });
+  assert.deepEqual(rows, [
+    { species: "ヒノキ", height_m: 18, lng: 139.2, lat: 35.1, tree_id: "7" },
+    { tree_id: "B-2", lng: 139.3, lat: 35.2 },
+  ]);
+});
+
+test("GeoJSON: Point 以外は位置なしの行になり、FeatureCollection 以外はエラー", () => {
+  const rows = rowsFromGeoJSON({
+    type: "FeatureCollection",
+    features: [{ type: "Feature", geometry: { type: "LineString", coordinates: [] }, properties: {} }],
+  });
+  assert.deepEqual(rows, [{}]);
+  assert.throws(() => rowsFromGeoJSON({ type: "Feature" }), /FeatureCollection expected/);
+});
+
+/* ---------------------------- 行の検証 ---------------------------- */
+test("検証: 数値に変換し、不正な行は CSV の行番号（ヘッダが 1 行目）と理由を返す", () => {
+  const raw = rowsFromCsv("tree_id,height_m,lat,lng\nA,20,35.1,139.2\nB,abc,35.1,139.2\nC,10,,139.2\nD,5,-12345,5432\n");
+  const { valid, errors } = validateTreeRows(raw, "csv");
+  assert.deepEqual(valid, [{ tree_id: "A", height_m: 20, lat: 35.1, lng: 139.2 }]);
+  assert.deepEqual(
+    errors.map((e) => e.row),
+    [3, 4, 5]
+  );
+  assert.match(errors[0].errors.join(), /^height_m: /);
+  assert.match(errors[1].errors.join(), /^lat: /);
+  // 投影座標の取り違えは緯度・経度の両方を指摘する
+  assert.deepEqual(
+    errors[2].errors.map((x) => x.split(":")[0]),
+    ["lat", "lng"]
+  );
+});
+
+test("検証: GeoJSON の行番号は feature 添字", () => {
+  const raw = rowsFromGeoJSON({
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", geometry: { type: "Point", coordinates: [139.2, 35.1] }, properties: {} },
+      { type: "Feature", geometry: null, properties: { species: "スギ" } },
+    ],
+  });
+  const { valid, errors } = validateTreeRows(raw, "geojson");
+  assert.equal(valid.length, 1);
+  assert.deepEqual(
+    errors.map((e) => e.row),
+    [1]
+  );
+});